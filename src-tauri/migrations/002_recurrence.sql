@@ -0,0 +1,2 @@
+-- RRULE-style recurrence rule (see src/lib/recurrence.ts). NULL = one-off task.
+ALTER TABLE tasks ADD COLUMN recurrence TEXT;
@@ -0,0 +1,7 @@
+-- Inverse statements for undo/redo (see src/data/history.ts).
+-- The triggers that fill it are (re)generated at startup from the live table
+-- columns, so later migrations don't have to rewrite them.
+CREATE TABLE undolog (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  sql TEXT NOT NULL
+);
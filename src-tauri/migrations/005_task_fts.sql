@@ -0,0 +1,24 @@
+-- Full-text index over task titles and notes (external content: rows live in `tasks`).
+CREATE VIRTUAL TABLE tasks_fts USING fts5(
+  title,
+  notes,
+  content = 'tasks',
+  content_rowid = 'rowid',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER tasks_fts_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO tasks_fts (rowid, title, notes) VALUES (new.rowid, new.title, new.notes);
+END;
+
+CREATE TRIGGER tasks_fts_delete AFTER DELETE ON tasks BEGIN
+  INSERT INTO tasks_fts (tasks_fts, rowid, title, notes) VALUES ('delete', old.rowid, old.title, old.notes);
+END;
+
+CREATE TRIGGER tasks_fts_update AFTER UPDATE OF title, notes ON tasks BEGIN
+  INSERT INTO tasks_fts (tasks_fts, rowid, title, notes) VALUES ('delete', old.rowid, old.title, old.notes);
+  INSERT INTO tasks_fts (rowid, title, notes) VALUES (new.rowid, new.title, new.notes);
+END;
+
+INSERT INTO tasks_fts (tasks_fts) VALUES ('rebuild');
@@ -0,0 +1,15 @@
+-- User-defined smart views. tag_ids is a JSON array of tag ids.
+CREATE TABLE saved_views (
+  id TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  search TEXT NOT NULL DEFAULT '',
+  tag_ids TEXT NOT NULL DEFAULT '[]',
+  project_id TEXT,
+  priority_min INTEGER,
+  due_from TEXT,
+  due_to TEXT,
+  include_completed INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL
+);
@@ -0,0 +1,4 @@
+-- Optional time of day for the deadline ("HH:MM", local wall-clock; NULL = any
+-- time that day) and a start/scheduled date distinct from the deadline.
+ALTER TABLE tasks ADD COLUMN due_time TEXT;
+ALTER TABLE tasks ADD COLUMN start_at TEXT;
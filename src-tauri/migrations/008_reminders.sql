@@ -0,0 +1,16 @@
+-- Per-task reminders. Exactly one of `at` (absolute, local "YYYY-MM-DDTHH:MM")
+-- or `offset_minutes` (relative: minutes before the due date/time) is set.
+-- fired_for records the fire time last notified, so a reminder fires once per
+-- fire time and re-arms when the due date moves or it is snoozed.
+CREATE TABLE reminders (
+  id TEXT PRIMARY KEY NOT NULL,
+  task_id TEXT NOT NULL,
+  at TEXT,
+  offset_minutes INTEGER,
+  snoozed_until TEXT,
+  fired_for TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_reminders_task ON reminders(task_id);
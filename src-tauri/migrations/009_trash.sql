@@ -0,0 +1,8 @@
+-- Soft delete. A deleted task or project keeps its row (and so its tags, project
+-- and sort position) with deleted_at set, and shows up only in Trash. Deleting a
+-- project stamps it and its tasks with the same deleted_at, which is how a later
+-- restore tells them apart from tasks that were trashed on their own.
+ALTER TABLE tasks ADD COLUMN deleted_at TEXT;
+ALTER TABLE projects ADD COLUMN deleted_at TEXT;
+
+CREATE INDEX idx_tasks_deleted_at ON tasks(deleted_at);
@@ -0,0 +1,86 @@
+-- Per-task activity history. Rows are written by the triggers below, so every
+-- path that changes a task (inspector edits, batch actions, recurrence, undo,
+-- import) is recorded the same way. The log is append-only: it is not tracked
+-- by the undo log, so undoing an edit appears here as a further change.
+--
+-- kind is 'created', 'changed', 'tagged' or 'untagged'. For 'changed', field
+-- names the column (project changes store project names, not ids). Values are
+-- stored as text; NULL means "empty".
+CREATE TABLE task_events (
+  id TEXT PRIMARY KEY NOT NULL,
+  task_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_task_events_task ON task_events(task_id, created_at);
+
+CREATE TRIGGER task_events_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  VALUES (lower(hex(randomblob(16))), NEW.id, 'created', NULL, NULL, NEW.title, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+END;
+
+CREATE TRIGGER task_events_update AFTER UPDATE ON tasks BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'title', OLD.title, NEW.title, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.title IS NOT NEW.title;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'notes', OLD.notes, NEW.notes, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.notes IS NOT NEW.notes;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'priority', OLD.priority, NEW.priority, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.priority IS NOT NEW.priority;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'due_at', OLD.due_at, NEW.due_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.due_at IS NOT NEW.due_at;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'due_time', OLD.due_time, NEW.due_time, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.due_time IS NOT NEW.due_time;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'start_at', OLD.start_at, NEW.start_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.start_at IS NOT NEW.start_at;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'project',
+    (SELECT name FROM projects WHERE id = OLD.project_id), (SELECT name FROM projects WHERE id = NEW.project_id),
+    strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.project_id IS NOT NEW.project_id;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'recurrence', OLD.recurrence, NEW.recurrence, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.recurrence IS NOT NEW.recurrence;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'completed', OLD.completed, NEW.completed, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.completed IS NOT NEW.completed;
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.id, 'changed', 'deleted_at', OLD.deleted_at, NEW.deleted_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE OLD.deleted_at IS NOT NEW.deleted_at;
+END;
+
+-- A purged task takes its history with it.
+CREATE TRIGGER task_events_task_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_events WHERE task_id = OLD.id;
+END;
+
+-- Tag links removed by a task or tag delete cascade are skipped here: the task
+-- is gone (nothing to record), or the tag is, and task_events_tags_delete below has
+-- already recorded it while the name was still readable.
+CREATE TRIGGER task_events_tag_insert AFTER INSERT ON task_tags BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.task_id, 'tagged', NULL, NULL, name, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM tags WHERE id = NEW.tag_id;
+END;
+
+CREATE TRIGGER task_events_tag_delete AFTER DELETE ON task_tags
+WHEN EXISTS (SELECT 1 FROM tasks WHERE id = OLD.task_id) BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), OLD.task_id, 'untagged', NULL, name, NULL, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM tags WHERE id = OLD.tag_id;
+END;
+
+CREATE TRIGGER task_events_tags_delete BEFORE DELETE ON tags BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), task_id, 'untagged', NULL, OLD.name, NULL, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM task_tags WHERE tag_id = OLD.id;
+END;
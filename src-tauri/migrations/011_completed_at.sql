@@ -0,0 +1,13 @@
+-- When a task was completed (ISO timestamp), NULL while open. Existing completed
+-- tasks are backfilled from their history where there is one, else from
+-- updated_at, the closest thing the old schema recorded.
+ALTER TABLE tasks ADD COLUMN completed_at TEXT;
+
+UPDATE tasks SET completed_at = COALESCE(
+  (SELECT MAX(e.created_at) FROM task_events e
+   WHERE e.task_id = tasks.id AND e.kind = 'changed' AND e.field = 'completed' AND e.new_value = '1'),
+  updated_at
+)
+WHERE completed = 1;
+
+CREATE INDEX idx_tasks_completed_at ON tasks(completed_at);
@@ -0,0 +1,30 @@
+-- Kanban board columns, per project. A task's status is the column it sits in;
+-- tasks with no column_id (new tasks, or after their column was deleted) show in
+-- the project's first column. At most one column per project has is_done = 1:
+-- it mirrors tasks.completed rather than column_id (see src/lib/board.ts).
+CREATE TABLE board_columns (
+  id TEXT PRIMARY KEY NOT NULL,
+  project_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_done INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_board_columns_project ON board_columns(project_id, sort_order);
+
+ALTER TABLE tasks ADD COLUMN column_id TEXT REFERENCES board_columns(id) ON DELETE SET NULL;
+
+-- Status changes go into the task history (migration 010) by column name. The
+-- SET NULL from deleting a column is skipped: its name is already gone.
+CREATE TRIGGER task_events_status AFTER UPDATE OF column_id ON tasks
+WHEN OLD.column_id IS NOT NEW.column_id
+  AND (NEW.column_id IS NOT NULL OR EXISTS (SELECT 1 FROM board_columns WHERE id = OLD.column_id)) BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  VALUES (
+    lower(hex(randomblob(16))), NEW.id, 'changed', 'status',
+    (SELECT name FROM board_columns WHERE id = OLD.column_id), (SELECT name FROM board_columns WHERE id = NEW.column_id),
+    strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  );
+END;
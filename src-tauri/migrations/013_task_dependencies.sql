@@ -0,0 +1,29 @@
+-- "Blocked by" links: task_id can't really start until blocked_by_id is done.
+-- Cycles are refused in repo.ts (addTaskBlocker); the CHECK only covers the
+-- one-task loop. Completed or trashed blockers no longer block.
+CREATE TABLE task_dependencies (
+  task_id TEXT NOT NULL,
+  blocked_by_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (task_id, blocked_by_id),
+  CHECK (task_id <> blocked_by_id),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (blocked_by_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_task_dependencies_blocker ON task_dependencies(blocked_by_id);
+
+-- History entries (migration 010) on the blocked task, by blocker title. Links
+-- removed because either task was purged are not logged, like tag cascades.
+CREATE TRIGGER task_events_blocker_insert AFTER INSERT ON task_dependencies BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), NEW.task_id, 'changed', 'blocked_by', NULL, title, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM tasks WHERE id = NEW.blocked_by_id;
+END;
+
+CREATE TRIGGER task_events_blocker_delete AFTER DELETE ON task_dependencies
+WHEN EXISTS (SELECT 1 FROM tasks WHERE id = OLD.task_id) BEGIN
+  INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at)
+  SELECT lower(hex(randomblob(16))), OLD.task_id, 'changed', 'blocked_by', title, NULL, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  FROM tasks WHERE id = OLD.blocked_by_id;
+END;
@@ -0,0 +1,10 @@
+-- Nested projects. parent_id builds the sidebar tree; is_area marks a top-level
+-- grouping (it can still hold tasks). archived_at hides a project, and the
+-- sub-projects archived along with it, from the sidebar and the smart views
+-- without deleting anything. Like deleted_at, a subtree shares one stamp so
+-- unarchiving brings back exactly what went away together.
+ALTER TABLE projects ADD COLUMN parent_id TEXT REFERENCES projects(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN is_area INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE projects ADD COLUMN archived_at TEXT;
+
+CREATE INDEX idx_projects_parent ON projects(parent_id);
@@ -0,0 +1,2 @@
+-- Optional display color for a tag (#rrggbb); null uses the default chip style.
+ALTER TABLE tags ADD COLUMN color TEXT;
@@ -0,0 +1,16 @@
+-- Files and links attached to a task. For kind 'file', `target` is the copy's
+-- path relative to the app data directory (attachments/<id>/<name>); the copy is
+-- removed at start-up once no row points at it, so undoing a removal within the
+-- session still finds the file. For kind 'url', `target` is the link itself.
+CREATE TABLE attachments (
+  id TEXT PRIMARY KEY NOT NULL,
+  task_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('file', 'url')),
+  name TEXT NOT NULL,
+  target TEXT NOT NULL,
+  size INTEGER,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_attachments_task ON attachments(task_id);
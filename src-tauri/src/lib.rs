@@ -1,24 +1,60 @@
+use tauri_plugin_sql::{Migration, MigrationKind};
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
     format!("Hello, {}! You've been greeted from Rust!", name)
 }
 
+/// Schema migrations, applied in order on startup by tauri-plugin-sql.
+/// Append-only: never edit or renumber a migration that has shipped; add a new
+/// `NNN_name.sql` file instead. Columns added here usually need a new backup
+/// version in `src/data/backupFormat.ts` as well.
+fn migrations() -> Vec<Migration> {
+    const STEPS: &[(i64, &str, &str)] = &[
+        (1, "init", include_str!("../migrations/001_init.sql")),
+        (2, "task_recurrence", include_str!("../migrations/002_recurrence.sql")),
+        (3, "subtasks", include_str!("../migrations/003_subtasks.sql")),
+        (4, "undo_log", include_str!("../migrations/004_undo_log.sql")),
+        (5, "task_fts", include_str!("../migrations/005_task_fts.sql")),
+        (6, "saved_views", include_str!("../migrations/006_saved_views.sql")),
+        (7, "due_time_start", include_str!("../migrations/007_due_time_start.sql")),
+        (8, "reminders", include_str!("../migrations/008_reminders.sql")),
+        (9, "trash", include_str!("../migrations/009_trash.sql")),
+        (10, "task_events", include_str!("../migrations/010_task_events.sql")),
+        (11, "completed_at", include_str!("../migrations/011_completed_at.sql")),
+        (12, "board", include_str!("../migrations/012_board.sql")),
+        (13, "task_dependencies", include_str!("../migrations/013_task_dependencies.sql")),
+        (14, "project_hierarchy", include_str!("../migrations/014_project_hierarchy.sql")),
+        (15, "tag_colors", include_str!("../migrations/015_tag_colors.sql")),
+        (16, "attachments", include_str!("../migrations/016_attachments.sql")),
+    ];
+
+    debug_assert!(
+        STEPS.iter().enumerate().all(|(i, step)| step.0 == i as i64 + 1),
+        "migration versions must be contiguous and in order"
+    );
+
+    STEPS
+        .iter()
+        .map(|&(version, description, sql)| Migration {
+            version,
+            description,
+            sql,
+            kind: MigrationKind::Up,
+        })
+        .collect()
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
-    let migrations = vec![tauri_plugin_sql::Migration {
-        version: 1,
-        description: "init",
-        sql: include_str!("../migrations/001_init.sql"),
-        kind: tauri_plugin_sql::MigrationKind::Up,
-    }];
-
     tauri::Builder::default()
         .plugin(tauri_plugin_fs::init())
         .plugin(tauri_plugin_dialog::init())
+        .plugin(tauri_plugin_notification::init())
         .plugin(
             tauri_plugin_sql::Builder::default()
-                .add_migrations("sqlite:neontodo.db", migrations)
+                .add_migrations("sqlite:neontodo.db", migrations())
                 .build(),
         )
         .plugin(tauri_plugin_opener::init())
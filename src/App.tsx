@@ -1,42 +1,169 @@
 import "./App.css";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState, type CSSProperties, type DragEvent, type ReactNode } from "react";
 import { getCurrentWindow } from "@tauri-apps/api/window";
-import type { Project, SmartView, Tag, Task } from "./types";
+import { openUrl } from "@tauri-apps/plugin-opener";
+import type { Attachment, BoardColumn, Project, RecurrenceRule, Reminder, SavedView, SmartView, Subtask, Tag, Task, TaskEvent, TaskLink } from "./types";
 import {
-  attachTagToTask,
+  addTaskBlocker,
+  archiveProject,
+  countOpenTasksByProject,
+  countOverdueTasks,
+  countTagUsage,
+  countTrash,
+  createBoardColumn,
+  createDefaultBoardColumns,
   createProject,
+  createReminder,
+  createSavedView,
+  createSubtask,
   createTask,
-  deleteProjectMoveToInbox,
+  deleteAttachment,
+  deleteBoardColumn,
+  deleteProject,
+  deleteReminder,
+  deleteSavedView,
+  deleteSubtask,
+  deleteTag,
   deleteTask,
+  deleteTasks,
+  deleteUnusedTags,
   detachTagFromTask,
-  ensureTag,
+  emptyTrash,
   getTaskTags,
+  importTasks,
   initDb,
+  listArchivedProjects,
+  listAttachments,
+  listBlockedTasks,
+  listBoardColumns,
   listProjects,
+  listReminders,
+  listSavedViews,
+  listSubtasks,
   listTags,
+  listTaskBlockers,
+  listTaskEvents,
   listTasks,
+  listTasksUnblockedBy,
+  listTasksForStats,
+  listTrashedProjects,
+  mergeTags,
+  moveBoardTask,
+  purgeExpiredTrash,
+  purgeProject,
+  purgeTasks,
+  removeTaskBlocker,
+  renameAttachment,
+  renameBoardColumn,
   renameProject,
+  reorderProjects,
+  renameSubtask,
+  renameTag,
+  reorderBoardColumns,
+  reorderSubtasks,
   reorderTasks,
+  rescheduleOverdueTasks,
+  restoreProject,
+  restoreTasks,
+  setDoneBoardColumn,
+  setProjectArea,
+  setProjectParent,
+  setTagColor,
+  setTasksCompleted,
+  snoozeReminder,
+  tagTasksByName,
+  toggleSubtaskCompleted,
   toggleTaskCompleted,
+  unarchiveProject,
+  untagTasks,
+  updateProjectAppearance,
+  updateSavedView,
   updateTask,
+  updateTasks,
+  type SavedViewInput,
 } from "./data/repo";
-import { addDaysIsoDate, todayIsoDate } from "./lib/date";
-import { exportToJsonFile, importFromJsonFile } from "./data/backup";
+import {
+  addDaysIsoDate,
+  formatDue,
+  isoDateFromDate,
+  isPastDue,
+  localDateTime,
+  nowTimeOfDay,
+  parseIsoDate,
+  shiftLocalDateTime,
+  todayIsoDate,
+} from "./lib/date";
+import { splitHighlight } from "./lib/ftsQuery";
+import { IMPORT_FORMAT_LABELS, summarizeImport } from "./lib/importFormats";
+import { isSafeUrl, markdownExcerpt, parseMarkdown, toggleChecklistLine, type MdBlock, type MdInline } from "./lib/markdown";
+import { loadPrefs, savePrefs, type Prefs } from "./lib/prefs";
+import { hasQuickAddTokens, parseQuickAdd } from "./lib/quickAdd";
+import { parseSearchQuery, savedViewQuery } from "./lib/searchQuery";
+import { describeRecurrence, formatRecurrence, parseRecurrence, WEEKDAY_SHORT } from "./lib/recurrence";
+import { ALL_DAY_REMINDER_TIME, describeReminder, RELATIVE_PRESETS } from "./lib/reminders";
+import { calendarDays, calendarTitle, shiftCalendarAnchor, type CalendarMode } from "./lib/calendar";
+import { groupByColumn, orderAfterMove } from "./lib/board";
+import { COLOR_SWATCHES, nextProjectColor, PROJECT_ICONS, projectGlyph } from "./lib/projectStyle";
+import { buildProjectTree, flattenProjectTree, isInboxProject, parentCandidates, rollUpCounts, type ProjectNode } from "./lib/projectTree";
+import { computeStats, DAILY_DAYS, WEEKLY_WEEKS, type Stats } from "./lib/stats";
+import { describeTaskEvent } from "./lib/taskEvents";
+import { exportToBundleFile, exportToJsonFile, importFromBundleFile, importFromJsonFile } from "./data/backup";
+import { attachFiles, attachUrl, openAttachment, sweepAttachmentFiles } from "./data/attachments";
+import { exportTasksToFile, type ExportFormat, type ExportScope } from "./data/export";
+import { readImportFile, type PendingImport } from "./data/import";
+import { startReminderScheduler, type FiredReminder } from "./data/reminders";
+import { BACKUP_VERSION } from "./data/backupFormat";
+import { getHistoryState, redo, subscribeHistory, undo, type HistoryState } from "./data/history";
 
 function App() {
   const [boot, setBoot] = useState<"booting" | "ready" | "error">("booting");
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryState>(() => getHistoryState());
 
   const [projects, setProjects] = useState<Project[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [tagUsage, setTagUsage] = useState<Map<string, number>>(() => new Map());
+  const [tagManagerOpen, setTagManagerOpen] = useState(false);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [overdueCount, setOverdueCount] = useState(0);
+  const [trashCount, setTrashCount] = useState(0);
+  const [trashedProjects, setTrashedProjects] = useState<Project[]>([]);
+  const [archivedProjects, setArchivedProjects] = useState<Project[]>([]);
+  const [archivedOpen, setArchivedOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [openCounts, setOpenCounts] = useState<Map<string, number>>(() => new Map());
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [layout, setLayout] = useState<"list" | "calendar" | "board">("list");
+  const [boardColumns, setBoardColumns] = useState<BoardColumn[]>([]);
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>("month");
+  const [calendarAnchor, setCalendarAnchor] = useState(() => todayIsoDate());
+  // Local "YYYY-MM-DD HH:MM", re-read every minute and on focus, so day rollover,
+  // DST and timezone changes (travel, sleep/wake) reach the date-based views.
+  const [clock, setClock] = useState(() => `${todayIsoDate()} ${nowTimeOfDay()}`);
+  const today = clock.slice(0, 10);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  // Multi-selection. selectedTaskId is the anchor; shift-ranges run from it to rangeLeadId.
+  const [multiIds, setMultiIds] = useState<string[]>([]);
+  const [rangeLeadId, setRangeLeadId] = useState<string | null>(null);
   const [selectedTaskTags, setSelectedTaskTags] = useState<Tag[]>([]);
+  const [selectedTaskSubtasks, setSelectedTaskSubtasks] = useState<Subtask[]>([]);
+  const [selectedTaskReminders, setSelectedTaskReminders] = useState<Reminder[]>([]);
+  const [selectedTaskAttachments, setSelectedTaskAttachments] = useState<Attachment[]>([]);
+  const [selectedTaskEvents, setSelectedTaskEvents] = useState<TaskEvent[]>([]);
+  const [selectedTaskBlockers, setSelectedTaskBlockers] = useState<TaskLink[]>([]);
+  const [selectedTaskBlocking, setSelectedTaskBlocking] = useState<TaskLink[]>([]);
+  const [firedReminders, setFiredReminders] = useState<FiredReminder[]>([]);
+  const schedulerRef = useRef<{ stop: () => void; poke: () => void } | null>(null);
+  const [prefs, setPrefs] = useState<Prefs>(() => loadPrefs());
 
   const [active, setActive] = useState<
     | { type: "smart"; view: SmartView }
     | { type: "project"; projectId: string }
+    | { type: "saved"; viewId: string }
+    | { type: "stats" }
   >({ type: "smart", view: "today" });
 
   const [search, setSearch] = useState("");
@@ -45,31 +172,49 @@ function App() {
   const [dragTaskId, setDragTaskId] = useState<string | null>(null);
   const [newProjectOpen, setNewProjectOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
+  const [newProjectParentId, setNewProjectParentId] = useState<string | null>(null);
   const newProjectRef = useRef<HTMLInputElement | null>(null);
   const [listAnimKey, setListAnimKey] = useState(0);
   const [completedCollapsed, setCompletedCollapsed] = useState(false);
 
   const [projectMenuId, setProjectMenuId] = useState<string | null>(null);
+  const [appearanceProjectId, setAppearanceProjectId] = useState<string | null>(null);
+  const [dragProjectId, setDragProjectId] = useState<string | null>(null);
+  const [projectDropId, setProjectDropId] = useState<string | null>(null);
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [editingProjectName, setEditingProjectName] = useState("");
+  const [viewEditor, setViewEditor] = useState<{ viewId: string | null; initial: SavedViewInput } | null>(null);
+  const [viewMenuId, setViewMenuId] = useState<string | null>(null);
   const composerRef = useRef<HTMLInputElement | null>(null);
   const searchRef = useRef<HTMLInputElement | null>(null);
 
   const defaultProjectId = projects[0]?.id ?? null;
   const inboxProjectId = useMemo(() => projects.find((p) => p.icon === "inbox")?.id ?? projects[0]?.id ?? null, [projects]);
+  const activeArchivedProject = useMemo(
+    () => (active.type === "project" ? archivedProjects.find((p) => p.id === active.projectId) ?? null : null),
+    [active, archivedProjects],
+  );
 
   const viewTitle = useMemo(() => {
     if (active.type === "project") {
-      const p = projects.find((x) => x.id === active.projectId);
+      const p = projects.find((x) => x.id === active.projectId) ?? activeArchivedProject;
       return p?.name ?? "Project";
     }
+    if (active.type === "saved") {
+      return savedViews.find((v) => v.id === active.viewId)?.name ?? "View";
+    }
+    if (active.type === "stats") return "Stats";
     if (active.view === "today") return "Today";
+    if (active.view === "overdue") return "Overdue";
     if (active.view === "upcoming") return "Upcoming";
     if (active.view === "completed") return "Completed";
+    if (active.view === "trash") return "Trash";
     return "All";
-  }, [active, projects]);
+  }, [active, projects, activeArchivedProject, savedViews]);
 
   const activeKey = useMemo(() => {
+    if (active.type === "saved") return `saved:${active.viewId}`;
+    if (active.type === "stats") return "stats";
     return active.type === "project" ? `project:${active.projectId}` : `smart:${active.view}`;
   }, [active]);
 
@@ -95,23 +240,33 @@ function App() {
     return { open, done };
   }, [tasks]);
 
-  const taskCountByProject = useMemo(() => {
-    const counts = new Map<string, number>();
-    tasks.forEach((t) => {
-      if (t.projectId) {
-        counts.set(t.projectId, (counts.get(t.projectId) || 0) + 1);
-      }
-    });
-    return counts;
-  }, [tasks]);
+  const projectTree = useMemo(() => buildProjectTree(projects), [projects]);
+  const projectRows = useMemo(
+    () => flattenProjectTree(projectTree, new Set(prefs.collapsedProjectIds)),
+    [projectTree, prefs.collapsedProjectIds],
+  );
+  // Open tasks per project, sub-projects included.
+  const projectCounts = useMemo(() => rollUpCounts(projectTree, openCounts), [projectTree, openCounts]);
 
   const visibleTasks = useMemo(() => {
     if (active.type === "smart" && active.view === "completed") return splitTasks.done;
-    if (active.type === "smart" && active.view === "all") return tasks;
-    if (active.type === "project") return tasks;
+    if (active.type === "smart" && (active.view === "all" || active.view === "trash")) return tasks;
+    if (active.type === "project" || active.type === "saved") return tasks;
     return splitTasks.open;
   }, [active, splitTasks.open, splitTasks.done, tasks]);
 
+  // Everything the list shows, in on-screen order (keyboard navigation, shift-ranges).
+  const navTasks = useMemo(
+    () => [...visibleTasks, ...(active.type === "project" ? splitTasks.done : [])],
+    [visibleTasks, active.type, splitTasks.done],
+  );
+
+  const isBatch = multiIds.length > 1;
+  const inTrash = active.type === "smart" && active.view === "trash";
+  const showCalendar = layout === "calendar" && active.type !== "stats" && !inTrash;
+  // Boards are per project; elsewhere the board layout falls back to the list.
+  const showBoard = layout === "board" && active.type === "project";
+
   const canReorder = useMemo(() => {
     return active.type === "project" && search.trim().length === 0 && tagFilter.length === 0;
   }, [active.type, search, tagFilter.length]);
@@ -122,6 +277,15 @@ function App() {
     return map;
   }, [projects]);
 
+  const quickAdd = useMemo(() => parseQuickAdd(composer, projects), [composer, projects]);
+  const searchQuery = useMemo(() => parseSearchQuery(search), [search]);
+
+  // Chips for tags that are on some task, plus any still selected.
+  const chipTags = useMemo(
+    () => tags.filter((t) => (tagUsage.get(t.id) ?? 0) > 0 || tagFilter.includes(t.id)),
+    [tags, tagUsage, tagFilter],
+  );
+
   const isFiltered = useMemo(() => {
     return search.trim().length > 0 || tagFilter.length > 0;
   }, [search, tagFilter.length]);
@@ -132,21 +296,82 @@ function App() {
 
     const ts = await listTags();
     setTags(ts);
+    setTagUsage(await countTagUsage());
+
+    const vs = await listSavedViews();
+    setSavedViews(vs);
+
+    setOverdueCount(await countOverdueTasks());
+    setTrashCount(await countTrash());
+    setTrashedProjects(active.type === "smart" && active.view === "trash" ? await listTrashedProjects() : []);
+    setArchivedProjects(await listArchivedProjects());
+    setOpenCounts(await countOpenTasksByProject());
+    // Due dates or reminders may have changed; let the scheduler recompute its sleep.
+    schedulerRef.current?.poke();
+
+    setBoardColumns(active.type === "project" ? await listBoardColumns(active.projectId) : []);
 
-    const common = { search };
+    if (active.type === "stats") {
+      setTasks([]);
+      setStats(computeStats(await listTasksForStats(), todayIsoDate()));
+      return;
+    }
+
+    const q = parseSearchQuery(search);
+    const common = { search: q.text, filters: q.filters };
+    const anyTags = prefs.tagFilterMode === "any";
+    const tagParams = anyTags ? { anyTagIds: tagFilter } : { tagIds: tagFilter };
     if (active.type === "project") {
-      const rows = await listTasks({ ...common, view: "all", projectId: active.projectId, tagIds: tagFilter });
+      const rows = await listTasks({ ...common, view: "all", projectId: active.projectId, ...tagParams });
+      setTasks(rows);
+      return;
+    }
+
+    if (active.type === "saved") {
+      const v = vs.find((x) => x.id === active.viewId);
+      if (!v) {
+        setTasks([]);
+        return;
+      }
+      // The view's own filters, refined by whatever is typed / selected right now.
+      const base = savedViewQuery(v);
+      const rows = await listTasks({
+        view: "all",
+        projectId: v.projectId ?? null,
+        search: [base.text, q.text].filter(Boolean).join(" "),
+        filters: [...base.filters, ...q.filters],
+        // A view's own tags always all apply; the chips narrow it per the any/all toggle.
+        tagIds: anyTags ? v.tagIds : [...v.tagIds, ...tagFilter],
+        anyTagIds: anyTags ? tagFilter : [],
+      });
       setTasks(rows);
       return;
     }
 
-    const rows = await listTasks({ ...common, view: active.view, projectId: null, tagIds: tagFilter });
+    const rows = await listTasks({
+      ...common,
+      view: active.view,
+      projectId: null,
+      ...tagParams,
+      includeOverdue: prefs.includeOverdueInToday,
+      hideBlocked: prefs.hideBlockedInToday,
+    });
     setTasks(rows);
   }
 
+  useEffect(() => subscribeHistory(setHistory), []);
+
+  useEffect(() => {
+    if (!selectedTaskId) return;
+    setTagManagerOpen(false);
+    setPendingImport(null);
+  }, [selectedTaskId]);
+
   useEffect(() => {
     function onDocMouseDown() {
       setProjectMenuId(null);
+      setAppearanceProjectId(null);
+      setViewMenuId(null);
     }
     document.addEventListener("mousedown", onDocMouseDown);
     return () => document.removeEventListener("mousedown", onDocMouseDown);
@@ -157,6 +382,12 @@ function App() {
     (async () => {
       try {
         await initDb();
+        await purgeExpiredTrash(prefs.trashRetentionDays);
+        try {
+          await sweepAttachmentFiles();
+        } catch {
+          // Leftover copies only cost disk space; the next start tries again.
+        }
         if (cancelled) return;
         setBoot("ready");
         await refresh();
@@ -172,13 +403,40 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    if (boot !== "ready") return;
+    const scheduler = startReminderScheduler(
+      (fired) =>
+        setFiredReminders((prev) => [
+          ...prev.filter((p) => !fired.some((f) => f.reminder.id === p.reminder.id)),
+          ...fired,
+        ]),
+      (e) => setError(String((e as any)?.message ?? e)),
+    );
+    schedulerRef.current = scheduler;
+    return () => {
+      scheduler.stop();
+      schedulerRef.current = null;
+    };
+  }, [boot]);
+
+  useEffect(() => {
+    const tick = () => setClock(`${todayIsoDate()} ${nowTimeOfDay()}`);
+    const t = setInterval(tick, 60_000);
+    window.addEventListener("focus", tick);
+    return () => {
+      clearInterval(t);
+      window.removeEventListener("focus", tick);
+    };
+  }, []);
+
   useEffect(() => {
     if (boot !== "ready") return;
     refresh().catch((e) => {
       setError(String((e as any)?.message ?? e));
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [active, boot]);
+  }, [active, boot, prefs.includeOverdueInToday, prefs.hideBlockedInToday, prefs.tagFilterMode, today]);
 
   useEffect(() => {
     if (boot !== "ready") return;
@@ -200,12 +458,30 @@ function App() {
     (async () => {
       if (!selectedTaskId) {
         setSelectedTaskTags([]);
+        setSelectedTaskSubtasks([]);
+        setSelectedTaskReminders([]);
+        setSelectedTaskAttachments([]);
+        setSelectedTaskEvents([]);
+        setSelectedTaskBlockers([]);
+        setSelectedTaskBlocking([]);
         return;
       }
       try {
         const ttags = await getTaskTags(selectedTaskId);
+        const steps = await listSubtasks(selectedTaskId);
+        const reminders = await listReminders(selectedTaskId);
+        const attachments = await listAttachments(selectedTaskId);
+        const events = await listTaskEvents(selectedTaskId);
+        const blockers = await listTaskBlockers(selectedTaskId);
+        const blocking = await listBlockedTasks(selectedTaskId);
         if (cancelled) return;
         setSelectedTaskTags(ttags);
+        setSelectedTaskSubtasks(steps);
+        setSelectedTaskReminders(reminders);
+        setSelectedTaskAttachments(attachments);
+        setSelectedTaskEvents(events);
+        setSelectedTaskBlockers(blockers);
+        setSelectedTaskBlocking(blocking);
       } catch (e) {
         if (cancelled) return;
         setError(String((e as any)?.message ?? e));
@@ -214,7 +490,7 @@ function App() {
     return () => {
       cancelled = true;
     };
-  }, [selectedTaskId]);
+  }, [selectedTaskId, history]);
 
   useEffect(() => {
     function onKeyDown(e: KeyboardEvent) {
@@ -236,21 +512,56 @@ function App() {
       }
       if (e.key === "Escape") {
         setSelectedTaskId(null);
+        clearMulti();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === "z" || e.key.toLowerCase() === "y")) {
+        e.preventDefault();
+        const isRedo = e.key.toLowerCase() === "y" || e.shiftKey;
+        (isRedo ? onRedo() : onUndo()).catch((err) => setError(String((err as any)?.message ?? err)));
         return;
       }
 
       // Task keyboard navigation
-      const allVisibleTasks = [...visibleTasks, ...(active.type === "project" ? splitTasks.done : [])];
+      const allVisibleTasks = navTasks;
       if (allVisibleTasks.length === 0) return;
 
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "a") {
+        e.preventDefault();
+        setMultiIds(allVisibleTasks.length > 1 ? allVisibleTasks.map((t) => t.id) : []);
+        if (!selectedTaskId) setSelectedTaskId(allVisibleTasks[0].id);
+        setRangeLeadId(null);
+        return;
+      }
+      if (e.shiftKey && (e.key === "ArrowDown" || e.key === "ArrowUp") && selectedTaskId) {
+        e.preventDefault();
+        const leadIndex = allVisibleTasks.findIndex((t) => t.id === (rangeLeadId ?? selectedTaskId));
+        const nextIndex = Math.max(0, Math.min(allVisibleTasks.length - 1, leadIndex + (e.key === "ArrowDown" ? 1 : -1)));
+        selectTask(allVisibleTasks[nextIndex].id, { range: true, toggle: false });
+        return;
+      }
+      if (isBatch && e.key === "Enter" && !inTrash) {
+        e.preventDefault();
+        const allDone = allVisibleTasks.filter((t) => multiIds.includes(t.id)).every((t) => t.completed);
+        onBatchComplete(!allDone).catch((err) => setError(String((err as any)?.message ?? err)));
+        return;
+      }
+      if (isBatch && (e.key === "Delete" || e.key === "Backspace") && !e.shiftKey) {
+        e.preventDefault();
+        onBatchDelete().catch((err) => setError(String((err as any)?.message ?? err)));
+        return;
+      }
+
       const currentIndex = selectedTaskId ? allVisibleTasks.findIndex((t) => t.id === selectedTaskId) : -1;
 
       if (e.key === "ArrowDown") {
         e.preventDefault();
+        clearMulti();
         const nextIndex = currentIndex < allVisibleTasks.length - 1 ? currentIndex + 1 : 0;
         setSelectedTaskId(allVisibleTasks[nextIndex]?.id ?? null);
       } else if (e.key === "ArrowUp") {
         e.preventDefault();
+        clearMulti();
         const prevIndex = currentIndex > 0 ? currentIndex - 1 : allVisibleTasks.length - 1;
         setSelectedTaskId(allVisibleTasks[prevIndex]?.id ?? null);
       } else if (e.key === "Enter" && selectedTaskId) {
@@ -269,58 +580,235 @@ function App() {
     }
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [selectedTaskId, visibleTasks, splitTasks.done, active.type]);
+  }, [selectedTaskId, navTasks, multiIds, rangeLeadId]);
+
+  useEffect(() => {
+    // Drop selected ids that left the list (deleted, filtered out, view changed).
+    setMultiIds((prev) => {
+      const kept = prev.filter((id) => tasks.some((t) => t.id === id));
+      if (kept.length === prev.length) return prev;
+      return kept.length > 1 ? kept : [];
+    });
+  }, [tasks]);
+
+  function clearMulti(): void {
+    setMultiIds([]);
+    setRangeLeadId(null);
+  }
+
+  /** Click / keyboard selection: plain selects one, toggle (Ctrl/Cmd) adds or removes, range (Shift) extends from the anchor. */
+  function selectTask(id: string, mods: { range: boolean; toggle: boolean }): void {
+    if (mods.range && selectedTaskId) {
+      const ids = navTasks.map((t) => t.id);
+      const a = ids.indexOf(selectedTaskId);
+      const b = ids.indexOf(id);
+      if (a >= 0 && b >= 0) {
+        setMultiIds(a === b ? [] : ids.slice(Math.min(a, b), Math.max(a, b) + 1));
+        setRangeLeadId(id);
+        return;
+      }
+    }
+    if (mods.toggle) {
+      const base = multiIds.length > 0 ? multiIds : selectedTaskId ? [selectedTaskId] : [];
+      const next = base.includes(id) ? base.filter((x) => x !== id) : [...base, id];
+      setMultiIds(next.length > 1 ? next : []);
+      setSelectedTaskId(next.includes(id) ? id : next[next.length - 1] ?? null);
+      setRangeLeadId(null);
+      return;
+    }
+    clearMulti();
+    setSelectedTaskId(id);
+  }
 
   async function onAddTask(): Promise<void> {
-    const title = composer.trim();
+    const parsed = parseQuickAdd(composer, projects);
+    const title = parsed.title;
     if (!title) return;
 
-    const targetProjectId = active.type === "project" ? active.projectId : defaultProjectId;
+    const activeView = active.type === "saved" ? savedViews.find((v) => v.id === active.viewId) : null;
+    const targetProjectId =
+      parsed.projectId ?? (active.type === "project" ? active.projectId : activeView?.projectId ?? defaultProjectId);
     if (!targetProjectId) return;
 
     // UX: tasks should appear in the view where you create them.
     // - Today: auto-schedule for today.
     // - Upcoming: auto-schedule for tomorrow.
-    // - Completed: create task then jump to All so user sees it.
+    // - Overdue: schedule for today and jump to Today (nothing new is overdue).
+    // - Completed / Trash: create task then jump to All so user sees it.
     let dueAt: string | null = null;
     if (active.type === "smart") {
-      if (active.view === "today") dueAt = todayIsoDate();
+      if (active.view === "today" || active.view === "overdue") dueAt = todayIsoDate();
       if (active.view === "upcoming") dueAt = addDaysIsoDate(1);
     }
 
+    if (parsed.dueAt) dueAt = parsed.dueAt;
+
     setComposer("");
-    const t = await createTask({ title, projectId: targetProjectId, dueAt });
+    const t = await createTask({
+      title,
+      projectId: targetProjectId,
+      dueAt,
+      dueTime: parsed.dueTime,
+      priority: parsed.priority ?? undefined,
+      tags: parsed.tags,
+    });
     setSelectedTaskId(t.id);
 
-    if (active.type === "smart" && active.view === "completed") {
+    if (active.type === "smart" && (active.view === "completed" || active.view === "trash")) {
       setActive({ type: "smart", view: "all" });
       setNotice("Created task in All (open tasks) ");
     }
+    if (active.type === "smart" && active.view === "overdue") {
+      setActive({ type: "smart", view: "today" });
+      setNotice("Created task in Today");
+    }
     await refresh();
   }
 
   async function onToggleTask(t: Task): Promise<void> {
-    await toggleTaskCompleted(t.id, !t.completed);
+    if (t.deletedAt) return;
+    const spawned = await toggleTaskCompleted(t.id, !t.completed);
     if (selectedTaskId === t.id && !t.completed) {
       // Keep inspector open on completion.
       setSelectedTaskId(t.id);
     }
+    const freed = t.completed ? [] : await listTasksUnblockedBy([t.id]);
+    if (spawned || freed.length > 0) {
+      setNotice(
+        [spawned ? `Next occurrence scheduled for ${spawned.dueAt}` : "", unblockedNotice(freed)].filter(Boolean).join(" · "),
+      );
+    }
     await refresh();
   }
 
   async function onDeleteTask(t: Task): Promise<void> {
-    if (!confirm("Delete this task?")) return;
-    await deleteTask(t.id);
+    // Deleting from Trash is the permanent one.
+    if (t.deletedAt) await purgeTasks([t.id]);
+    else await deleteTask(t.id);
     if (selectedTaskId === t.id) setSelectedTaskId(null);
+    setNotice(t.deletedAt ? `Deleted "${t.title}" permanently` : `Moved "${t.title}" to Trash`);
+    await refresh();
+  }
+
+  async function onRestoreTasks(ids: string[]): Promise<void> {
+    await restoreTasks(ids);
+    if (ids.length > 1) clearMulti();
+    if (selectedTaskId && ids.includes(selectedTaskId)) setSelectedTaskId(null);
+    setNotice(ids.length === 1 ? "Restored 1 task" : `Restored ${ids.length} tasks`);
+    await refresh();
+  }
+
+  async function onRestoreProject(p: Project): Promise<void> {
+    await restoreProject(p.id);
+    setNotice(`Restored project "${p.name}"`);
+    await refresh();
+  }
+
+  async function onPurgeProject(p: Project): Promise<void> {
+    await purgeProject(p.id);
+    setNotice(`Deleted project "${p.name}" permanently`);
+    await refresh();
+  }
+
+  async function onEmptyTrash(): Promise<void> {
+    await emptyTrash();
+    clearMulti();
+    setSelectedTaskId(null);
+    setNotice("Trash emptied");
+    await refresh();
+  }
+
+  async function onMoveTaskToDay(t: Task, dueAt: string | null): Promise<void> {
+    if ((t.dueAt ?? null) === dueAt) return;
+    await updateTask(t.id, { dueAt });
+    setNotice(dueAt ? `Moved "${t.title}" to ${dueAt}` : `Cleared the due date of "${t.title}"`);
+    await refresh();
+  }
+
+  async function onMoveCard(taskId: string, columnId: string, beforeTaskId: string | null): Promise<void> {
+    if (active.type !== "project") return;
+    const order = orderAfterMove(boardColumns, groupByColumn(boardColumns, tasks), taskId, columnId, beforeTaskId);
+    const spawned = await moveBoardTask(active.projectId, taskId, columnId, order);
+    if (spawned) setNotice(`Next occurrence scheduled for ${spawned.dueAt}`);
+    await refresh();
+  }
+
+  async function onBoardColumnsChange(change: () => Promise<unknown>): Promise<void> {
+    await change();
+    await refresh();
+  }
+
+  async function onMoveBoardColumn(columnId: string, step: number): Promise<void> {
+    if (active.type !== "project") return;
+    const ids = boardColumns.map((c) => c.id);
+    const from = ids.indexOf(columnId);
+    const to = from + step;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    await onBoardColumnsChange(() => reorderBoardColumns(active.projectId, ids));
+  }
+
+  async function onBatchComplete(completed: boolean): Promise<void> {
+    const spawned = await setTasksCompleted(multiIds, completed);
+    const freed = completed ? await listTasksUnblockedBy(multiIds) : [];
+    setNotice(
+      `${completed ? "Completed" : "Reopened"} ${multiIds.length} tasks` +
+        (spawned.length > 0 ? ` · ${spawned.length} next occurrence(s) scheduled` : "") +
+        (freed.length > 0 ? ` · ${unblockedNotice(freed)}` : ""),
+    );
+    await refresh();
+  }
+
+  async function onBatchDelete(): Promise<void> {
+    const n = multiIds.length;
+    if (inTrash) await purgeTasks(multiIds);
+    else await deleteTasks(multiIds);
+    clearMulti();
+    setSelectedTaskId(null);
+    setNotice(inTrash ? `Deleted ${n} tasks permanently` : `Moved ${n} tasks to Trash`);
+    await refresh();
+  }
+
+  async function onBatchUpdate(patch: Parameters<typeof updateTasks>[1], notice: string): Promise<void> {
+    await updateTasks(multiIds, patch);
+    setNotice(notice);
+    await refresh();
+  }
+
+  async function onBatchTag(name: string): Promise<void> {
+    const ids = multiIds;
+    await tagTasksByName(ids, name);
+    setNotice(`Tagged ${ids.length} tasks #${name.trim()}`);
+    await refresh();
+  }
+
+  async function onBatchUntag(tag: Tag): Promise<void> {
+    await untagTasks(multiIds, tag.id);
+    setNotice(`Removed #${tag.name} from ${multiIds.length} tasks`);
+    await refresh();
+  }
+
+  async function onUndo(): Promise<void> {
+    const label = await undo();
+    if (!label) return;
+    setNotice(`Undone: ${label}`);
+    await refresh();
+  }
+
+  async function onRedo(): Promise<void> {
+    const label = await redo();
+    if (!label) return;
+    setNotice(`Redone: ${label}`);
     await refresh();
   }
 
   async function onCreateProjectInline(): Promise<void> {
     const name = newProjectName.trim();
     if (!name) return;
-    const p = await createProject({ name, color: "#5cffb2", icon: "spark" });
+    const p = await createProject({ name, color: nextProjectColor(projects), icon: "spark", parentId: newProjectParentId });
     setNewProjectName("");
     setNewProjectOpen(false);
+    setNewProjectParentId(null);
     setActive({ type: "project", projectId: p.id });
   }
 
@@ -333,9 +821,9 @@ function App() {
   }
 
   async function onDeleteProject(projectId: string): Promise<void> {
-    if (!confirm("Delete this project? Tasks will be moved to Inbox.")) return;
-    await deleteProjectMoveToInbox(projectId);
-    setNotice("Project deleted; tasks moved to Inbox");
+    const name = projectNameById.get(projectId) ?? "project";
+    await deleteProject(projectId);
+    setNotice(`Moved "${name}" and its tasks to Trash`);
     setProjectMenuId(null);
     setEditingProjectId(null);
     setEditingProjectName("");
@@ -346,12 +834,152 @@ function App() {
     await refresh();
   }
 
+  async function onMoveProject(p: Project, parentId: string | null): Promise<void> {
+    await setProjectParent(p.id, parentId);
+    setProjectMenuId(null);
+    setNotice(parentId ? `Moved "${p.name}" under "${projectNameById.get(parentId) ?? "project"}"` : `Moved "${p.name}" to the top level`);
+    await refresh();
+  }
+
+  async function onRestyleProject(p: Project, patch: { color?: string; icon?: string }): Promise<void> {
+    await updateProjectAppearance(p.id, patch);
+    await refresh();
+  }
+
+  // Sidebar drag: a project drops before a sibling (same parent); the tree keeps its shape.
+  async function onDropProject(targetId: string): Promise<void> {
+    const dragged = projects.find((p) => p.id === dragProjectId);
+    const target = projects.find((p) => p.id === targetId);
+    setDragProjectId(null);
+    setProjectDropId(null);
+    if (!dragged || !target || dragged.id === target.id) return;
+    if ((dragged.parentId ?? null) !== (target.parentId ?? null)) return;
+    const ids = projects.map((p) => p.id).filter((id) => id !== dragged.id);
+    ids.splice(ids.indexOf(target.id), 0, dragged.id);
+    await reorderProjects(ids);
+    setNotice(`Moved "${dragged.name}"`);
+    await refresh();
+  }
+
+  async function onToggleArea(p: Project): Promise<void> {
+    await setProjectArea(p.id, !p.isArea);
+    setProjectMenuId(null);
+    setNotice(p.isArea ? `"${p.name}" is a project again` : `"${p.name}" is now an area`);
+    await refresh();
+  }
+
+  async function onArchiveProject(p: Project): Promise<void> {
+    await archiveProject(p.id);
+    setProjectMenuId(null);
+    setNotice(`Archived "${p.name}"`);
+    if (active.type === "project" && active.projectId === p.id) {
+      if (inboxProjectId) setActive({ type: "project", projectId: inboxProjectId });
+      else setActive({ type: "smart", view: "today" });
+    }
+    await refresh();
+  }
+
+  function openTagManager(): void {
+    setSelectedTaskId(null);
+    clearMulti();
+    setPendingImport(null);
+    setTagManagerOpen(true);
+  }
+
+  async function onRenameTag(tag: Tag, name: string): Promise<void> {
+    await renameTag(tag.id, name);
+    setNotice(`Renamed #${tag.name}`);
+    await refresh();
+  }
+
+  async function onMergeTag(source: Tag, target: Tag): Promise<void> {
+    await mergeTags(source.id, target.id);
+    setTagFilter((prev) => {
+      if (!prev.includes(source.id)) return prev;
+      const rest = prev.filter((x) => x !== source.id);
+      return rest.includes(target.id) ? rest : [...rest, target.id];
+    });
+    setNotice(`Merged #${source.name} into #${target.name}`);
+    await refresh();
+  }
+
+  async function onRecolorTag(tag: Tag, color: string | null): Promise<void> {
+    await setTagColor(tag.id, color);
+    await refresh();
+  }
+
+  async function onDeleteTag(tag: Tag): Promise<void> {
+    await deleteTag(tag.id);
+    setTagFilter((prev) => prev.filter((x) => x !== tag.id));
+    setNotice(`Deleted #${tag.name}`);
+    await refresh();
+  }
+
+  async function onCleanUpTags(): Promise<void> {
+    const n = await deleteUnusedTags();
+    setNotice(n === 0 ? "No unused tags" : `Deleted ${n} unused ${n === 1 ? "tag" : "tags"}`);
+    await refresh();
+  }
+
+  async function onUnarchiveProject(p: Project): Promise<void> {
+    await unarchiveProject(p.id);
+    setNotice(`Unarchived "${p.name}"`);
+    await refresh();
+  }
+
+  function toggleProjectCollapsed(projectId: string): void {
+    const collapsed = prefs.collapsedProjectIds;
+    updatePrefs({
+      collapsedProjectIds: collapsed.includes(projectId) ? collapsed.filter((id) => id !== projectId) : [...collapsed, projectId],
+    });
+  }
+
   useEffect(() => {
     if (!newProjectOpen) return;
     const t = setTimeout(() => newProjectRef.current?.focus(), 0);
     return () => clearTimeout(t);
   }, [newProjectOpen]);
 
+  function openNewViewEditor(): void {
+    setViewEditor({
+      viewId: null,
+      initial: {
+        name: "",
+        search: search.trim(),
+        tagIds: tagFilter,
+        projectId: active.type === "project" ? active.projectId : null,
+        priorityMin: null,
+        dueFrom: null,
+        dueTo: null,
+        includeCompleted: active.type === "smart" && (active.view === "all" || active.view === "completed"),
+      },
+    });
+  }
+
+  async function onSaveView(viewId: string | null, input: SavedViewInput): Promise<void> {
+    if (viewId) {
+      await updateSavedView(viewId, input);
+      setNotice(`View updated: ${input.name.trim()}`);
+    } else {
+      const v = await createSavedView(input);
+      setNotice(`View saved: ${v.name}`);
+      // The view now carries the filters; start it clean.
+      setSearch("");
+      setTagFilter([]);
+      setActive({ type: "saved", viewId: v.id });
+    }
+    setViewEditor(null);
+    await refresh();
+  }
+
+  async function onDeleteView(viewId: string): Promise<void> {
+    await deleteSavedView(viewId);
+    setViewMenuId(null);
+    setNotice("View deleted");
+    if (active.type === "saved" && active.viewId === viewId) setActive({ type: "smart", view: "today" });
+    await refresh();
+  }
+
   async function onExport(): Promise<void> {
     setError(null);
     const path = await exportToJsonFile();
@@ -360,17 +988,61 @@ function App() {
 
   async function onImport(): Promise<void> {
     setError(null);
-    const path = await importFromJsonFile(async () => {
-      return confirm("Import will MERGE by ID and overwrite matching items. Continue?");
-    });
-    setNotice(`Imported backup: ${path}`);
+    const { path, foundVersion } = await importFromJsonFile();
+    const upgraded = foundVersion < BACKUP_VERSION ? `, upgraded to v${BACKUP_VERSION}` : "";
+    setNotice(`Imported backup v${foundVersion}${upgraded}: ${path}`);
+    await refresh();
+  }
+
+  async function onExportTasks(format: ExportFormat, scope: ExportScope["kind"], projectId: string): Promise<void> {
+    setError(null);
+    const { path, count } = await exportTasksToFile(
+      format,
+      scope === "view" ? { kind: "view", title: viewTitle, tasks: navTasks } : scope === "project" ? { kind: "project", projectId } : { kind: "all" },
+    );
+    setExportOpen(false);
+    setNotice(`Exported ${count} ${count === 1 ? "task" : "tasks"}: ${path}`);
+  }
+
+  async function onPickImport(): Promise<void> {
+    setError(null);
+    const picked = await readImportFile();
+    setSelectedTaskId(null);
+    clearMulti();
+    setTagManagerOpen(false);
+    setPendingImport(picked);
+  }
+
+  async function onApplyImport(fallbackProjectId: string | null): Promise<void> {
+    if (!pendingImport) return;
+    const created = await importTasks(pendingImport.plan.tasks, fallbackProjectId);
+    const extras = [
+      created.projects > 0 ? `${created.projects} new ${created.projects === 1 ? "project" : "projects"}` : "",
+      created.tags > 0 ? `${created.tags} new ${created.tags === 1 ? "tag" : "tags"}` : "",
+    ].filter(Boolean);
+    setPendingImport(null);
+    setNotice(`Imported ${created.tasks} ${created.tasks === 1 ? "task" : "tasks"} from ${pendingImport.fileName}${extras.length ? ` (${extras.join(", ")})` : ""}`);
+    await refresh();
+  }
+
+  async function onExportBundle(): Promise<void> {
+    setError(null);
+    const { path, files, missing } = await exportToBundleFile();
+    const gone = missing > 0 ? ` (${missing} missing ${missing === 1 ? "file" : "files"} skipped)` : "";
+    setNotice(`Exported bundle with ${files} ${files === 1 ? "file" : "files"}${gone}: ${path}`);
+  }
+
+  async function onImportBundle(): Promise<void> {
+    setError(null);
+    const { path, foundVersion, files } = await importFromBundleFile();
+    const upgraded = foundVersion < BACKUP_VERSION ? `, upgraded to v${BACKUP_VERSION}` : "";
+    setNotice(`Imported bundle v${foundVersion}${upgraded} with ${files} ${files === 1 ? "file" : "files"}: ${path}`);
     await refresh();
   }
 
   async function onAddTagToSelectedTask(name: string): Promise<void> {
     if (!selectedTask) return;
-    const tag = await ensureTag(name);
-    await attachTagToTask(selectedTask.id, tag.id);
+    const tag = await tagTasksByName([selectedTask.id], name);
     setNotice(`Tag added: ${tag.name}`);
     await refresh();
     setSelectedTaskTags(await getTaskTags(selectedTask.id));
@@ -383,6 +1055,139 @@ function App() {
     setSelectedTaskTags(await getTaskTags(selectedTask.id));
   }
 
+  async function onRescheduleOverdue(days: number): Promise<void> {
+    const n = await rescheduleOverdueTasks(addDaysIsoDate(days));
+    setNotice(n === 0 ? "Nothing overdue" : `Moved ${n} overdue ${n === 1 ? "task" : "tasks"} to ${days === 0 ? "today" : "tomorrow"}`);
+    await refresh();
+  }
+
+  async function onAddBlocker(blockedById: string): Promise<void> {
+    if (!selectedTask) return;
+    await addTaskBlocker(selectedTask.id, blockedById);
+    setSelectedTaskBlockers(await listTaskBlockers(selectedTask.id));
+    await refresh();
+  }
+
+  async function onRemoveBlocker(blockedById: string): Promise<void> {
+    if (!selectedTask) return;
+    await removeTaskBlocker(selectedTask.id, blockedById);
+    setSelectedTaskBlockers(await listTaskBlockers(selectedTask.id));
+    await refresh();
+  }
+
+  // Blocker candidates for the Inspector picker: open tasks matching the query.
+  async function searchBlockerCandidates(text: string): Promise<TaskLink[]> {
+    const q = parseSearchQuery(text);
+    const rows = await listTasks({ view: "all", search: q.text, filters: [...q.filters, { kind: "is", value: "open", negate: false }] });
+    return rows.filter((t) => t.id !== selectedTaskId && !selectedTaskBlockers.some((b) => b.id === t.id)).slice(0, 8);
+  }
+
+  async function onAddReminder(input: { at: string } | { offsetMinutes: number }): Promise<void> {
+    if (!selectedTask) return;
+    await createReminder(selectedTask.id, input);
+    setSelectedTaskReminders(await listReminders(selectedTask.id));
+    await refresh();
+  }
+
+  async function onAttachFiles(): Promise<void> {
+    if (!selectedTask) return;
+    const added = await attachFiles(selectedTask.id);
+    if (added.length === 0) return;
+    setSelectedTaskAttachments(await listAttachments(selectedTask.id));
+    await refresh();
+  }
+
+  async function onAttachUrl(url: string, name: string): Promise<void> {
+    if (!selectedTask) return;
+    await attachUrl(selectedTask.id, url, name);
+    setSelectedTaskAttachments(await listAttachments(selectedTask.id));
+    await refresh();
+  }
+
+  async function onRenameAttachment(a: Attachment, name: string): Promise<void> {
+    await renameAttachment(a.id, name);
+    setSelectedTaskAttachments(await listAttachments(a.taskId));
+  }
+
+  async function onDeleteAttachment(a: Attachment): Promise<void> {
+    await deleteAttachment(a.id);
+    setSelectedTaskAttachments(await listAttachments(a.taskId));
+    setNotice(`Removed attachment "${a.name}"`);
+    await refresh();
+  }
+
+  async function onDeleteReminder(r: Reminder): Promise<void> {
+    await deleteReminder(r.id);
+    setSelectedTaskReminders(await listReminders(r.taskId));
+    await refresh();
+  }
+
+  function dropFired(reminderId: string): void {
+    setFiredReminders((prev) => prev.filter((f) => f.reminder.id !== reminderId));
+  }
+
+  async function onSnoozeFired(f: FiredReminder, until: string): Promise<void> {
+    await snoozeReminder(f.reminder.id, until);
+    dropFired(f.reminder.id);
+    setNotice(`Snoozed "${f.task.title}" until ${until.replace("T", " ")}`);
+    if (selectedTaskId === f.task.id) setSelectedTaskReminders(await listReminders(f.task.id));
+    await refresh();
+  }
+
+  async function onDoneFired(f: FiredReminder): Promise<void> {
+    const spawned = await toggleTaskCompleted(f.task.id, true);
+    setFiredReminders((prev) => prev.filter((x) => x.task.id !== f.task.id));
+    setNotice(spawned ? `Done. Next occurrence scheduled for ${spawned.dueAt}` : `Done: ${f.task.title}`);
+    await refresh();
+  }
+
+  function updatePrefs(patch: Partial<Prefs>): void {
+    setPrefs((prev) => {
+      const next = { ...prev, ...patch };
+      savePrefs(next);
+      return next;
+    });
+  }
+
+  async function onAddSubtask(title: string): Promise<void> {
+    if (!selectedTask) return;
+    await createSubtask(selectedTask.id, title);
+    setSelectedTaskSubtasks(await listSubtasks(selectedTask.id));
+    await refresh();
+  }
+
+  async function onToggleSubtask(st: Subtask): Promise<void> {
+    const parentDone = await toggleSubtaskCompleted(st.id, !st.completed, {
+      completeParent: prefs.completeParentWithSubtasks,
+    });
+    if (parentDone) setNotice("All steps done — task completed");
+    setSelectedTaskSubtasks(await listSubtasks(st.taskId));
+    await refresh();
+  }
+
+  async function onRenameSubtask(st: Subtask, title: string): Promise<void> {
+    if (title.trim() === st.title) return;
+    await renameSubtask(st.id, title);
+    setSelectedTaskSubtasks(await listSubtasks(st.taskId));
+  }
+
+  async function onDeleteSubtask(st: Subtask): Promise<void> {
+    await deleteSubtask(st.id);
+    setSelectedTaskSubtasks(await listSubtasks(st.taskId));
+    await refresh();
+  }
+
+  async function onReorderSubtasks(orderedIds: string[]): Promise<void> {
+    if (!selectedTask) return;
+    // Optimistic reorder.
+    setSelectedTaskSubtasks((prev) => {
+      const map = new Map(prev.map((x) => [x.id, x] as const));
+      return orderedIds.map((id) => map.get(id)).filter(Boolean) as Subtask[];
+    });
+    await reorderSubtasks(selectedTask.id, orderedIds);
+    setSelectedTaskSubtasks(await listSubtasks(selectedTask.id));
+  }
+
   if (boot === "booting") {
     return (
       <div className="boot">
@@ -426,10 +1231,18 @@ function App() {
             >
               <span className="railGlyph">◎</span>
               Today
-              <span className="railHint mono">{todayIsoDate()}</span>
+              <span className="railHint mono">{today}</span>
             </button>
             <button
-              className={"railItem" + (active.type === "smart" && active.view === "upcoming" ? " active" : "")}
+              className={"railItem" + (active.type === "smart" && active.view === "overdue" ? " active" : "")}
+              onClick={() => setActive({ type: "smart", view: "overdue" })}
+            >
+              <span className="railGlyph">⚠</span>
+              Overdue
+              {overdueCount > 0 ? <span className="railHint overdue mono">{overdueCount}</span> : null}
+            </button>
+            <button
+              className={"railItem" + (active.type === "smart" && active.view === "upcoming" ? " active" : "")}
               onClick={() => setActive({ type: "smart", view: "upcoming" })}
             >
               <span className="railGlyph">⇢</span>
@@ -449,6 +1262,99 @@ function App() {
               <span className="railGlyph">✓</span>
               Completed
             </button>
+            <button
+              className={"railItem" + (active.type === "stats" ? " active" : "")}
+              onClick={() => setActive({ type: "stats" })}
+            >
+              <span className="railGlyph">▥</span>
+              Stats
+            </button>
+            <button
+              className={"railItem" + (inTrash ? " active" : "")}
+              onClick={() => setActive({ type: "smart", view: "trash" })}
+            >
+              <span className="railGlyph">⌫</span>
+              Trash
+              {trashCount > 0 ? <span className="railHint mono">{trashCount}</span> : null}
+            </button>
+          </div>
+        </div>
+
+        <div className="railSection">
+          <div className="railHeader">
+            Saved views
+            <button
+              className="railMini"
+              onClick={() => (viewEditor ? setViewEditor(null) : openNewViewEditor())}
+              title={viewEditor ? "Close" : "Save current filters as a view"}
+            >
+              +
+            </button>
+          </div>
+
+          {viewEditor ? (
+            <SavedViewEditor
+              key={viewEditor.viewId ?? "new"}
+              initial={viewEditor.initial}
+              isNew={!viewEditor.viewId}
+              projects={projects}
+              tags={tags}
+              onCancel={() => setViewEditor(null)}
+              onSave={(input) => onSaveView(viewEditor.viewId, input).catch((err) => setError(String((err as any)?.message ?? err)))}
+            />
+          ) : null}
+
+          <div className="railList">
+            {savedViews.length === 0 && !viewEditor ? (
+              <div className="railEmpty mono">Filter the list, then + to save it.</div>
+            ) : null}
+            {savedViews.map((v) => {
+              const isActive = active.type === "saved" && active.viewId === v.id;
+              const menuOpen = viewMenuId === v.id;
+              return (
+                <div
+                  key={v.id}
+                  className={"projRow" + (isActive ? " active" : "")}
+                  onMouseDown={(e) => {
+                    e.stopPropagation();
+                  }}
+                >
+                  <button className="projMain" onClick={() => setActive({ type: "saved", viewId: v.id })}>
+                    <span className="projGlyph">⌕</span>
+                    <span className="projName">{v.name}</span>
+                  </button>
+                  <button
+                    className={"projMore" + (menuOpen ? " on" : "")}
+                    title="View actions"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setViewMenuId((prev) => (prev === v.id ? null : v.id));
+                    }}
+                  >
+                    ⋯
+                  </button>
+                  {menuOpen ? (
+                    <div className="projMenu" role="menu">
+                      <button
+                        className="projMenuItem"
+                        onClick={() => {
+                          setViewEditor({ viewId: v.id, initial: v });
+                          setViewMenuId(null);
+                        }}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="projMenuItem danger"
+                        onClick={() => onDeleteView(v.id).catch((err) => setError(String((err as any)?.message ?? err)))}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
           </div>
         </div>
 
@@ -457,7 +1363,10 @@ function App() {
             Projects
             <button
               className="railMini"
-              onClick={() => setNewProjectOpen((v) => !v)}
+              onClick={() => {
+                setNewProjectOpen((v) => !v);
+                setNewProjectParentId(null);
+              }}
               title={newProjectOpen ? "Close" : "New project"}
             >
               +
@@ -471,7 +1380,7 @@ function App() {
                 className="projectInput"
                 value={newProjectName}
                 onChange={(e) => setNewProjectName(e.currentTarget.value)}
-                placeholder="Project name"
+                placeholder={newProjectParentId ? `Sub-project of ${projectNameById.get(newProjectParentId) ?? "project"}` : "Project name"}
                 onKeyDown={(e) => {
                   if (e.key === "Escape") {
                     setNewProjectOpen(false);
@@ -493,21 +1402,68 @@ function App() {
           ) : null}
 
           <div className="railList">
-            {projects.map((p) => {
+            {projectRows.map(({ project: p, depth, children }) => {
               const isActive = active.type === "project" && active.projectId === p.id;
-              const isInbox = p.icon === "inbox" || p.name.toLowerCase() === "inbox";
+              const isInbox = isInboxProject(p);
               const menuOpen = projectMenuId === p.id;
               const editing = editingProjectId === p.id;
+              const collapsed = prefs.collapsedProjectIds.includes(p.id);
+              const dragged = dragProjectId ? projects.find((x) => x.id === dragProjectId) : undefined;
+              const canDropHere = Boolean(dragged && dragged.id !== p.id && (dragged.parentId ?? null) === (p.parentId ?? null));
               return (
-                <div key={p.id} className={"projRow" + (isActive ? " active" : "")}
+                <div
+                  key={p.id}
+                  className={
+                    "projRow" +
+                    (isActive ? " active" : "") +
+                    (p.isArea ? " area" : "") +
+                    (dragProjectId === p.id ? " dragging" : "") +
+                    (projectDropId === p.id ? " dropping" : "")
+                  }
+                  style={{ ["--depth" as any]: depth } as any}
                   onMouseDown={(e) => {
                     e.stopPropagation();
                   }}
+                  draggable={!editing}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragProjectId(p.id);
+                  }}
+                  onDragEnd={() => {
+                    setDragProjectId(null);
+                    setProjectDropId(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!canDropHere) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "move";
+                    setProjectDropId(p.id);
+                  }}
+                  onDragLeave={() => setProjectDropId((prev) => (prev === p.id ? null : prev))}
+                  onDrop={(e) => {
+                    if (!canDropHere) return;
+                    e.preventDefault();
+                    onDropProject(p.id).catch((err) => setError(String((err as any)?.message ?? err)));
+                  }}
                 >
                   <button className="projMain" onClick={() => setActive({ type: "project", projectId: p.id })}>
-                    <span className="projGlyph" style={{ color: p.color ?? "var(--accent)" }}>
-                      ◈
-                    </span>
+                    {children.length > 0 ? (
+                      <span
+                        className="projGlyph projFold"
+                        role="button"
+                        title={collapsed ? "Expand" : "Collapse"}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleProjectCollapsed(p.id);
+                        }}
+                      >
+                        {collapsed ? "▸" : "▾"}
+                      </span>
+                    ) : (
+                      <span className="projGlyph" style={{ color: p.color ?? "var(--accent)" }}>
+                        {projectGlyph(p)}
+                      </span>
+                    )}
                     {editing ? (
                       <input
                         className="projEdit"
@@ -526,7 +1482,7 @@ function App() {
                         autoFocus
                       />
                     ) : (
-                      <span className="projName">{p.name} <span className="projCount mono">{taskCountByProject.get(p.id) || 0}</span></span>
+                      <span className="projName">{p.name} <span className="projCount mono">{projectCounts.get(p.id) || 0}</span></span>
                     )}
                   </button>
 
@@ -553,20 +1509,132 @@ function App() {
                       >
                         Rename
                       </button>
+                      <button
+                        className="projMenuItem"
+                        onClick={() => {
+                          setAppearanceProjectId(p.id);
+                          setProjectMenuId(null);
+                        }}
+                      >
+                        Color &amp; icon
+                      </button>
+                      <button
+                        className="projMenuItem"
+                        disabled={isInbox}
+                        onClick={() => {
+                          setNewProjectParentId(p.id);
+                          setNewProjectOpen(true);
+                          setProjectMenuId(null);
+                        }}
+                        title={isInbox ? "Inbox cannot hold sub-projects" : undefined}
+                      >
+                        New sub-project
+                      </button>
+                      {isInbox || p.isArea ? null : (
+                        <select
+                          className="projMenuSelect"
+                          value={p.parentId ?? ""}
+                          onChange={(e) =>
+                            onMoveProject(p, e.currentTarget.value || null).catch((err) => setError(String((err as any)?.message ?? err)))
+                          }
+                          title="Move under another project or area"
+                        >
+                          <option value="">Top level</option>
+                          {parentCandidates(projects, p.id).map((c) => (
+                            <option key={c.id} value={c.id}>
+                              in {c.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        className="projMenuItem"
+                        disabled={isInbox}
+                        onClick={() => onToggleArea(p).catch((err) => setError(String((err as any)?.message ?? err)))}
+                        title={p.isArea ? "Show as a regular project" : "Show as a top-level area"}
+                      >
+                        {p.isArea ? "Make project" : "Make area"}
+                      </button>
+                      <button
+                        className="projMenuItem"
+                        disabled={isInbox}
+                        onClick={() => onArchiveProject(p).catch((err) => setError(String((err as any)?.message ?? err)))}
+                        title={isInbox ? "Inbox cannot be archived" : "Hide with its sub-projects; nothing is deleted"}
+                      >
+                        Archive
+                      </button>
                       <button
                         className="projMenuItem danger"
                         disabled={isInbox}
                         onClick={() => onDeleteProject(p.id).catch((err) => setError(String((err as any)?.message ?? err)))}
-                        title={isInbox ? "Inbox cannot be deleted" : "Delete project"}
+                        title={isInbox ? "Inbox cannot be deleted" : "Move to Trash with its sub-projects"}
                       >
                         Delete
                       </button>
                     </div>
                   ) : null}
+
+                  {appearanceProjectId === p.id ? (
+                    <div className="projMenu projPicker" role="dialog" aria-label={`Color and icon of ${p.name}`}>
+                      <div className="projPickerGrid">
+                        {COLOR_SWATCHES.map((c) => (
+                          <button
+                            key={c}
+                            className={"projSwatch" + (p.color?.toLowerCase() === c ? " on" : "")}
+                            style={{ background: c }}
+                            title={c}
+                            aria-label={`Color ${c}`}
+                            onClick={() => onRestyleProject(p, { color: c }).catch((err) => setError(String((err as any)?.message ?? err)))}
+                          />
+                        ))}
+                      </div>
+                      {isInbox ? null : (
+                        <div className="projPickerGrid">
+                          {Object.entries(PROJECT_ICONS).map(([name, glyph]) => (
+                            <button
+                              key={name}
+                              className={"projIcon" + (p.icon === name ? " on" : "")}
+                              style={{ color: p.color ?? "var(--accent)" }}
+                              title={name}
+                              aria-label={`Icon ${name}`}
+                              onClick={() => onRestyleProject(p, { icon: name }).catch((err) => setError(String((err as any)?.message ?? err)))}
+                            >
+                              {glyph}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ) : null}
                 </div>
               );
             })}
           </div>
+
+          {archivedProjects.length > 0 ? (
+            <div className="archivedProjects">
+              <button className="railHeader archivedToggle" onClick={() => setArchivedOpen((v) => !v)}>
+                {archivedOpen ? "▾" : "▸"} Archived · {archivedProjects.length}
+              </button>
+              {archivedOpen
+                ? archivedProjects.map((p) => (
+                    <div key={p.id} className={"projRow archived" + (active.type === "project" && active.projectId === p.id ? " active" : "")}>
+                      <button className="projMain" onClick={() => setActive({ type: "project", projectId: p.id })}>
+                        <span className="projGlyph">{projectGlyph(p)}</span>
+                        <span className="projName">{p.name}</span>
+                      </button>
+                      <button
+                        className="projMore"
+                        title="Unarchive"
+                        onClick={() => onUnarchiveProject(p).catch((err) => setError(String((err as any)?.message ?? err)))}
+                      >
+                        ↺
+                      </button>
+                    </div>
+                  ))
+                : null}
+            </div>
+          ) : null}
         </div>
 
         <div className="railFooter mono">
@@ -578,7 +1646,46 @@ function App() {
               Import JSON
             </button>
           </div>
-          Shortcuts: <span className="mono">Ctrl+N</span> new · <span className="mono">/</span> search · <span className="mono">Esc</span> close
+          <div className="railData">
+            <button
+              className="railAction"
+              onClick={() => onExportBundle().catch((e) => setError(String((e as any)?.message ?? e)))}
+              title="Backup plus attached files, as a .zip"
+            >
+              Export bundle
+            </button>
+            <button className="railAction" onClick={() => onImportBundle().catch((e) => setError(String((e as any)?.message ?? e)))}>
+              Import bundle
+            </button>
+          </div>
+          <div className="railData">
+            <button
+              className={"railAction" + (exportOpen ? " on" : "")}
+              onClick={() => setExportOpen((v) => !v)}
+              title="Markdown checklist or CSV, for sharing and reports"
+            >
+              Export tasks…
+            </button>
+            <button
+              className={"railAction" + (pendingImport ? " on" : "")}
+              onClick={() => onPickImport().catch((e) => setError(String((e as any)?.message ?? e)))}
+              title="todo.txt, Todoist CSV or TaskPaper; you get a preview first"
+            >
+              Import tasks…
+            </button>
+          </div>
+          {exportOpen ? (
+            <ExportPanel
+              projects={projectTree}
+              viewTitle={active.type === "stats" || inTrash ? null : viewTitle}
+              initialProjectId={active.type === "project" ? active.projectId : inboxProjectId}
+              onCancel={() => setExportOpen(false)}
+              onExport={(format, scope, projectId) =>
+                onExportTasks(format, scope, projectId).catch((e) => setError(String((e as any)?.message ?? e)))
+              }
+            />
+          ) : null}
+          Shortcuts: <span className="mono">Ctrl+N</span> new · <span className="mono">/</span> search · <span className="mono">Esc</span> close · <span className="mono">Ctrl+Z</span> undo
         </div>
       </aside>
 
@@ -586,80 +1693,200 @@ function App() {
         <header className="topbar">
           <div className="topTitle">
             <h1>{viewTitle}</h1>
-            <div className="badge mono">{visibleTasks.length}</div>
-          </div>
-          <div className="topTools">
-            <input
-              ref={searchRef}
-              className="search"
-              value={search}
-              onChange={(e) => setSearch(e.currentTarget.value)}
-              placeholder="Search title or notes ( / )"
-            />
-          </div>
-
-          <div className="chipRow" aria-label="Tag filters">
-            {tags.length === 0 ? <span className="chip faint mono">Add tags to tasks to filter by them</span> : null}
-            {tags.map((t) => {
-              const on = tagFilter.includes(t.id);
-              return (
+            {active.type === "stats" ? null : <div className="badge mono">{visibleTasks.length}</div>}
+            {active.type === "stats" || inTrash ? null : (
+              <div className="layoutToggle mono" role="tablist" aria-label="Layout">
+                <button className={"tabBtn" + (layout === "list" ? " on" : "")} role="tab" onClick={() => setLayout("list")}>
+                  list
+                </button>
                 <button
-                  key={t.id}
-                  className={"chip" + (on ? " on" : "")}
-                  onClick={() => {
-                    setTagFilter((prev) => (prev.includes(t.id) ? prev.filter((x) => x !== t.id) : [...prev, t.id]));
-                  }}
-                  title={on ? "Remove filter" : "Filter by tag"}
+                  className={"tabBtn" + (layout === "calendar" ? " on" : "")}
+                  role="tab"
+                  onClick={() => setLayout("calendar")}
                 >
-                  #{t.name}
+                  calendar
                 </button>
-              );
-            })}
-            {tagFilter.length > 0 ? (
-              <button className="chip danger" onClick={() => setTagFilter([])} title="Clear tag filters">
-                clear
-              </button>
-            ) : null}
+                {active.type === "project" ? (
+                  <button className={"tabBtn" + (layout === "board" ? " on" : "")} role="tab" onClick={() => setLayout("board")}>
+                    board
+                  </button>
+                ) : null}
+              </div>
+            )}
           </div>
+          {active.type === "stats" ? null : (
+            <>
+              <div className="topTools">
+                <input
+                  ref={searchRef}
+                  className="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.currentTarget.value)}
+                  placeholder='Search: words, "phrase", -exclude, tag:work priority>=2 due<2026-11-01 ( / )'
+                  title='Full-text search plus filters: tag:, project:"Name", priority>=N, due<YYYY-MM-DD, due:none, start<=today, is:open|done|overdue|recurring|blocked, has:notes|due|start|time|tags|subtasks. Prefix any filter with - to negate.'
+                />
+              </div>
+              {searchQuery.errors.length > 0 ? (
+                <div className="queryErrors mono" role="alert">
+                  {searchQuery.errors.map((err, i) => (
+                    <div key={i} className="queryError">
+                      <span className="queryToken">{err.token}</span> {err.message}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              <div className="chipRow" aria-label="Tag filters">
+                {chipTags.length === 0 ? <span className="chip faint mono">Add tags to tasks to filter by them</span> : null}
+                {chipTags.map((t) => {
+                  const on = tagFilter.includes(t.id);
+                  return (
+                    <button
+                      key={t.id}
+                      className={"chip" + (on ? " on" : "")}
+                      style={tagStyle(t)}
+                      onClick={() => {
+                        setTagFilter((prev) => (prev.includes(t.id) ? prev.filter((x) => x !== t.id) : [...prev, t.id]));
+                      }}
+                      title={on ? "Remove filter" : "Filter by tag"}
+                    >
+                      #{t.name}
+                    </button>
+                  );
+                })}
+                {tagFilter.length > 1 ? (
+                  <button
+                    className="chip mono"
+                    onClick={() => updatePrefs({ tagFilterMode: prefs.tagFilterMode === "any" ? "all" : "any" })}
+                    title={prefs.tagFilterMode === "any" ? "Showing tasks with any selected tag" : "Showing tasks with every selected tag"}
+                  >
+                    match {prefs.tagFilterMode}
+                  </button>
+                ) : null}
+                {tagFilter.length > 0 ? (
+                  <button className="chip danger" onClick={() => setTagFilter([])} title="Clear tag filters">
+                    clear
+                  </button>
+                ) : null}
+                {tags.length > 0 ? (
+                  <button className={"chip mono" + (tagManagerOpen ? " on" : "")} onClick={openTagManager} title="Rename, merge, color or delete tags">
+                    manage
+                  </button>
+                ) : null}
+              </div>
+            </>
+          )}
         </header>
 
-        <div className="composer">
-          <input
-            ref={composerRef}
-            className="composerInput"
-            value={composer}
-            onChange={(e) => setComposer(e.currentTarget.value)}
-            onKeyDown={(e) => {
-              if (e.key === "Enter") onAddTask().catch((err) => setError(String((err as any)?.message ?? err)));
-            }}
-            placeholder={
-              active.type === "project"
-                ? `Add a task to ${viewTitle}...`
-                : active.view === "today"
-                  ? "Add a task for Today (auto-scheduled)..."
-                  : active.view === "upcoming"
-                    ? "Add a task for Upcoming (tomorrow)..."
-                    : active.view === "completed"
-                      ? "Add a new task (will open All)..."
-                      : "Add a task to Inbox..."
-            }
-          />
-          <button
-            className="primary"
-            onClick={() => onAddTask().catch((err) => setError(String((err as any)?.message ?? err)))}
-            disabled={!composer.trim()}
-          >
-            Add
-          </button>
-        </div>
+        {active.type === "stats" ? null : (
+          <>
+            <div className="composer">
+              <input
+                ref={composerRef}
+                className="composerInput"
+                value={composer}
+                onChange={(e) => setComposer(e.currentTarget.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") onAddTask().catch((err) => setError(String((err as any)?.message ?? err)));
+                }}
+                placeholder={
+                  active.type === "project"
+                    ? `Add a task to ${viewTitle}...`
+                    : active.type === "saved"
+                    ? `Add a task (view: ${viewTitle})...`
+                    : active.view === "today" || active.view === "overdue"
+                      ? "Add a task for Today (auto-scheduled)..."
+                      : active.view === "upcoming"
+                        ? "Add a task for Upcoming (tomorrow)..."
+                        : active.view === "completed" || active.view === "trash"
+                          ? "Add a new task (will open All)..."
+                          : "Add a task to Inbox..."
+                }
+              />
+              <button
+                className="primary"
+                onClick={() => onAddTask().catch((err) => setError(String((err as any)?.message ?? err)))}
+                disabled={!quickAdd.title}
+              >
+                Add
+              </button>
+            </div>
+
+            {hasQuickAddTokens(quickAdd) ? (
+              <div className="quickPreview mono" aria-live="polite">
+                <span className="pill faint">{quickAdd.title || "(no title)"}</span>
+                {quickAdd.dueAt ? <span className="pill hot">due {formatDue(quickAdd.dueAt, quickAdd.dueTime)}</span> : null}
+                {quickAdd.projectName ? <span className="pill project">@{quickAdd.projectName}</span> : null}
+                {quickAdd.unknownProject ? <span className="pill warn">no project "{quickAdd.unknownProject}"</span> : null}
+                {quickAdd.priority !== null ? <span className="pill">P{quickAdd.priority}</span> : null}
+                {quickAdd.tags.map((t) => (
+                  <span key={t} className="pill">
+                    #{t}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+          </>
+        )}
 
         <div className="listWrap">
+          {firedReminders.map((f) => {
+            const snooze = (until: string) => onSnoozeFired(f, until).catch((e) => setError(String((e as any)?.message ?? e)));
+            return (
+              <div key={f.reminder.id} className="banner reminder mono" role="alert">
+                <span className="reminderText" onClick={() => setSelectedTaskId(f.task.id)} title="Open task">
+                  ⏰ {f.task.title}
+                  {f.task.dueAt ? <span className="reminderDue"> · due {formatDue(f.task.dueAt, f.task.dueTime)}</span> : null}
+                </span>
+                <span className="bannerActions">
+                  <button className="bannerBtn" onClick={() => snooze(shiftLocalDateTime(localDateTime(new Date()), 10))}>
+                    10m
+                  </button>
+                  <button className="bannerBtn" onClick={() => snooze(shiftLocalDateTime(localDateTime(new Date()), 60))}>
+                    1h
+                  </button>
+                  <button className="bannerBtn" onClick={() => snooze(`${addDaysIsoDate(1)}T${ALL_DAY_REMINDER_TIME}`)}>
+                    tomorrow
+                  </button>
+                  <button
+                    className="bannerBtn"
+                    onClick={() => onDoneFired(f).catch((e) => setError(String((e as any)?.message ?? e)))}
+                  >
+                    done
+                  </button>
+                  <button className="bannerBtn" onClick={() => dropFired(f.reminder.id)}>
+                    dismiss
+                  </button>
+                </span>
+              </div>
+            );
+          })}
           {notice ? (
             <div className="banner ok mono">
               {notice}
-              <button className="bannerBtn" onClick={() => setNotice(null)}>
-                dismiss
-              </button>
+              <span className="bannerActions">
+                {history.undoLabel ? (
+                  <button
+                    className="bannerBtn"
+                    onClick={() => onUndo().catch((e) => setError(String((e as any)?.message ?? e)))}
+                    title={`Undo: ${history.undoLabel} (Ctrl+Z)`}
+                  >
+                    undo
+                  </button>
+                ) : null}
+                {history.redoLabel ? (
+                  <button
+                    className="bannerBtn"
+                    onClick={() => onRedo().catch((e) => setError(String((e as any)?.message ?? e)))}
+                    title={`Redo: ${history.redoLabel} (Ctrl+Shift+Z)`}
+                  >
+                    redo
+                  </button>
+                ) : null}
+                <button className="bannerBtn" onClick={() => setNotice(null)}>
+                  dismiss
+                </button>
+              </span>
             </div>
           ) : null}
           {error ? (
@@ -671,9 +1898,127 @@ function App() {
             </div>
           ) : null}
 
-          {visibleTasks.length === 0 ? (
+          {active.type === "smart" && (active.view === "today" || active.view === "overdue") ? (
+            <div className="overdueBar mono">
+              {overdueCount > 0 ? (
+                <>
+                  <span className="overdueCount">{overdueCount} overdue</span>
+                  <button
+                    className="bannerBtn"
+                    onClick={() => onRescheduleOverdue(0).catch((e) => setError(String((e as any)?.message ?? e)))}
+                    title="Set the due date of every overdue task to today"
+                  >
+                    all → today
+                  </button>
+                  <button
+                    className="bannerBtn"
+                    onClick={() => onRescheduleOverdue(1).catch((e) => setError(String((e as any)?.message ?? e)))}
+                    title="Set the due date of every overdue task to tomorrow"
+                  >
+                    all → tomorrow
+                  </button>
+                </>
+              ) : (
+                <span className="overdueCount clear">nothing overdue</span>
+              )}
+              {active.view === "today" ? (
+                <label className="inspToggle overdueToggle">
+                  <input
+                    type="checkbox"
+                    checked={prefs.includeOverdueInToday}
+                    onChange={(e) => updatePrefs({ includeOverdueInToday: e.currentTarget.checked })}
+                  />
+                  show overdue in Today
+                </label>
+              ) : null}
+              {active.view === "today" ? (
+                <label className="inspToggle overdueToggle">
+                  <input
+                    type="checkbox"
+                    checked={prefs.hideBlockedInToday}
+                    onChange={(e) => updatePrefs({ hideBlockedInToday: e.currentTarget.checked })}
+                  />
+                  hide blocked tasks
+                </label>
+              ) : null}
+            </div>
+          ) : null}
+
+          {activeArchivedProject ? (
+            <div className="trashBar mono">
+              <div className="trashTools">
+                <span className="pill faint">archived {isoDateFromDate(new Date(activeArchivedProject.archivedAt ?? ""))}</span>
+                <button
+                  className="bannerBtn"
+                  onClick={() => onUnarchiveProject(activeArchivedProject).catch((e) => setError(String((e as any)?.message ?? e)))}
+                >
+                  unarchive
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {inTrash ? (
+            <div className="trashBar mono">
+              <div className="trashTools">
+                <button
+                  className="bannerBtn danger"
+                  disabled={trashCount === 0}
+                  onClick={() => onEmptyTrash().catch((e) => setError(String((e as any)?.message ?? e)))}
+                  title="Permanently delete everything in Trash"
+                >
+                  empty trash
+                </button>
+                <label className="inspToggle trashRetention">
+                  auto-purge after
+                  <input
+                    className="trashDays"
+                    type="number"
+                    min={0}
+                    value={prefs.trashRetentionDays}
+                    onChange={(e) => updatePrefs({ trashRetentionDays: Math.max(0, Math.floor(Number(e.currentTarget.value) || 0)) })}
+                    title="Checked at start-up. 0 keeps deleted items until you purge them."
+                  />
+                  days
+                </label>
+              </div>
+              {trashedProjects.map((p) => (
+                <div key={p.id} className="trashProject">
+                  <span className="projGlyph" style={{ color: p.color ?? "var(--accent)" }}>
+                    {projectGlyph(p)}
+                  </span>
+                  <span className="trashProjectName">{p.name}</span>
+                  <span className="pill faint">project · deleted {p.deletedAt ? isoDateFromDate(new Date(p.deletedAt)) : ""}</span>
+                  <button
+                    className="bannerBtn"
+                    onClick={() => onRestoreProject(p).catch((e) => setError(String((e as any)?.message ?? e)))}
+                    title="Restore the project and the tasks deleted with it"
+                  >
+                    restore
+                  </button>
+                  <button
+                    className="bannerBtn danger"
+                    onClick={() => onPurgeProject(p).catch((e) => setError(String((e as any)?.message ?? e)))}
+                    title="Delete the project and its trashed tasks permanently"
+                  >
+                    delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          {active.type === "stats" ? (
+            stats ? (
+              <StatsDashboard
+                stats={stats}
+                projectNameById={projectNameById}
+                onOpenProject={(projectId) => setActive({ type: "project", projectId })}
+              />
+            ) : null
+          ) : !showCalendar && !showBoard && visibleTasks.length === 0 && !(inTrash && trashedProjects.length > 0) ? (
             <EmptyState
-              mode={active.type === "project" ? "project" : active.view}
+              mode={active.type === "smart" ? active.view : active.type}
               title={viewTitle}
               filtered={isFiltered}
               onClearFilters={() => {
@@ -684,91 +2029,147 @@ function App() {
             />
           ) : null}
 
-          <div className="taskGroup animate" key={listAnimKey}>
-            {active.type === "project" && splitTasks.done.length > 0 ? (
-              <div className="groupHeader mono">OPEN</div>
-            ) : null}
-            {visibleTasks.map((t, idx) => (
-              <TaskRow
-                key={t.id}
-                task={t}
-                selected={t.id === selectedTaskId}
-                index={idx}
-                projectName={t.projectId ? projectNameById.get(t.projectId) ?? "" : ""}
-                showProject={active.type === "smart"}
-                onSelect={() => setSelectedTaskId(t.id)}
-                onToggle={() => onToggleTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
-                onDelete={() => onDeleteTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
-                draggable={canReorder}
-                isDragging={dragTaskId === t.id}
-                onDragStart={() => setDragTaskId(t.id)}
-                onDragEnd={() => setDragTaskId(null)}
-                onDropOn={async (targetId) => {
-                  if (active.type !== "project") return;
-                  if (!dragTaskId) return;
-                  if (dragTaskId === targetId) return;
-
-                  const ids = splitTasks.open.map((x) => x.id);
-                  const from = ids.indexOf(dragTaskId);
-                  const to = ids.indexOf(targetId);
-                  if (from < 0 || to < 0) return;
-
-                  const next = [...ids];
-                  const [moved] = next.splice(from, 1);
-                  next.splice(to, 0, moved);
-
-                  // Optimistic UI reorder.
-                  setTasks((prev) => {
-                    const map = new Map(prev.map((x) => [x.id, x] as const));
-                    const openNext = next.map((id) => map.get(id)).filter(Boolean) as Task[];
-                    const done = prev.filter((x) => x.completed);
-                    return [...openNext, ...done];
-                  });
+          {showBoard && active.type === "project" ? (
+            <BoardView
+              columns={boardColumns}
+              tasks={tasks}
+              today={today}
+              canDrag={canReorder}
+              isSelected={(id) => (isBatch ? multiIds.includes(id) : id === selectedTaskId)}
+              onSelect={selectTask}
+              onMoveCard={onMoveCard}
+              onSetUp={() => onBoardColumnsChange(() => createDefaultBoardColumns(active.projectId))}
+              onAddColumn={(name) => onBoardColumnsChange(() => createBoardColumn(active.projectId, name))}
+              onRenameColumn={(c, name) => onBoardColumnsChange(() => renameBoardColumn(c.id, name))}
+              onMoveColumn={(c, step) => onMoveBoardColumn(c.id, step)}
+              onToggleDone={(c) => onBoardColumnsChange(() => setDoneBoardColumn(active.projectId, c.isDone ? null : c.id))}
+              onDeleteColumn={(c) => onBoardColumnsChange(() => deleteBoardColumn(c.id))}
+              onError={(err) => setError(String((err as any)?.message ?? err))}
+            />
+          ) : showCalendar ? (
+            <CalendarView
+              tasks={navTasks}
+              mode={calendarMode}
+              anchor={calendarAnchor}
+              today={today}
+              isSelected={(id) => (isBatch ? multiIds.includes(id) : id === selectedTaskId)}
+              projectNameById={active.type === "project" ? null : projectNameById}
+              onModeChange={setCalendarMode}
+              onAnchorChange={setCalendarAnchor}
+              onSelect={selectTask}
+              onMove={(t, dueAt) => onMoveTaskToDay(t, dueAt).catch((err) => setError(String((err as any)?.message ?? err)))}
+            />
+          ) : (
+            <div className="taskGroup animate" key={listAnimKey}>
+              {active.type === "project" && splitTasks.done.length > 0 ? (
+                <div className="groupHeader mono">OPEN</div>
+              ) : null}
+              {visibleTasks.map((t, idx) => (
+                <TaskRow
+                  key={t.id}
+                  task={t}
+                  selected={isBatch ? multiIds.includes(t.id) : t.id === selectedTaskId}
+                  index={idx}
+                  projectName={t.projectId ? projectNameById.get(t.projectId) ?? "" : ""}
+                  showProject={active.type !== "project"}
+                  onSelect={(mods) => selectTask(t.id, mods)}
+                  onToggle={() => onToggleTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
+                  onDelete={() => onDeleteTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
+                  onRestore={
+                    t.deletedAt ? () => onRestoreTasks([t.id]).catch((err) => setError(String((err as any)?.message ?? err))) : undefined
+                  }
+                  draggable={canReorder}
+                  isDragging={dragTaskId === t.id}
+                  onDragStart={() => setDragTaskId(t.id)}
+                  onDragEnd={() => setDragTaskId(null)}
+                  onDropOn={async (targetId) => {
+                    if (active.type !== "project") return;
+                    if (!dragTaskId) return;
+                    if (dragTaskId === targetId) return;
 
-                  await reorderTasks(active.projectId, next);
-                  setNotice("Reordered");
-                  setDragTaskId(null);
-                  await refresh();
-                }}
-              />
-            ))}
+                    const ids = splitTasks.open.map((x) => x.id);
+                    const from = ids.indexOf(dragTaskId);
+                    const to = ids.indexOf(targetId);
+                    if (from < 0 || to < 0) return;
 
-            {active.type === "project" && splitTasks.done.length > 0 ? (
-              <>
-                <button 
-                  className="groupHeader mono collapseToggle"
-                  onClick={() => setCompletedCollapsed((v) => !v)}
-                  title={completedCollapsed ? "Show completed tasks" : "Hide completed tasks"}
-                >
-                  <span>{completedCollapsed ? "▶" : "▼"}</span>
-                  COMPLETED ({splitTasks.done.length})
-                </button>
-                {!completedCollapsed && splitTasks.done.map((t, idx) => (
-                  <TaskRow
-                    key={t.id}
-                    task={t}
-                    selected={t.id === selectedTaskId}
-                    index={visibleTasks.length + idx}
-                    projectName={t.projectId ? projectNameById.get(t.projectId) ?? "" : ""}
-                    showProject={false}
-                    onSelect={() => setSelectedTaskId(t.id)}
-                    onToggle={() => onToggleTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
-                    onDelete={() => onDeleteTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
-                  />
-                ))}
-              </>
-            ) : null}
-          </div>
+                    const next = [...ids];
+                    const [moved] = next.splice(from, 1);
+                    next.splice(to, 0, moved);
+
+                    // Optimistic UI reorder.
+                    setTasks((prev) => {
+                      const map = new Map(prev.map((x) => [x.id, x] as const));
+                      const openNext = next.map((id) => map.get(id)).filter(Boolean) as Task[];
+                      const done = prev.filter((x) => x.completed);
+                      return [...openNext, ...done];
+                    });
+
+                    await reorderTasks(active.projectId, next);
+                    setNotice("Reordered");
+                    setDragTaskId(null);
+                    await refresh();
+                  }}
+                />
+              ))}
+
+              {active.type === "project" && splitTasks.done.length > 0 ? (
+                <>
+                  <button 
+                    className="groupHeader mono collapseToggle"
+                    onClick={() => setCompletedCollapsed((v) => !v)}
+                    title={completedCollapsed ? "Show completed tasks" : "Hide completed tasks"}
+                  >
+                    <span>{completedCollapsed ? "▶" : "▼"}</span>
+                    COMPLETED ({splitTasks.done.length})
+                  </button>
+                  {!completedCollapsed && splitTasks.done.map((t, idx) => (
+                    <TaskRow
+                      key={t.id}
+                      task={t}
+                      selected={isBatch ? multiIds.includes(t.id) : t.id === selectedTaskId}
+                      index={visibleTasks.length + idx}
+                      projectName={t.projectId ? projectNameById.get(t.projectId) ?? "" : ""}
+                      showProject={false}
+                      onSelect={(mods) => selectTask(t.id, mods)}
+                      onToggle={() => onToggleTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
+                      onDelete={() => onDeleteTask(t).catch((err) => setError(String((err as any)?.message ?? err)))}
+                    />
+                  ))}
+                </>
+              ) : null}
+            </div>
+          )}
         </div>
       </section>
 
-      <aside className={"inspector" + (selectedTask ? " open" : "")}
+      <aside className={"inspector" + (selectedTask || isBatch || pendingImport || tagManagerOpen ? " open" : "")}
         onMouseDown={(e) => {
           // Prevent losing selection when clicking inside.
           e.stopPropagation();
         }}
       >
-        {selectedTask ? (
+        {isBatch ? (
+          <BatchPanel
+            count={multiIds.length}
+            trash={inTrash}
+            projects={projects}
+            tags={tags}
+            onClose={() => clearMulti()}
+            onComplete={(completed) => onBatchComplete(completed)}
+            onDelete={() => onBatchDelete()}
+            onRestore={() => onRestoreTasks(multiIds)}
+            onMove={(projectId) =>
+              onBatchUpdate({ projectId }, `Moved ${multiIds.length} tasks to ${projectNameById.get(projectId) ?? "project"}`)
+            }
+            onPriority={(priority) => onBatchUpdate({ priority }, `Set P${priority} on ${multiIds.length} tasks`)}
+            onDue={(dueAt) =>
+              onBatchUpdate({ dueAt }, dueAt ? `Scheduled ${multiIds.length} tasks for ${dueAt}` : `Cleared due date on ${multiIds.length} tasks`)
+            }
+            onTag={onBatchTag}
+            onUntag={onBatchUntag}
+            onError={(err) => setError(String((err as any)?.message ?? err))}
+          />
+        ) : selectedTask ? (
           <Inspector
             task={selectedTask}
             projectName={projects.find((p) => p.id === selectedTask.projectId)?.name ?? ""}
@@ -781,6 +2182,52 @@ function App() {
             }}
             onAddTag={onAddTagToSelectedTask}
             onRemoveTag={onRemoveTagFromSelectedTask}
+            subtasks={selectedTaskSubtasks}
+            completeParentWithSubtasks={prefs.completeParentWithSubtasks}
+            onToggleCompleteParent={(v) => updatePrefs({ completeParentWithSubtasks: v })}
+            onAddSubtask={onAddSubtask}
+            onToggleSubtask={onToggleSubtask}
+            onRenameSubtask={onRenameSubtask}
+            onDeleteSubtask={onDeleteSubtask}
+            onReorderSubtasks={onReorderSubtasks}
+            reminders={selectedTaskReminders}
+            onAddReminder={onAddReminder}
+            onDeleteReminder={onDeleteReminder}
+            attachments={selectedTaskAttachments}
+            onAttachFiles={onAttachFiles}
+            onAttachUrl={onAttachUrl}
+            onOpenAttachment={openAttachment}
+            onRenameAttachment={onRenameAttachment}
+            onDeleteAttachment={onDeleteAttachment}
+            onError={(err) => setError(String((err as any)?.message ?? err))}
+            events={selectedTaskEvents}
+            blockers={selectedTaskBlockers}
+            blocking={selectedTaskBlocking}
+            onAddBlocker={onAddBlocker}
+            onRemoveBlocker={onRemoveBlocker}
+            onSearchBlockers={searchBlockerCandidates}
+          />
+        ) : pendingImport ? (
+          <ImportPreview
+            pending={pendingImport}
+            projects={projectTree}
+            tags={tags}
+            initialProjectId={inboxProjectId}
+            onCancel={() => setPendingImport(null)}
+            onImport={onApplyImport}
+            onError={(err) => setError(String((err as any)?.message ?? err))}
+          />
+        ) : tagManagerOpen ? (
+          <TagManager
+            tags={tags}
+            usage={tagUsage}
+            onClose={() => setTagManagerOpen(false)}
+            onRename={onRenameTag}
+            onMerge={onMergeTag}
+            onRecolor={onRecolorTag}
+            onDelete={onDeleteTag}
+            onCleanUp={onCleanUpTags}
+            onError={(err) => setError(String((err as any)?.message ?? err))}
           />
         ) : (
           <div className="inspectorEmpty">
@@ -795,15 +2242,25 @@ function App() {
 
 export default App;
 
+function tagStyle(tag: Tag): CSSProperties | undefined {
+  return tag.color ? { borderColor: tag.color, color: tag.color } : undefined;
+}
+
+function unblockedNotice(freed: TaskLink[]): string {
+  if (freed.length === 0) return "";
+  return freed.length === 1 ? `"${freed[0].title}" is unblocked` : `${freed.length} tasks unblocked`;
+}
+
 function TaskRow(props: {
   task: Task;
   selected: boolean;
   index: number;
   projectName?: string;
   showProject?: boolean;
-  onSelect: () => void;
+  onSelect: (mods: { range: boolean; toggle: boolean }) => void;
   onToggle: () => void;
   onDelete: () => void;
+  onRestore?: () => void; // set for rows in Trash
   draggable?: boolean;
   isDragging?: boolean;
   onDragStart?: () => void;
@@ -812,20 +2269,32 @@ function TaskRow(props: {
 }) {
   const p = props.task.priority;
   const pri = p === 0 ? "P0" : p === 1 ? "P1" : p === 2 ? "P2" : "P3";
+  const rule = parseRecurrence(props.task.recurrence);
+  const today = todayIsoDate();
+  const excerpt = useMemo(() => markdownExcerpt(props.task.notes), [props.task.notes]);
+  const trashed = Boolean(props.task.deletedAt);
+  const overdue = !props.task.completed && !trashed && isPastDue(props.task.dueAt, props.task.dueTime, today);
+  const blocked = !props.task.completed && (props.task.openBlockers ?? 0) > 0;
   return (
     <div
       className={
         "task" +
         (props.selected ? " selected" : "") +
+        (overdue ? " overdue" : "") +
+        (blocked ? " blocked" : "") +
         (props.draggable ? " draggable" : "") +
         (props.isDragging ? " dragging" : "")
       }
       style={{ ["--i" as any]: props.index } as any}
-      onClick={props.onSelect}
+      onMouseDown={(e) => {
+        // Shift-click extends the selection; don't let it select text too.
+        if (e.shiftKey) e.preventDefault();
+      }}
+      onClick={(e) => props.onSelect({ range: e.shiftKey, toggle: e.ctrlKey || e.metaKey })}
       role="button"
       tabIndex={0}
       onKeyDown={(e) => {
-        if (e.key === "Enter") props.onSelect();
+        if (e.key === "Enter" && !props.selected) props.onSelect({ range: false, toggle: false });
       }}
       draggable={Boolean(props.draggable)}
       onDragStart={(e) => {
@@ -850,6 +2319,7 @@ function TaskRow(props: {
       <div className="grip" aria-hidden="true" />
       <button
         className={"check" + (props.task.completed ? " on" : "")}
+        disabled={trashed}
         onClick={(e) => {
           e.stopPropagation();
           props.onToggle();
@@ -857,21 +2327,69 @@ function TaskRow(props: {
         aria-label={props.task.completed ? "Mark incomplete" : "Mark complete"}
       />
       <div className="taskBody">
-        <div className={"taskTitle" + (props.task.completed ? " done" : "")}>{props.task.title}</div>
+        <div className={"taskTitle" + (props.task.completed ? " done" : "")}>
+          {props.task.match ? <Highlighted text={props.task.match.title} /> : props.task.title}
+        </div>
+        {props.task.match?.notes ? (
+          <div className="taskSnippet">
+            <Highlighted text={props.task.match.notes} />
+          </div>
+        ) : excerpt ? (
+          <div className="taskSnippet faint">{excerpt}</div>
+        ) : null}
         <div className="taskMeta mono">
-          {props.task.dueAt ? <span className={"pill" + (props.task.dueAt === todayIsoDate() ? " hot" : "")}>due {props.task.dueAt}</span> : <span className="pill faint">no due</span>}
+          {props.task.dueAt ? (
+            <span className={"pill" + (overdue ? " overdue" : props.task.dueAt === today ? " hot" : "")}>
+              {overdue ? "overdue" : "due"} {formatDue(props.task.dueAt, props.task.dueTime)}
+            </span>
+          ) : (
+            <span className="pill faint">no due</span>
+          )}
+          {props.task.startAt && props.task.startAt > today && !props.task.completed ? (
+            <span className="pill faint">starts {props.task.startAt}</span>
+          ) : null}
           {props.showProject && props.projectName ? <span className="pill project">{props.projectName}</span> : null}
+          {props.task.subtaskCount ? (
+            <span className={"pill steps" + (props.task.subtaskDone === props.task.subtaskCount ? " done" : "")} title="Checklist progress">
+              ☑ {props.task.subtaskDone ?? 0}/{props.task.subtaskCount}
+            </span>
+          ) : null}
+          {props.task.attachmentCount ? (
+            <span className="pill faint" title="Attachments">
+              📎 {props.task.attachmentCount}
+            </span>
+          ) : null}
+          {blocked ? (
+            <span className="pill faint" title="Waiting on other tasks">
+              ⛓ blocked by {props.task.openBlockers}
+            </span>
+          ) : null}
+          {rule ? <span className="pill repeat" title={describeRecurrence(rule)}>↻ {describeRecurrence(rule).toLowerCase()}</span> : null}
+          {props.task.deletedAt ? <span className="pill faint">deleted {isoDateFromDate(new Date(props.task.deletedAt))}</span> : null}
           <span className={"pill priority" + (p === 3 ? " critical" : p === 2 ? " high" : p === 1 ? " medium" : " low")}>{pri}</span>
         </div>
       </div>
+      {props.onRestore ? (
+        <button
+          className="ghost"
+          onClick={(e) => {
+            e.stopPropagation();
+            props.onRestore?.();
+          }}
+          title="Restore"
+          aria-label="Restore task"
+        >
+          ↺
+        </button>
+      ) : null}
       <button
         className="ghost"
         onClick={(e) => {
           e.stopPropagation();
           props.onDelete();
         }}
-        title="Delete"
-        aria-label="Delete task"
+        title={trashed ? "Delete permanently" : "Move to Trash"}
+        aria-label={trashed ? "Delete task permanently" : "Delete task"}
       >
         ×
       </button>
@@ -879,8 +2397,110 @@ function TaskRow(props: {
   );
 }
 
+function Highlighted(props: { text: string }) {
+  return (
+    <>
+      {splitHighlight(props.text).map((seg, i) => (seg.hit ? <mark key={i}>{seg.text}</mark> : <span key={i}>{seg.text}</span>))}
+    </>
+  );
+}
+
+function MarkdownNotes(props: {
+  text: string;
+  onToggleCheck: (line: number) => void;
+  onEdit: () => void;
+  onError: (err: unknown) => void;
+}) {
+  const blocks = useMemo(() => parseMarkdown(props.text), [props.text]);
+  if (blocks.length === 0) {
+    return (
+      <button className="markdown empty mono" onClick={props.onEdit}>
+        No notes yet. Click to write some.
+      </button>
+    );
+  }
+  return (
+    <div className="markdown" onDoubleClick={props.onEdit} title="Double-click to edit">
+      {blocks.map((b, i) => (
+        <MarkdownBlock key={i} block={b} onToggleCheck={props.onToggleCheck} onError={props.onError} />
+      ))}
+    </div>
+  );
+}
+
+function MarkdownBlock(props: { block: MdBlock; onToggleCheck: (line: number) => void; onError: (err: unknown) => void }) {
+  const b = props.block;
+  switch (b.type) {
+    case "heading": {
+      const H = `h${Math.min(b.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+      return <H>{renderInline(b.content, props.onError)}</H>;
+    }
+    case "paragraph":
+      return <p>{renderInline(b.content, props.onError)}</p>;
+    case "quote":
+      return <blockquote>{renderInline(b.content, props.onError)}</blockquote>;
+    case "code":
+      return (
+        <pre className="mono" data-lang={b.lang || undefined}>
+          <code>{b.text}</code>
+        </pre>
+      );
+    case "rule":
+      return <hr />;
+    case "list": {
+      const List = b.ordered ? "ol" : "ul";
+      return (
+        <List>
+          {b.items.map((it) => (
+            <li
+              key={it.line}
+              className={it.checked === null ? undefined : "check" + (it.checked ? " done" : "")}
+              style={{ ["--depth" as any]: it.depth } as any}
+            >
+              {it.checked === null ? null : (
+                <input type="checkbox" checked={it.checked} onChange={() => props.onToggleCheck(it.line)} />
+              )}
+              <span>{renderInline(it.content, props.onError)}</span>
+            </li>
+          ))}
+        </List>
+      );
+    }
+  }
+}
+
+function renderInline(nodes: MdInline[], onError: (err: unknown) => void): ReactNode[] {
+  return nodes.map((n, i) => {
+    switch (n.type) {
+      case "text":
+        return n.text;
+      case "code":
+        return <code key={i}>{n.text}</code>;
+      case "strong":
+        return <strong key={i}>{renderInline(n.children, onError)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(n.children, onError)}</em>;
+      case "link":
+        if (!isSafeUrl(n.href)) return <span key={i}>{renderInline(n.children, onError)}</span>;
+        return (
+          <a
+            key={i}
+            href={n.href}
+            title={n.href}
+            onClick={(e) => {
+              e.preventDefault();
+              openUrl(n.href).catch(onError);
+            }}
+          >
+            {renderInline(n.children, onError)}
+          </a>
+        );
+    }
+  });
+}
+
 function EmptyState(props: {
-  mode: "project" | SmartView;
+  mode: "project" | "saved" | SmartView;
   title: string;
   filtered: boolean;
   onClearFilters: () => void;
@@ -895,12 +2515,21 @@ function EmptyState(props: {
   } else if (props.mode === "today") {
     headline = "Nothing due today.";
     sub = "Schedule something, or use Today as your focus lane.";
+  } else if (props.mode === "overdue") {
+    headline = "Nothing overdue.";
+    sub = "Everything with a due date is on schedule.";
   } else if (props.mode === "upcoming") {
     headline = "No upcoming tasks.";
     sub = "Set a due date and they’ll appear here.";
   } else if (props.mode === "completed") {
     headline = "No completed tasks yet.";
     sub = "Finish one and it’ll show up here.";
+  } else if (props.mode === "trash") {
+    headline = "Trash is empty.";
+    sub = "Deleted tasks and projects wait here until restored or purged.";
+  } else if (props.mode === "saved") {
+    headline = `Nothing in "${props.title}".`;
+    sub = "No task matches this view. Edit it from the sidebar menu.";
   } else if (props.mode === "all") {
     headline = "No tasks yet.";
     sub = "Start with one tiny thing.";
@@ -938,13 +2567,43 @@ function Inspector(props: {
   projects: Project[];
   tags: Tag[];
   onClose: () => void;
-  onChange: (patch: Partial<Pick<Task, "title" | "notes" | "priority" | "dueAt" | "projectId">>) => Promise<void>;
+  onChange: (
+    patch: Partial<Pick<Task, "title" | "notes" | "priority" | "dueAt" | "dueTime" | "startAt" | "projectId" | "recurrence">>,
+  ) => Promise<void>;
   onAddTag: (name: string) => Promise<void>;
   onRemoveTag: (tagId: string) => Promise<void>;
+  subtasks: Subtask[];
+  completeParentWithSubtasks: boolean;
+  onToggleCompleteParent: (value: boolean) => void;
+  onAddSubtask: (title: string) => Promise<void>;
+  onToggleSubtask: (subtask: Subtask) => Promise<void>;
+  onRenameSubtask: (subtask: Subtask, title: string) => Promise<void>;
+  onDeleteSubtask: (subtask: Subtask) => Promise<void>;
+  onReorderSubtasks: (orderedIds: string[]) => Promise<void>;
+  reminders: Reminder[];
+  onAddReminder: (input: { at: string } | { offsetMinutes: number }) => Promise<void>;
+  onDeleteReminder: (reminder: Reminder) => Promise<void>;
+  attachments: Attachment[];
+  onAttachFiles: () => Promise<void>;
+  onAttachUrl: (url: string, name: string) => Promise<void>;
+  onOpenAttachment: (attachment: Attachment) => Promise<void>;
+  onRenameAttachment: (attachment: Attachment, name: string) => Promise<void>;
+  onDeleteAttachment: (attachment: Attachment) => Promise<void>;
+  onError: (err: unknown) => void;
+  events: TaskEvent[];
+  blockers: TaskLink[];
+  blocking: TaskLink[];
+  onAddBlocker: (blockedById: string) => Promise<void>;
+  onRemoveBlocker: (blockedById: string) => Promise<void>;
+  onSearchBlockers: (query: string) => Promise<TaskLink[]>;
 }) {
+  const [tab, setTab] = useState<"details" | "timeline">("details");
   const [title, setTitle] = useState(props.task.title);
   const [notes, setNotes] = useState(props.task.notes);
+  const [notesMode, setNotesMode] = useState<"preview" | "edit">(props.task.notes.trim() ? "preview" : "edit");
   const [dueAt, setDueAt] = useState(props.task.dueAt ?? "");
+  const [dueTime, setDueTime] = useState(props.task.dueTime ?? "");
+  const [startAt, setStartAt] = useState(props.task.startAt ?? "");
   const [priority, setPriority] = useState(String(props.task.priority ?? 0));
   const [projectId, setProjectId] = useState(props.task.projectId ?? "");
   const [tagName, setTagName] = useState("");
@@ -953,12 +2612,20 @@ function Inspector(props: {
     setTitle(props.task.title);
     setNotes(props.task.notes);
     setDueAt(props.task.dueAt ?? "");
+    setDueTime(props.task.dueTime ?? "");
+    setStartAt(props.task.startAt ?? "");
     setPriority(String(props.task.priority ?? 0));
     setProjectId(props.task.projectId ?? "");
   }, [props.task]);
 
-  return (
-    <div className="inspectorInner">
+  // Only a different task resets the mode; saves re-render this one.
+  useEffect(() => {
+    setNotesMode(props.task.notes.trim() ? "preview" : "edit");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.task.id]);
+
+  const header = (
+    <>
       <div className="inspTop">
         <div>
           <div className="inspLabel mono">TASK</div>
@@ -968,6 +2635,29 @@ function Inspector(props: {
           ✕
         </button>
       </div>
+      <div className="inspTabs mono" role="tablist">
+        <button className={"tabBtn" + (tab === "details" ? " on" : "")} role="tab" onClick={() => setTab("details")}>
+          Details
+        </button>
+        <button className={"tabBtn" + (tab === "timeline" ? " on" : "")} role="tab" onClick={() => setTab("timeline")}>
+          Timeline
+        </button>
+      </div>
+    </>
+  );
+
+  if (tab === "timeline") {
+    return (
+      <div className="inspectorInner">
+        {header}
+        <TaskTimeline events={props.events} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="inspectorInner">
+      {header}
 
       <label className="field">
         <div className="fieldLabel mono">PROJECT</div>
@@ -975,7 +2665,9 @@ function Inspector(props: {
           className="fieldInput"
           value={projectId}
           onChange={(e) => setProjectId(e.currentTarget.value)}
-          onBlur={() => props.onChange({ projectId: projectId || null })}
+          onBlur={() => {
+            if ((projectId || null) !== (props.task.projectId ?? null)) void props.onChange({ projectId: projectId || null });
+          }}
         >
           {props.projects.map((p) => (
             <option key={p.id} value={p.id}>
@@ -991,7 +2683,10 @@ function Inspector(props: {
           className="fieldInput"
           value={title}
           onChange={(e) => setTitle(e.currentTarget.value)}
-          onBlur={() => props.onChange({ title: title.trim() || "Untitled" })}
+          onBlur={() => {
+            const next = title.trim() || "Untitled";
+            if (next !== props.task.title) void props.onChange({ title: next });
+          }}
         />
       </label>
 
@@ -1003,8 +2698,44 @@ function Inspector(props: {
             type="date"
             value={dueAt}
             onChange={(e) => setDueAt(e.currentTarget.value)}
-            onBlur={() => props.onChange({ dueAt: dueAt ? dueAt : null })}
+            onBlur={() => {
+              if ((dueAt || null) !== (props.task.dueAt ?? null)) void props.onChange({ dueAt: dueAt ? dueAt : null });
+            }}
+          />
+        </label>
+
+        <label className="field">
+          <div className="fieldLabel mono">TIME</div>
+          <input
+            className="fieldInput"
+            type="time"
+            value={dueTime}
+            disabled={!props.task.dueAt}
+            title={props.task.dueAt ? "Optional time of day (local)" : "Set a due date first"}
+            onChange={(e) => setDueTime(e.currentTarget.value)}
+            onBlur={() => {
+              if ((dueTime || null) !== (props.task.dueTime ?? null)) void props.onChange({ dueTime: dueTime || null });
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="grid2">
+        <label className="field">
+          <div className="fieldLabel mono">START</div>
+          <input
+            className="fieldInput"
+            type="date"
+            value={startAt}
+            title="When to start; the task shows in Today from this day on"
+            onChange={(e) => setStartAt(e.currentTarget.value)}
+            onBlur={() => {
+              if ((startAt || null) !== (props.task.startAt ?? null)) void props.onChange({ startAt: startAt || null });
+            }}
           />
+          {props.task.startAt && props.task.dueAt && props.task.startAt > props.task.dueAt ? (
+            <div className="inspHint mono">Starts after it is due.</div>
+          ) : null}
         </label>
 
         <label className="field">
@@ -1013,7 +2744,9 @@ function Inspector(props: {
             className="fieldInput"
             value={priority}
             onChange={(e) => setPriority(e.currentTarget.value)}
-            onBlur={() => props.onChange({ priority: Number(priority) })}
+            onBlur={() => {
+              if (Number(priority) !== props.task.priority) void props.onChange({ priority: Number(priority) });
+            }}
           >
             <option value="0">P0</option>
             <option value="1">P1</option>
@@ -1023,16 +2756,83 @@ function Inspector(props: {
         </label>
       </div>
 
-      <label className="field">
-        <div className="fieldLabel mono">NOTES</div>
-        <textarea
-          className="fieldInput textarea"
-          value={notes}
-          onChange={(e) => setNotes(e.currentTarget.value)}
-          onBlur={() => props.onChange({ notes })}
-          placeholder="Add details, links, context..."
-        />
-      </label>
+      <SubtaskList
+        subtasks={props.subtasks}
+        completeParent={props.completeParentWithSubtasks}
+        onToggleCompleteParent={props.onToggleCompleteParent}
+        onAdd={props.onAddSubtask}
+        onToggle={props.onToggleSubtask}
+        onRename={props.onRenameSubtask}
+        onDelete={props.onDeleteSubtask}
+        onReorder={props.onReorderSubtasks}
+      />
+
+      <BlockerList
+        blockers={props.blockers}
+        blocking={props.blocking}
+        onAdd={props.onAddBlocker}
+        onRemove={props.onRemoveBlocker}
+        onSearch={props.onSearchBlockers}
+      />
+
+      <RecurrenceEditor
+        value={props.task.recurrence ?? null}
+        dueAt={props.task.dueAt ?? null}
+        onChange={(recurrence) => props.onChange({ recurrence })}
+      />
+
+      <ReminderList
+        reminders={props.reminders}
+        hasDue={Boolean(props.task.dueAt)}
+        onAdd={props.onAddReminder}
+        onDelete={props.onDeleteReminder}
+      />
+
+      <div className="field">
+        <div className="fieldLabel mono notesLabel">
+          NOTES
+          <span className="notesModes" role="tablist">
+            <button className={"tabBtn" + (notesMode === "edit" ? " on" : "")} role="tab" onClick={() => setNotesMode("edit")}>
+              edit
+            </button>
+            <button className={"tabBtn" + (notesMode === "preview" ? " on" : "")} role="tab" onClick={() => setNotesMode("preview")}>
+              preview
+            </button>
+          </span>
+        </div>
+        {notesMode === "edit" ? (
+          <textarea
+            className="fieldInput textarea"
+            value={notes}
+            onChange={(e) => setNotes(e.currentTarget.value)}
+            onBlur={() => {
+              if (notes !== props.task.notes) void props.onChange({ notes });
+            }}
+            placeholder="Add details, links, context... Markdown works: **bold**, - [ ] checklists, ```code```"
+          />
+        ) : (
+          <MarkdownNotes
+            text={notes}
+            onToggleCheck={(line) => {
+              const next = toggleChecklistLine(notes, line);
+              setNotes(next);
+              if (next !== props.task.notes) void props.onChange({ notes: next });
+            }}
+            onEdit={() => setNotesMode("edit")}
+            onError={props.onError}
+          />
+        )}
+      </div>
+
+      <AttachmentList
+        attachments={props.attachments}
+        onAttachFiles={props.onAttachFiles}
+        onAttachUrl={props.onAttachUrl}
+        onOpen={props.onOpenAttachment}
+        onRename={props.onRenameAttachment}
+        onDelete={props.onDeleteAttachment}
+        onError={props.onError}
+      />
 
       <div className="field">
         <div className="fieldLabel mono">TAGS</div>
@@ -1040,7 +2840,7 @@ function Inspector(props: {
           {props.tags.length === 0 ? <span className="pill faint mono">Click tags to remove</span> : null}
           {props.tags.map((t) => (
             <div key={t.id} className="tagItem">
-              <span className="tagName">#{t.name}</span>
+              <span className="tagName" style={t.color ? { color: t.color } : undefined}>#{t.name}</span>
               <button 
                 className="tagRemove" 
                 onClick={() => props.onRemoveTag(t.id)} 
@@ -1095,3 +2895,1675 @@ function Inspector(props: {
     </div>
   );
 }
+
+const CALENDAR_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0].map((d) => WEEKDAY_SHORT[d]);
+// Month cells show this many tasks, then a "+N more" link into the week.
+const MONTH_CELL_TASKS = 4;
+
+function CalendarView(props: {
+  tasks: Task[];
+  mode: CalendarMode;
+  anchor: string;
+  today: string;
+  isSelected: (taskId: string) => boolean;
+  projectNameById: Map<string, string> | null; // null hides project names (inside a project)
+  onModeChange: (mode: CalendarMode) => void;
+  onAnchorChange: (anchor: string) => void;
+  onSelect: (taskId: string, mods: { range: boolean; toggle: boolean }) => void;
+  onMove: (task: Task, dueAt: string | null) => void;
+}) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const days = calendarDays(props.mode, props.anchor);
+  const month = props.anchor.slice(0, 7);
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, Task[]>();
+    for (const t of props.tasks) {
+      const key = t.dueAt ?? "";
+      map.set(key, [...(map.get(key) ?? []), t]);
+    }
+    // Timed tasks in time order, all-day ones after them.
+    for (const list of map.values()) {
+      list.sort((a, b) => (a.dueTime ?? "99:99").localeCompare(b.dueTime ?? "99:99"));
+    }
+    return map;
+  }, [props.tasks]);
+  const undated = byDay.get("") ?? [];
+
+  function dropZone(key: string, dueAt: string | null) {
+    return {
+      onDragOver: (e: DragEvent) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget((prev) => (prev === key ? null : prev)),
+      onDrop: (e: DragEvent) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const task = props.tasks.find((t) => t.id === e.dataTransfer.getData("text/plain"));
+        if (task) props.onMove(task, dueAt);
+      },
+    };
+  }
+
+  function chip(t: Task) {
+    const overdue = !t.completed && isPastDue(t.dueAt, t.dueTime, props.today);
+    const projectName = t.projectId ? props.projectNameById?.get(t.projectId) : undefined;
+    return (
+      <div
+        key={t.id}
+        className={
+          "calTask" +
+          (t.completed ? " done" : "") +
+          (overdue ? " overdue" : "") +
+          (props.isSelected(t.id) ? " selected" : "") +
+          (t.priority >= 2 ? " high" : "")
+        }
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData("text/plain", t.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragEnd={() => setDropTarget(null)}
+        onClick={(e) => props.onSelect(t.id, { range: e.shiftKey, toggle: e.ctrlKey || e.metaKey })}
+        title={projectName ? `${t.title} · ${projectName}` : t.title}
+      >
+        {t.dueTime ? <span className="calTime mono">{t.dueTime}</span> : null}
+        <span className="calTaskTitle">{t.title}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="calendar">
+      <div className="calToolbar mono">
+        <button
+          className="bannerBtn"
+          onClick={() => props.onAnchorChange(shiftCalendarAnchor(props.mode, props.anchor, -1))}
+          title={props.mode === "month" ? "Previous month" : "Previous week"}
+        >
+          ‹
+        </button>
+        <button className="bannerBtn" onClick={() => props.onAnchorChange(props.today)}>
+          today
+        </button>
+        <button
+          className="bannerBtn"
+          onClick={() => props.onAnchorChange(shiftCalendarAnchor(props.mode, props.anchor, 1))}
+          title={props.mode === "month" ? "Next month" : "Next week"}
+        >
+          ›
+        </button>
+        <span className="calTitle">{calendarTitle(props.mode, props.anchor)}</span>
+        <span className="calModes">
+          <button className={"tabBtn" + (props.mode === "month" ? " on" : "")} onClick={() => props.onModeChange("month")}>
+            month
+          </button>
+          <button className={"tabBtn" + (props.mode === "week" ? " on" : "")} onClick={() => props.onModeChange("week")}>
+            week
+          </button>
+        </span>
+      </div>
+
+      <div className="calBody">
+        <div className={"calGrid " + props.mode}>
+          {CALENDAR_WEEKDAYS.map((d) => (
+            <div key={d} className="calWeekday mono">
+              {d}
+            </div>
+          ))}
+          {days.map((day) => {
+            const list = byDay.get(day) ?? [];
+            const shown = props.mode === "month" ? list.slice(0, MONTH_CELL_TASKS) : list;
+            return (
+              <div
+                key={day}
+                className={
+                  "calDay" +
+                  (props.mode === "month" && day.slice(0, 7) !== month ? " outside" : "") +
+                  (day === props.today ? " today" : "") +
+                  (dropTarget === day ? " dropping" : "")
+                }
+                {...dropZone(day, day)}
+              >
+                <div className="calDate mono">{Number(day.slice(8))}</div>
+                {shown.map(chip)}
+                {list.length > shown.length ? (
+                  <button
+                    className="calMore mono"
+                    onClick={() => {
+                      props.onModeChange("week");
+                      props.onAnchorChange(day);
+                    }}
+                  >
+                    +{list.length - shown.length} more
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={"calTray" + (dropTarget === "tray" ? " dropping" : "")} {...dropZone("tray", null)}>
+          <div className="calTrayTitle mono">NO DATE · {undated.length}</div>
+          {undated.map(chip)}
+          <div className="calTrayHint mono">Drop here to clear a due date.</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BoardView(props: {
+  columns: BoardColumn[];
+  tasks: Task[];
+  today: string;
+  canDrag: boolean; // false while search or tag filters hide part of the project
+  isSelected: (taskId: string) => boolean;
+  onSelect: (taskId: string, mods: { range: boolean; toggle: boolean }) => void;
+  onMoveCard: (taskId: string, columnId: string, beforeTaskId: string | null) => Promise<void>;
+  onSetUp: () => Promise<void>;
+  onAddColumn: (name: string) => Promise<void>;
+  onRenameColumn: (column: BoardColumn, name: string) => Promise<void>;
+  onMoveColumn: (column: BoardColumn, step: number) => Promise<void>;
+  onToggleDone: (column: BoardColumn) => Promise<void>;
+  onDeleteColumn: (column: BoardColumn) => Promise<void>;
+  onError: (err: unknown) => void;
+}) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [newColumn, setNewColumn] = useState("");
+  const groups = useMemo(() => groupByColumn(props.columns, props.tasks), [props.columns, props.tasks]);
+
+  // Dropping on a card inserts before it; dropping on the column's empty space appends.
+  function dropZone(key: string, columnId: string, beforeTaskId: string | null) {
+    if (!props.canDrag) return {};
+    return {
+      onDragOver: (e: DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = "move";
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget((prev) => (prev === key ? null : prev)),
+      onDrop: (e: DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTarget(null);
+        const taskId = e.dataTransfer.getData("text/plain");
+        if (!taskId || taskId === beforeTaskId) return;
+        props.onMoveCard(taskId, columnId, beforeTaskId).catch(props.onError);
+      },
+    };
+  }
+
+  function commitRename(c: BoardColumn) {
+    setEditingId(null);
+    if (editingName.trim() && editingName.trim() !== c.name) props.onRenameColumn(c, editingName).catch(props.onError);
+  }
+
+  if (props.columns.length === 0) {
+    return (
+      <div className="boardEmpty">
+        <div className="boardEmptyTitle">No board columns yet</div>
+        <button className="bannerBtn mono" onClick={() => props.onSetUp().catch(props.onError)}>
+          set up Backlog / Doing / Review / Done
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="board">
+      {props.canDrag ? null : <div className="boardHint mono">Clear search and tag filters to drag cards.</div>}
+      <div className="boardColumns">
+        {props.columns.map((c, idx) => {
+          const cards = groups.get(c.id) ?? [];
+          return (
+            <div
+              key={c.id}
+              className={"boardColumn" + (c.isDone ? " done" : "") + (dropTarget === c.id ? " dropping" : "")}
+              {...dropZone(c.id, c.id, null)}
+            >
+              <div className="boardColumnHead">
+                {editingId === c.id ? (
+                  <input
+                    className="boardColumnEdit"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.currentTarget.value)}
+                    onBlur={() => commitRename(c)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename(c);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    autoFocus
+                  />
+                ) : (
+                  <span
+                    className="boardColumnName"
+                    title="Double-click to rename"
+                    onDoubleClick={() => {
+                      setEditingId(c.id);
+                      setEditingName(c.name);
+                    }}
+                  >
+                    {c.name}
+                  </span>
+                )}
+                <span className="boardCount mono">{cards.length}</span>
+                <span className="boardColumnTools mono">
+                  <button
+                    className="boardTool"
+                    disabled={idx === 0}
+                    onClick={() => props.onMoveColumn(c, -1).catch(props.onError)}
+                    title="Move column left"
+                  >
+                    ‹
+                  </button>
+                  <button
+                    className="boardTool"
+                    disabled={idx === props.columns.length - 1}
+                    onClick={() => props.onMoveColumn(c, 1).catch(props.onError)}
+                    title="Move column right"
+                  >
+                    ›
+                  </button>
+                  <button
+                    className={"boardTool" + (c.isDone ? " on" : "")}
+                    onClick={() => props.onToggleDone(c).catch(props.onError)}
+                    title={c.isDone ? "Cards here are completed (click to unset)" : "Make this the completed column"}
+                  >
+                    ✓
+                  </button>
+                  <button
+                    className="boardTool danger"
+                    onClick={() => props.onDeleteColumn(c).catch(props.onError)}
+                    title="Delete column (its cards move to the first column)"
+                  >
+                    ✕
+                  </button>
+                </span>
+              </div>
+
+              {cards.map((t) => {
+                const overdue = !t.completed && isPastDue(t.dueAt, t.dueTime, props.today);
+                return (
+                  <div
+                    key={t.id}
+                    className={
+                      "boardCard" +
+                      (t.completed ? " done" : "") +
+                      (props.isSelected(t.id) ? " selected" : "") +
+                      (dropTarget === `card:${t.id}` ? " dropping" : "")
+                    }
+                    draggable={props.canDrag}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", t.id);
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    onDragEnd={() => setDropTarget(null)}
+                    {...dropZone(`card:${t.id}`, c.id, t.id)}
+                    onClick={(e) => props.onSelect(t.id, { range: e.shiftKey, toggle: e.ctrlKey || e.metaKey })}
+                  >
+                    <div className="boardCardTitle">{t.title}</div>
+                    {t.dueAt || t.priority > 0 ? (
+                      <div className="taskMeta mono">
+                        {t.dueAt ? (
+                          <span className={"pill" + (overdue ? " overdue" : t.dueAt === props.today ? " hot" : "")}>
+                            {formatDue(t.dueAt, t.dueTime)}
+                          </span>
+                        ) : null}
+                        {t.priority > 0 ? (
+                          <span className={"pill priority" + (t.priority === 3 ? " critical" : t.priority === 2 ? " high" : " medium")}>
+                            P{t.priority}
+                          </span>
+                        ) : null}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        <form
+          className="boardAdd"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!newColumn.trim()) return;
+            props
+              .onAddColumn(newColumn)
+              .then(() => setNewColumn(""))
+              .catch(props.onError);
+          }}
+        >
+          <input value={newColumn} onChange={(e) => setNewColumn(e.currentTarget.value)} placeholder="+ column" />
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function StatsDashboard(props: {
+  stats: Stats;
+  projectNameById: Map<string, string>;
+  onOpenProject: (projectId: string) => void;
+}) {
+  const { stats } = props;
+  const dueCompletions = stats.onTime + stats.late;
+  const onTimeShare = dueCompletions > 0 ? (stats.onTime / dueCompletions) * 100 : 0;
+  const onTimeRate = dueCompletions > 0 ? Math.round(onTimeShare) : null;
+  const maxLoad = Math.max(1, ...stats.projectLoad.map((p) => p.open));
+  const maxAge = Math.max(1, ...stats.aging.map((a) => a.count));
+  const maxPriority = Math.max(1, ...stats.openByPriority);
+
+  return (
+    <div className="stats">
+      <div className="statTiles">
+        <StatTile label="open" value={String(stats.openCount)} />
+        <StatTile label="completed" value={String(stats.completedCount)} />
+        <StatTile label="current streak" value={`${stats.streak.current}d`} />
+        <StatTile label="longest streak" value={`${stats.streak.longest}d`} />
+        <StatTile label={`on time · ${WEEKLY_WEEKS} weeks`} value={onTimeRate === null ? "—" : `${onTimeRate}%`} />
+      </div>
+
+      <div className="statCard">
+        <div className="statTitle mono">Completed per day · last {DAILY_DAYS} days</div>
+        <BarChart bars={stats.daily.map((d) => ({ key: d.date, value: d.count, title: `${d.date}: ${d.count}` }))} />
+        <div className="statAxis mono">
+          <span>{stats.daily[0]?.date}</span>
+          <span>today</span>
+        </div>
+      </div>
+
+      <div className="statCard">
+        <div className="statTitle mono">Completed per week · last {WEEKLY_WEEKS} weeks</div>
+        <BarChart bars={stats.weekly.map((w) => ({ key: w.weekStart, value: w.count, title: `Week of ${w.weekStart}: ${w.count}` }))} />
+        <div className="statAxis mono">
+          <span>wk of {stats.weekly[0]?.weekStart}</span>
+          <span>this week</span>
+        </div>
+      </div>
+
+      <div className="statCard">
+        <div className="statTitle mono">On time vs late · tasks with a due date, last {WEEKLY_WEEKS} weeks</div>
+        {dueCompletions === 0 ? (
+          <div className="statEmpty mono">No completed tasks with a due date yet.</div>
+        ) : (
+          <>
+            <svg
+              className="statSplit"
+              viewBox="0 0 100 8"
+              preserveAspectRatio="none"
+              role="img"
+              aria-label={`${stats.onTime} on time, ${stats.late} late`}
+            >
+              <rect className="statOk" x="0" y="0" width={onTimeShare} height="8" />
+              <rect className="statBad" x={onTimeShare} y="0" width={100 - onTimeShare} height="8" />
+            </svg>
+            <div className="statAxis mono">
+              <span>{stats.onTime} on time</span>
+              <span>{stats.late} late</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="statCard">
+        <div className="statTitle mono">Open tasks by project · overdue in red</div>
+        {stats.projectLoad.length === 0 ? <div className="statEmpty mono">Nothing open.</div> : null}
+        {stats.projectLoad.map((p) => (
+          <HBar
+            key={p.projectId ?? "none"}
+            label={p.projectId ? props.projectNameById.get(p.projectId) ?? "(unknown)" : "No project"}
+            value={p.open}
+            part={p.overdue}
+            max={maxLoad}
+            onClick={p.projectId ? () => props.onOpenProject(p.projectId!) : undefined}
+          />
+        ))}
+      </div>
+
+      <div className="statCard">
+        <div className="statTitle mono">Age of open tasks</div>
+        {stats.aging.map((a) => (
+          <HBar key={a.label} label={a.label} value={a.count} max={maxAge} />
+        ))}
+      </div>
+
+      <div className="statCard">
+        <div className="statTitle mono">Open tasks by priority</div>
+        {[3, 2, 1, 0].map((p) => (
+          <HBar key={p} label={`P${p}`} value={stats.openByPriority[p]} max={maxPriority} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function StatTile(props: { label: string; value: string }) {
+  return (
+    <div className="statTile">
+      <div className="statValue">{props.value}</div>
+      <div className="statLabel mono">{props.label}</div>
+    </div>
+  );
+}
+
+/** Vertical bars scaled to the largest value; each bar carries a tooltip. */
+function BarChart(props: { bars: Array<{ key: string; value: number; title: string }> }) {
+  const max = Math.max(1, ...props.bars.map((b) => b.value));
+  const height = 60;
+  return (
+    <svg className="statBars" viewBox={`0 0 ${props.bars.length * 10} ${height}`} preserveAspectRatio="none" role="img">
+      {props.bars.map((b, i) => {
+        const h = (b.value / max) * (height - 2);
+        return (
+          <rect
+            key={b.key}
+            className={b.value > 0 ? "statBar" : "statBar zero"}
+            x={i * 10 + 1}
+            y={height - Math.max(h, 1)}
+            width="8"
+            height={Math.max(h, 1)}
+          >
+            <title>{b.title}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** One labelled horizontal bar; `part` is drawn over the start of it (e.g. overdue of open). */
+function HBar(props: { label: string; value: number; part?: number; max: number; onClick?: () => void }) {
+  const width = (props.value / props.max) * 100;
+  const part = props.part ? (props.part / props.max) * 100 : 0;
+  return (
+    <div className={"statRow" + (props.onClick ? " link" : "")} onClick={props.onClick}>
+      <span className="statRowLabel">{props.label}</span>
+      <svg className="statHBar" viewBox="0 0 100 6" preserveAspectRatio="none" aria-hidden="true">
+        <rect className="statBar" x="0" y="0" width={width} height="6" />
+        {part > 0 ? <rect className="statBad" x="0" y="0" width={part} height="6" /> : null}
+      </svg>
+      <span className="statRowValue mono">
+        {props.value}
+        {props.part ? <span className="statRowPart"> · {props.part}</span> : null}
+      </span>
+    </div>
+  );
+}
+
+function TaskTimeline(props: { events: TaskEvent[] }) {
+  if (props.events.length === 0) {
+    return <div className="inspHint mono">No history recorded yet.</div>;
+  }
+  return (
+    <ol className="timeline">
+      {props.events.map((ev) => {
+        const line = describeTaskEvent(ev);
+        return (
+          <li key={ev.id} className="timelineItem">
+            <div className="timelineWhen mono">{localDateTime(new Date(ev.createdAt)).replace("T", " ")}</div>
+            <div className="timelineWhat">{line.label}</div>
+            {line.from !== null || line.to !== null ? (
+              <div className="timelineChange mono">
+                <span className="timelineOld">{line.from}</span> → <span className="timelineNew">{line.to}</span>
+              </div>
+            ) : null}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function RecurrenceEditor(props: {
+  value: string | null;
+  dueAt: string | null;
+  onChange: (recurrence: string | null) => Promise<void>;
+}) {
+  const rule = parseRecurrence(props.value);
+  const anchor = props.dueAt ? parseIsoDate(props.dueAt) : new Date();
+
+  function commit(next: RecurrenceRule | null) {
+    props.onChange(next ? formatRecurrence(next) : null).catch(() => {
+      // Errors are surfaced in main banner.
+    });
+  }
+
+  function onFreq(freq: string) {
+    const interval = rule?.interval ?? 1;
+    if (freq === "none") commit(null);
+    if (freq === "daily") commit({ freq: "daily", interval });
+    if (freq === "afterCompletion") commit({ freq: "afterCompletion", interval });
+    if (freq === "weekly") commit({ freq: "weekly", interval, weekdays: [anchor.getDay()] });
+    if (freq === "monthlyDay") commit({ freq: "monthlyDay", interval, day: anchor.getDate() });
+    if (freq === "monthlyNth") {
+      commit({ freq: "monthlyNth", interval, nth: Math.min(4, Math.ceil(anchor.getDate() / 7)), weekday: anchor.getDay() });
+    }
+  }
+
+  const unit =
+    rule?.freq === "weekly" ? "week(s)" : rule?.freq === "monthlyDay" || rule?.freq === "monthlyNth" ? "month(s)" : "day(s)";
+
+  return (
+    <div className="field">
+      <div className="fieldLabel mono">REPEAT</div>
+      <div className="grid2">
+        <select className="fieldInput" value={rule?.freq ?? "none"} onChange={(e) => onFreq(e.currentTarget.value)}>
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthlyDay">Monthly (day of month)</option>
+          <option value="monthlyNth">Monthly (nth weekday)</option>
+          <option value="afterCompletion">After completion</option>
+        </select>
+        {rule ? (
+          <label className="repeatInterval mono">
+            every
+            <input
+              className="fieldInput"
+              type="number"
+              min={1}
+              max={365}
+              key={`${rule.freq}:${rule.interval}`}
+              defaultValue={rule.interval}
+              onBlur={(e) => {
+                const interval = Math.max(1, Math.floor(Number(e.currentTarget.value) || 1));
+                if (interval !== rule.interval) commit({ ...rule, interval });
+              }}
+            />
+            {unit}
+          </label>
+        ) : null}
+      </div>
+
+      {rule?.freq === "weekly" ? (
+        <div className="weekdayRow">
+          {WEEKDAY_SHORT.map((label, d) => {
+            const on = rule.weekdays.includes(d);
+            return (
+              <button
+                key={label}
+                className={"chip" + (on ? " on" : "")}
+                onClick={() => {
+                  const weekdays = on ? rule.weekdays.filter((x) => x !== d) : [...rule.weekdays, d].sort();
+                  commit({ ...rule, weekdays });
+                }}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {rule?.freq === "monthlyDay" ? (
+        <select
+          className="fieldInput"
+          value={String(rule.day)}
+          onChange={(e) => commit({ ...rule, day: Number(e.currentTarget.value) })}
+        >
+          {Array.from({ length: 31 }, (_, i) => (
+            <option key={i + 1} value={String(i + 1)}>
+              Day {i + 1}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {rule?.freq === "monthlyNth" ? (
+        <div className="grid2">
+          <select
+            className="fieldInput"
+            value={String(rule.nth)}
+            onChange={(e) => commit({ ...rule, nth: Number(e.currentTarget.value) })}
+          >
+            <option value="1">1st</option>
+            <option value="2">2nd</option>
+            <option value="3">3rd</option>
+            <option value="4">4th</option>
+            <option value="-1">Last</option>
+          </select>
+          <select
+            className="fieldInput"
+            value={String(rule.weekday)}
+            onChange={(e) => commit({ ...rule, weekday: Number(e.currentTarget.value) })}
+          >
+            {WEEKDAY_SHORT.map((label, d) => (
+              <option key={label} value={String(d)}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : null}
+
+      {rule ? <div className="inspHint mono">{describeRecurrence(rule)}</div> : null}
+    </div>
+  );
+}
+
+function SubtaskList(props: {
+  subtasks: Subtask[];
+  completeParent: boolean;
+  onToggleCompleteParent: (value: boolean) => void;
+  onAdd: (title: string) => Promise<void>;
+  onToggle: (subtask: Subtask) => Promise<void>;
+  onRename: (subtask: Subtask, title: string) => Promise<void>;
+  onDelete: (subtask: Subtask) => Promise<void>;
+  onReorder: (orderedIds: string[]) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState("");
+  const [dragId, setDragId] = useState<string | null>(null);
+  const done = props.subtasks.filter((s) => s.completed).length;
+
+  function add() {
+    const title = draft.trim();
+    if (!title) return;
+    props
+      .onAdd(title)
+      .then(() => setDraft(""))
+      .catch(() => {
+        // Errors are surfaced in main banner.
+      });
+  }
+
+  function dropOn(targetId: string) {
+    if (!dragId || dragId === targetId) return;
+    const ids = props.subtasks.map((s) => s.id);
+    const from = ids.indexOf(dragId);
+    const to = ids.indexOf(targetId);
+    if (from < 0 || to < 0) return;
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    setDragId(null);
+    void props.onReorder(ids);
+  }
+
+  return (
+    <div className="field">
+      <div className="fieldLabel mono">
+        STEPS {props.subtasks.length > 0 ? `${done}/${props.subtasks.length}` : ""}
+      </div>
+
+      {props.subtasks.length > 0 ? (
+        <div className="stepList">
+          {props.subtasks.map((st) => (
+            <div
+              key={st.id}
+              className={"step" + (dragId === st.id ? " dragging" : "")}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDragId(st.id);
+              }}
+              onDragEnd={() => setDragId(null)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropOn(st.id);
+              }}
+            >
+              <button
+                className={"check small" + (st.completed ? " on" : "")}
+                onClick={() => void props.onToggle(st)}
+                aria-label={st.completed ? "Mark step incomplete" : "Mark step complete"}
+              />
+              <input
+                className={"stepTitle" + (st.completed ? " done" : "")}
+                key={st.title}
+                defaultValue={st.title}
+                onBlur={(e) => {
+                  const title = e.currentTarget.value.trim();
+                  if (!title) {
+                    e.currentTarget.value = st.title;
+                    return;
+                  }
+                  void props.onRename(st, title);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") e.currentTarget.blur();
+                }}
+              />
+              <button className="tagRemove" onClick={() => void props.onDelete(st)} title="Delete step" aria-label="Delete step">
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="tagAdd">
+        <input
+          className="fieldInput"
+          value={draft}
+          onChange={(e) => setDraft(e.currentTarget.value)}
+          placeholder="Add a step..."
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+        />
+        <button className="ghost" onClick={add} title="Add step">
+          +
+        </button>
+      </div>
+
+      <label className="inspToggle mono">
+        <input
+          type="checkbox"
+          checked={props.completeParent}
+          onChange={(e) => props.onToggleCompleteParent(e.currentTarget.checked)}
+        />
+        Complete task when all steps are done
+      </label>
+    </div>
+  );
+}
+
+function SavedViewEditor(props: {
+  initial: SavedViewInput;
+  isNew: boolean;
+  projects: Project[];
+  tags: Tag[];
+  onCancel: () => void;
+  onSave: (input: SavedViewInput) => void;
+}) {
+  const [draft, setDraft] = useState<SavedViewInput>(props.initial);
+  const errors = parseSearchQuery(draft.search).errors;
+  const canSave = draft.name.trim().length > 0 && errors.length === 0;
+
+  function set<K extends keyof SavedViewInput>(key: K, value: SavedViewInput[K]) {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  }
+
+  return (
+    <div
+      className="viewEditor"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") props.onCancel();
+      }}
+    >
+      <input
+        className="projectInput"
+        value={draft.name}
+        onChange={(e) => set("name", e.currentTarget.value)}
+        placeholder="View name"
+        autoFocus
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && canSave) props.onSave(draft);
+        }}
+      />
+      <input
+        className="projectInput mono"
+        value={draft.search}
+        onChange={(e) => set("search", e.currentTarget.value)}
+        placeholder="Search / filters (tag:work is:open ...)"
+      />
+      {errors.length > 0 ? <div className="queryErrors mono">{errors[0].token}: {errors[0].message}</div> : null}
+      <select
+        className="projectInput"
+        value={draft.projectId ?? ""}
+        onChange={(e) => set("projectId", e.currentTarget.value || null)}
+      >
+        <option value="">Any project</option>
+        {props.projects.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      <select
+        className="projectInput"
+        value={draft.priorityMin === null || draft.priorityMin === undefined ? "" : String(draft.priorityMin)}
+        onChange={(e) => set("priorityMin", e.currentTarget.value === "" ? null : Number(e.currentTarget.value))}
+      >
+        <option value="">Any priority</option>
+        <option value="1">P1 or higher</option>
+        <option value="2">P2 or higher</option>
+        <option value="3">P3 only</option>
+      </select>
+      <div className="viewEditorDates">
+        <label className="mono">
+          due from
+          <input
+            className="projectInput"
+            type="date"
+            value={draft.dueFrom ?? ""}
+            onChange={(e) => set("dueFrom", e.currentTarget.value || null)}
+          />
+        </label>
+        <label className="mono">
+          due to
+          <input
+            className="projectInput"
+            type="date"
+            value={draft.dueTo ?? ""}
+            onChange={(e) => set("dueTo", e.currentTarget.value || null)}
+          />
+        </label>
+      </div>
+      {props.tags.length > 0 ? (
+        <div className="viewEditorTags">
+          {props.tags.map((t) => {
+            const on = draft.tagIds.includes(t.id);
+            return (
+              <button
+                key={t.id}
+                className={"chip" + (on ? " on" : "")}
+                onClick={() => set("tagIds", on ? draft.tagIds.filter((x) => x !== t.id) : [...draft.tagIds, t.id])}
+              >
+                #{t.name}
+              </button>
+            );
+          })}
+        </div>
+      ) : null}
+      <label className="inspToggle mono">
+        <input
+          type="checkbox"
+          checked={draft.includeCompleted}
+          onChange={(e) => set("includeCompleted", e.currentTarget.checked)}
+        />
+        Include completed tasks
+      </label>
+      <div className="viewEditorActions">
+        <button className="railAction" onClick={props.onCancel}>
+          Cancel
+        </button>
+        <button className="projectBtn" disabled={!canSave} onClick={() => props.onSave(draft)}>
+          {props.isNew ? "Save view" : "Update"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ExportPanel(props: {
+  projects: ProjectNode[];
+  viewTitle: string | null; // null: the current view has nothing to export
+  initialProjectId: string | null;
+  onCancel: () => void;
+  onExport: (format: ExportFormat, scope: ExportScope["kind"], projectId: string) => void;
+}) {
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [scope, setScope] = useState<ExportScope["kind"]>(props.viewTitle ? "view" : "all");
+  const [projectId, setProjectId] = useState(props.initialProjectId ?? props.projects[0]?.project.id ?? "");
+  const rows = useMemo(() => flattenProjectTree(props.projects, new Set()), [props.projects]);
+
+  return (
+    <div
+      className="viewEditor exportPanel"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") props.onCancel();
+      }}
+    >
+      <select className="projectInput" value={format} onChange={(e) => setFormat(e.currentTarget.value as ExportFormat)}>
+        <option value="markdown">Markdown checklist (.md)</option>
+        <option value="csv">Spreadsheet (.csv)</option>
+      </select>
+      <select className="projectInput" value={scope} onChange={(e) => setScope(e.currentTarget.value as ExportScope["kind"])}>
+        <option value="all">Everything</option>
+        {props.viewTitle ? <option value="view">This view: {props.viewTitle}</option> : null}
+        <option value="project">One project…</option>
+      </select>
+      {scope === "project" ? (
+        <select className="projectInput" value={projectId} onChange={(e) => setProjectId(e.currentTarget.value)}>
+          {rows.map((n) => (
+            <option key={n.project.id} value={n.project.id}>
+              {"\u00a0\u00a0".repeat(n.depth) + n.project.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      <div className="viewEditorActions">
+        <button className="railAction" onClick={props.onCancel}>
+          Cancel
+        </button>
+        <button
+          className="projectBtn"
+          disabled={scope === "project" && !projectId}
+          onClick={() => props.onExport(format, scope, projectId)}
+        >
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function BlockerList(props: {
+  blockers: TaskLink[];
+  blocking: TaskLink[];
+  onAdd: (blockedById: string) => Promise<void>;
+  onRemove: (blockedById: string) => Promise<void>;
+  onSearch: (query: string) => Promise<TaskLink[]>;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<TaskLink[]>([]);
+  const open = props.blockers.filter((b) => !b.completed).length;
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const t = setTimeout(() => {
+      props
+        .onSearch(query)
+        .then((rows) => {
+          if (!cancelled) setResults(rows);
+        })
+        .catch(() => {
+          // A half-typed filter is not worth a banner; keep the last results.
+        });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
+
+  return (
+    <div className="field">
+      <div className="fieldLabel mono">BLOCKED BY</div>
+      {props.blockers.length > 0 ? (
+        <>
+          <div className={"inspHint mono blockerStatus" + (open > 0 ? " waiting" : "")}>
+            {open > 0 ? `Waiting on ${open} open ${open === 1 ? "task" : "tasks"}` : "Unblocked: every blocker is done"}
+          </div>
+          <div className="tagRow">
+            {props.blockers.map((b) => (
+              <span key={b.id} className={"tagItem" + (b.completed ? " done" : "")}>
+                <span className="tagName">
+                  {b.completed ? "✓" : "⛓"} {b.title}
+                </span>
+                <button
+                  className="tagRemove"
+                  onClick={() =>
+                    props.onRemove(b.id).catch(() => {
+                      // Errors are surfaced in main banner.
+                    })
+                  }
+                  title="Remove blocker"
+                  aria-label={`Remove blocker ${b.title}`}
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+        </>
+      ) : null}
+      <input
+        className="fieldInput"
+        value={query}
+        onChange={(e) => setQuery(e.currentTarget.value)}
+        placeholder="Search tasks to add a blocker…"
+      />
+      {results.length > 0 ? (
+        <div className="blockerResults">
+          {results.map((r) => (
+            <button
+              key={r.id}
+              className="blockerResult"
+              onClick={() =>
+                props
+                  .onAdd(r.id)
+                  .then(() => setQuery(""))
+                  .catch(() => {
+                    // Errors (e.g. a cycle) are surfaced in main banner.
+                  })
+              }
+            >
+              {r.title}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {props.blocking.length > 0 ? (
+        <div className="inspHint mono">Blocks: {props.blocking.map((b) => b.title).join(", ")}</div>
+      ) : null}
+    </div>
+  );
+}
+
+function ReminderList(props: {
+  reminders: Reminder[];
+  hasDue: boolean;
+  onAdd: (input: { at: string } | { offsetMinutes: number }) => Promise<void>;
+  onDelete: (reminder: Reminder) => Promise<void>;
+}) {
+  const [at, setAt] = useState("");
+
+  function add(input: { at: string } | { offsetMinutes: number }) {
+    props.onAdd(input).catch(() => {
+      // Errors are surfaced in main banner.
+    });
+  }
+
+  return (
+    <div className="field">
+      <div className="fieldLabel mono">REMINDERS</div>
+      {props.reminders.length > 0 ? (
+        <div className="tagRow">
+          {props.reminders.map((r) => (
+            <span key={r.id} className="tagItem">
+              <span className="tagName">
+                ⏰ {describeReminder(r)}
+                {r.snoozedUntil ? ` (snoozed to ${r.snoozedUntil.replace("T", " ")})` : ""}
+              </span>
+              <button
+                className="tagRemove"
+                onClick={() =>
+                  props.onDelete(r).catch(() => {
+                    // Errors are surfaced in main banner.
+                  })
+                }
+                title="Remove reminder"
+                aria-label="Remove reminder"
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+      <select
+        className="fieldInput"
+        value=""
+        disabled={!props.hasDue}
+        title={props.hasDue ? "Remind relative to the due date" : "Set a due date for relative reminders"}
+        onChange={(e) => {
+          if (e.currentTarget.value !== "") add({ offsetMinutes: Number(e.currentTarget.value) });
+        }}
+      >
+        <option value="">Remind before due…</option>
+        {RELATIVE_PRESETS.map((p) => (
+          <option key={p.minutes} value={p.minutes}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+      <div className="tagAdd">
+        <input className="fieldInput" type="datetime-local" value={at} onChange={(e) => setAt(e.currentTarget.value)} />
+        <button
+          className="bannerBtn"
+          disabled={!at}
+          onClick={() => {
+            add({ at: at.slice(0, 16) });
+            setAt("");
+          }}
+        >
+          Remind
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(n < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function AttachmentList(props: {
+  attachments: Attachment[];
+  onAttachFiles: () => Promise<void>;
+  onAttachUrl: (url: string, name: string) => Promise<void>;
+  onOpen: (attachment: Attachment) => Promise<void>;
+  onRename: (attachment: Attachment, name: string) => Promise<void>;
+  onDelete: (attachment: Attachment) => Promise<void>;
+  onError: (err: unknown) => void;
+}) {
+  const [url, setUrl] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const run = (p: Promise<void>) => p.catch(props.onError);
+
+  function addUrl(): void {
+    if (!url.trim()) return;
+    run(props.onAttachUrl(url, "").then(() => setUrl("")));
+  }
+
+  function commitRename(a: Attachment): void {
+    setEditingId(null);
+    if (draft.trim() && draft.trim() !== a.name) run(props.onRename(a, draft));
+  }
+
+  return (
+    <div className="field">
+      <div className="fieldLabel mono">ATTACHMENTS</div>
+      {props.attachments.length > 0 ? (
+        <ul className="attachments">
+          {props.attachments.map((a) => (
+            <li key={a.id} className="attachment">
+              <span className="attachmentIcon" aria-hidden="true">
+                {a.kind === "file" ? "📄" : "🔗"}
+              </span>
+              {editingId === a.id ? (
+                <input
+                  className="projEdit"
+                  value={draft}
+                  autoFocus
+                  onChange={(e) => setDraft(e.currentTarget.value)}
+                  onBlur={() => commitRename(a)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename(a);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                />
+              ) : (
+                <button
+                  className="attachmentName"
+                  onClick={() => run(props.onOpen(a))}
+                  onDoubleClick={() => {
+                    setEditingId(a.id);
+                    setDraft(a.name);
+                  }}
+                  title={`${a.kind === "url" ? a.target : "Open"} (double-click to rename)`}
+                >
+                  {a.name}
+                </button>
+              )}
+              {a.size !== null ? <span className="attachmentSize mono">{formatBytes(a.size)}</span> : null}
+              <button className="tagRemove" onClick={() => run(props.onDelete(a))} title="Remove attachment" aria-label="Remove attachment">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="tagAdd">
+        <input
+          className="fieldInput"
+          value={url}
+          placeholder="Paste a link…"
+          onChange={(e) => setUrl(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addUrl();
+          }}
+        />
+        <button className="bannerBtn" disabled={!url.trim()} onClick={addUrl}>
+          Link
+        </button>
+      </div>
+      <button className="bannerBtn" onClick={() => run(props.onAttachFiles())} title="Copies the files into NeonTodo's data folder">
+        Attach files…
+      </button>
+    </div>
+  );
+}
+
+function BatchPanel(props: {
+  count: number;
+  trash: boolean; // selection is in Trash: only restore / purge apply
+  projects: Project[];
+  tags: Tag[];
+  onClose: () => void;
+  onComplete: (completed: boolean) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onRestore: () => Promise<void>;
+  onMove: (projectId: string) => Promise<void>;
+  onPriority: (priority: number) => Promise<void>;
+  onDue: (dueAt: string | null) => Promise<void>;
+  onTag: (name: string) => Promise<void>;
+  onUntag: (tag: Tag) => Promise<void>;
+  onError: (err: unknown) => void;
+}) {
+  const [tagName, setTagName] = useState("");
+  const run = (p: Promise<void>) => p.catch(props.onError);
+
+  if (props.trash) {
+    return (
+      <div className="inspectorInner">
+        <div className="inspTop">
+          <div>
+            <div className="inspLabel mono">SELECTION · TRASH</div>
+            <div className="inspProject mono">{props.count} tasks</div>
+          </div>
+          <button className="ghost" onClick={props.onClose} title="Clear selection (Esc)">
+            ✕
+          </button>
+        </div>
+        <div className="batchActions">
+          <button className="bannerBtn" onClick={() => run(props.onRestore())}>
+            Restore
+          </button>
+          <button className="bannerBtn danger" onClick={() => run(props.onDelete())}>
+            Delete permanently
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="inspectorInner">
+      <div className="inspTop">
+        <div>
+          <div className="inspLabel mono">SELECTION</div>
+          <div className="inspProject mono">{props.count} tasks</div>
+        </div>
+        <button className="ghost" onClick={props.onClose} title="Clear selection (Esc)">
+          ✕
+        </button>
+      </div>
+
+      <div className="batchActions">
+        <button className="bannerBtn" onClick={() => run(props.onComplete(true))}>
+          Complete
+        </button>
+        <button className="bannerBtn" onClick={() => run(props.onComplete(false))}>
+          Reopen
+        </button>
+        <button className="bannerBtn danger" onClick={() => run(props.onDelete())}>
+          Delete
+        </button>
+      </div>
+
+      <label className="field">
+        <div className="fieldLabel mono">MOVE TO</div>
+        <select
+          className="fieldInput"
+          value=""
+          onChange={(e) => {
+            if (e.currentTarget.value) run(props.onMove(e.currentTarget.value));
+          }}
+        >
+          <option value="">Choose project…</option>
+          {props.projects.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid2">
+        <label className="field">
+          <div className="fieldLabel mono">PRIORITY</div>
+          <select
+            className="fieldInput"
+            value=""
+            onChange={(e) => {
+              if (e.currentTarget.value !== "") run(props.onPriority(Number(e.currentTarget.value)));
+            }}
+          >
+            <option value="">Set…</option>
+            <option value="0">P0</option>
+            <option value="1">P1</option>
+            <option value="2">P2</option>
+            <option value="3">P3</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <div className="fieldLabel mono">DUE</div>
+          <input
+            className="fieldInput"
+            type="date"
+            value=""
+            onChange={(e) => {
+              if (e.currentTarget.value) run(props.onDue(e.currentTarget.value));
+            }}
+          />
+        </label>
+      </div>
+      <div className="batchActions">
+        <button className="bannerBtn" onClick={() => run(props.onDue(todayIsoDate()))}>
+          Due today
+        </button>
+        <button className="bannerBtn" onClick={() => run(props.onDue(addDaysIsoDate(1)))}>
+          Tomorrow
+        </button>
+        <button className="bannerBtn" onClick={() => run(props.onDue(null))}>
+          No due date
+        </button>
+      </div>
+
+      <div className="field">
+        <div className="fieldLabel mono">TAGS</div>
+        <div className="tagAdd">
+          <input
+            className="fieldInput"
+            value={tagName}
+            onChange={(e) => setTagName(e.currentTarget.value)}
+            placeholder="Add tag to all…"
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && tagName.trim()) run(props.onTag(tagName).then(() => setTagName("")));
+            }}
+          />
+          <button
+            className="bannerBtn"
+            disabled={!tagName.trim()}
+            onClick={() => run(props.onTag(tagName).then(() => setTagName("")))}
+          >
+            Add
+          </button>
+        </div>
+        {props.tags.length > 0 ? (
+          <div className="tagRow">
+            {props.tags.map((t) => (
+              <button key={t.id} className="tag" style={tagStyle(t)} onClick={() => run(props.onUntag(t))} title={`Remove #${t.name} from all selected`}>
+                #{t.name}
+                <span className="tagX">×</span>
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="inspHint mono">
+        Shift+click or Shift+↑/↓ extends the selection, Ctrl+click toggles one, Ctrl+A selects all. Enter completes, Delete
+        removes, Ctrl+Z undoes the whole batch.
+      </div>
+    </div>
+  );
+}
+
+function TagManager(props: {
+  tags: Tag[];
+  usage: Map<string, number>; // live tasks per tag
+  onClose: () => void;
+  onRename: (tag: Tag, name: string) => Promise<void>;
+  onMerge: (source: Tag, target: Tag) => Promise<void>;
+  onRecolor: (tag: Tag, color: string | null) => Promise<void>;
+  onDelete: (tag: Tag) => Promise<void>;
+  onCleanUp: () => Promise<void>;
+  onError: (err: unknown) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  // A tag still on tasks takes a second click to delete.
+  const [armedId, setArmedId] = useState<string | null>(null);
+  const run = (p: Promise<void>) => p.catch(props.onError);
+
+  function commitRename(tag: Tag): void {
+    setEditingId(null);
+    const name = draft.trim();
+    if (name && name !== tag.name) run(props.onRename(tag, name));
+  }
+
+  return (
+    <div className="inspectorInner">
+      <div className="inspTop">
+        <div>
+          <div className="inspLabel mono">TAGS</div>
+          <div className="inspProject mono">{props.tags.length} tags</div>
+        </div>
+        <button className="ghost" onClick={props.onClose} title="Close">
+          ✕
+        </button>
+      </div>
+
+      <div className="tagManager">
+        {props.tags.map((t) => {
+          const count = props.usage.get(t.id) ?? 0;
+          const armed = armedId === t.id;
+          return (
+            <div key={t.id} className="tagManagerRow">
+              <div className="tagManagerHead">
+                {editingId === t.id ? (
+                  <input
+                    className="projEdit"
+                    value={draft}
+                    autoFocus
+                    onChange={(e) => setDraft(e.currentTarget.value)}
+                    onBlur={() => commitRename(t)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename(t);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                  />
+                ) : (
+                  <button
+                    className="tag"
+                    style={tagStyle(t)}
+                    title="Rename"
+                    onClick={() => {
+                      setEditingId(t.id);
+                      setDraft(t.name);
+                    }}
+                  >
+                    #{t.name}
+                  </button>
+                )}
+                <span className="tagManagerCount mono">
+                  {count} {count === 1 ? "task" : "tasks"}
+                </span>
+              </div>
+
+              <div className="tagManagerSwatches">
+                <button
+                  className={"projSwatch none" + (t.color ? "" : " on")}
+                  title="Default"
+                  aria-label="No color"
+                  onClick={() => run(props.onRecolor(t, null))}
+                />
+                {COLOR_SWATCHES.map((c) => (
+                  <button
+                    key={c}
+                    className={"projSwatch" + (t.color?.toLowerCase() === c ? " on" : "")}
+                    style={{ background: c }}
+                    title={c}
+                    aria-label={`Color ${c}`}
+                    onClick={() => run(props.onRecolor(t, c))}
+                  />
+                ))}
+              </div>
+
+              <div className="tagManagerActions">
+                <select
+                  className="fieldInput"
+                  value=""
+                  disabled={props.tags.length < 2}
+                  onChange={(e) => {
+                    const target = props.tags.find((x) => x.id === e.currentTarget.value);
+                    if (target) run(props.onMerge(t, target));
+                  }}
+                >
+                  <option value="">Merge into…</option>
+                  {props.tags
+                    .filter((x) => x.id !== t.id)
+                    .map((x) => (
+                      <option key={x.id} value={x.id}>
+                        #{x.name}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  className="bannerBtn danger"
+                  onBlur={() => setArmedId(null)}
+                  onClick={() => {
+                    if (count > 0 && !armed) {
+                      setArmedId(t.id);
+                      return;
+                    }
+                    setArmedId(null);
+                    run(props.onDelete(t));
+                  }}
+                >
+                  {armed ? `Remove from ${count} ${count === 1 ? "task" : "tasks"}?` : "Delete"}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="batchActions">
+        <button className="bannerBtn" onClick={() => run(props.onCleanUp())} title="Delete tags that no task or saved view uses">
+          Clean up unused tags
+        </button>
+      </div>
+
+      <div className="inspHint mono">
+        Click a tag to rename it. Merging moves every task onto the other tag. Ctrl+Z undoes any of these.
+      </div>
+    </div>
+  );
+}
+
+const IMPORT_PREVIEW_ROWS = 50;
+
+function ImportPreview(props: {
+  pending: PendingImport;
+  projects: ProjectNode[];
+  tags: Tag[];
+  initialProjectId: string | null;
+  onCancel: () => void;
+  onImport: (fallbackProjectId: string | null) => Promise<void>;
+  onError: (err: unknown) => void;
+}) {
+  const { plan, fileName } = props.pending;
+  const [projectId, setProjectId] = useState(props.initialProjectId ?? "");
+  const [busy, setBusy] = useState(false);
+  const rows = useMemo(() => flattenProjectTree(props.projects, new Set()), [props.projects]);
+  const summary = useMemo(
+    () =>
+      summarizeImport(
+        plan,
+        rows.map((n) => n.project),
+        props.tags.map((t) => t.name),
+      ),
+    [plan, rows, props.tags],
+  );
+  const unfiled = plan.tasks.filter((t) => t.projectPath.length === 0).length;
+
+  function apply(): void {
+    setBusy(true);
+    props
+      .onImport(projectId || null)
+      .catch(props.onError)
+      .finally(() => setBusy(false));
+  }
+
+  return (
+    <div className="inspectorInner">
+      <div className="inspTop">
+        <div>
+          <div className="inspLabel mono">IMPORT · {IMPORT_FORMAT_LABELS[plan.format].toUpperCase()}</div>
+          <div className="inspProject mono" title={props.pending.path}>
+            {fileName}
+          </div>
+        </div>
+        <button className="ghost" onClick={props.onCancel} title="Cancel import">
+          ✕
+        </button>
+      </div>
+
+      <div className="importSummary mono">
+        {plan.tasks.length} {plan.tasks.length === 1 ? "task" : "tasks"}
+        {summary.completed > 0 ? `, ${summary.completed} already done` : ""}
+      </div>
+
+      {summary.projects.length > 0 ? (
+        <div className="field">
+          <div className="fieldLabel mono">PROJECTS</div>
+          <ul className="importList">
+            {summary.projects.map((p) => (
+              <li key={p.path} className="importListRow">
+                <span>{p.path}</span>
+                <span className="mono importCount">
+                  {p.count}
+                  {p.isNew ? <span className="importNew">new</span> : null}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {unfiled > 0 ? (
+        <label className="field">
+          <div className="fieldLabel mono">
+            {unfiled} {unfiled === 1 ? "TASK" : "TASKS"} WITHOUT A PROJECT GO TO
+          </div>
+          <select className="fieldInput" value={projectId} onChange={(e) => setProjectId(e.currentTarget.value)}>
+            {rows.map((n) => (
+              <option key={n.project.id} value={n.project.id}>
+                {"\u00a0\u00a0".repeat(n.depth) + n.project.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+
+      {summary.newTags.length > 0 ? (
+        <div className="field">
+          <div className="fieldLabel mono">NEW TAGS</div>
+          <div className="tagRow">
+            {summary.newTags.map((name) => (
+              <span key={name} className="tag">
+                #{name}
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {plan.warnings.length > 0 ? (
+        <div className="field">
+          <div className="fieldLabel mono">SKIPPED OR CHANGED</div>
+          <ul className="importWarnings mono">
+            {plan.warnings.slice(0, 20).map((w, i) => (
+              <li key={i}>{w}</li>
+            ))}
+            {plan.warnings.length > 20 ? <li>…and {plan.warnings.length - 20} more</li> : null}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="field">
+        <div className="fieldLabel mono">PREVIEW</div>
+        <ul className="importList">
+          {plan.tasks.slice(0, IMPORT_PREVIEW_ROWS).map((t, i) => (
+            <li key={i} className={"importTask" + (t.completed ? " done" : "")}>
+              <div className="importTaskTitle">
+                {t.completed ? "☑ " : "☐ "}
+                {t.title}
+              </div>
+              <div className="importTaskMeta mono">
+                {[
+                  t.projectPath.join(" / "),
+                  t.dueAt ? `due ${formatDue(t.dueAt, t.dueTime)}` : "",
+                  t.recurrence ? "repeats" : "",
+                  t.priority > 0 ? `P${t.priority}` : "",
+                  t.tags.map((name) => `#${name}`).join(" "),
+                  t.subtasks.length > 0 ? `${t.subtasks.length} ${t.subtasks.length === 1 ? "step" : "steps"}` : "",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </div>
+            </li>
+          ))}
+          {plan.tasks.length > IMPORT_PREVIEW_ROWS ? (
+            <li className="importTaskMeta mono">…and {plan.tasks.length - IMPORT_PREVIEW_ROWS} more</li>
+          ) : null}
+        </ul>
+      </div>
+
+      <div className="batchActions">
+        <button className="bannerBtn" disabled={busy || (unfiled > 0 && !projectId)} onClick={apply}>
+          Import {plan.tasks.length} {plan.tasks.length === 1 ? "task" : "tasks"}
+        </button>
+        <button className="bannerBtn" disabled={busy} onClick={props.onCancel}>
+          Cancel
+        </button>
+      </div>
+
+      <div className="inspHint mono">Nothing is written until you import. Ctrl+Z undoes the whole import.</div>
+    </div>
+  );
+}
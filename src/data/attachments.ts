@@ -0,0 +1,94 @@
+import { appDataDir, join } from "@tauri-apps/api/path";
+import { open } from "@tauri-apps/plugin-dialog";
+import { BaseDirectory, copyFile, exists, mkdir, readDir, readFile, remove, stat, writeFile } from "@tauri-apps/plugin-fs";
+import { openPath, openUrl } from "@tauri-apps/plugin-opener";
+import { isSafeUrl } from "../lib/markdown";
+import type { Attachment } from "../types";
+import { createAttachment, createAttachments, listAttachmentFileTargets } from "./repo";
+
+// File side of task attachments. Picked files are copied to
+// <app data>/attachments/<attachment id>/<file name>, so the original can move
+// or disappear. Rows are undoable but files are not: removing an attachment
+// only deletes its row, and sweepAttachmentFiles() deletes copies nothing points
+// at on the next start-up (undo history does not survive a restart).
+
+const ATTACHMENTS_DIR = "attachments";
+const APP_DATA = { baseDir: BaseDirectory.AppData };
+
+/** The last path segment, made safe to use as a file name on every platform. */
+function fileName(path: string): string {
+  const base = path.split(/[\\/]/).pop() ?? "";
+  const clean = base.replace(/[<>:"|?*\u0000-\u001f]/g, "_").replace(/^\.+/, "").trim();
+  return clean || "file";
+}
+
+/** Attachment file paths come from backups too; only accept ones inside the attachments directory. */
+function checkTarget(target: string): void {
+  const parts = target.split("/");
+  if (parts[0] !== ATTACHMENTS_DIR || parts.length !== 3 || parts.some((p) => !p || p === "." || p === "..")) {
+    throw new Error(`Invalid attachment path "${target}"`);
+  }
+}
+
+/** Asks for files and attaches copies of them to the task; [] if the dialog was cancelled. */
+export async function attachFiles(taskId: string): Promise<Attachment[]> {
+  const picked = await open({ title: "Attach files", multiple: true, directory: false });
+  if (!picked) return [];
+  const paths = Array.isArray(picked) ? picked : [picked];
+  if (paths.length === 0) return [];
+
+  // Copies first, rows after: if a copy fails nothing is attached, and the
+  // copies already made are swept at the next start-up.
+  const copied: Omit<Attachment, "createdAt">[] = [];
+  for (const path of paths) {
+    const id = crypto.randomUUID();
+    const name = fileName(path);
+    const target = `${ATTACHMENTS_DIR}/${id}/${name}`;
+    await mkdir(`${ATTACHMENTS_DIR}/${id}`, { ...APP_DATA, recursive: true });
+    await copyFile(path, target, { toPathBaseDir: BaseDirectory.AppData });
+    const { size } = await stat(target, APP_DATA);
+    copied.push({ id, taskId, kind: "file", name, target, size });
+  }
+  return createAttachments(copied);
+}
+
+export async function attachUrl(taskId: string, urlRaw: string, nameRaw = ""): Promise<Attachment> {
+  let url = urlRaw.trim();
+  // "example.com/page" is a link too.
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(url) && /^[^\s/]+\.[^\s/]+/.test(url)) url = `https://${url}`;
+  if (!isSafeUrl(url)) throw new Error("Only http(s) and mailto links can be attached");
+  return createAttachment({ id: crypto.randomUUID(), taskId, kind: "url", name: nameRaw.trim() || url, target: url, size: null });
+}
+
+export async function openAttachment(attachment: Attachment): Promise<void> {
+  if (attachment.kind === "url") {
+    await openUrl(attachment.target);
+    return;
+  }
+  checkTarget(attachment.target);
+  if (!(await exists(attachment.target, APP_DATA))) throw new Error(`"${attachment.name}" is missing from the attachments folder`);
+  await openPath(await join(await appDataDir(), ...attachment.target.split("/")));
+}
+
+/** The stored copy of a file attachment, or null if it is gone. */
+export async function readAttachmentFile(target: string): Promise<Uint8Array | null> {
+  checkTarget(target);
+  if (!(await exists(target, APP_DATA))) return null;
+  return readFile(target, APP_DATA);
+}
+
+export async function writeAttachmentFile(target: string, data: Uint8Array): Promise<void> {
+  checkTarget(target);
+  await mkdir(target.slice(0, target.lastIndexOf("/")), { ...APP_DATA, recursive: true });
+  await writeFile(target, data, APP_DATA);
+}
+
+/** Deletes copied files that no attachment row points at any more. Run at start-up. */
+export async function sweepAttachmentFiles(): Promise<void> {
+  if (!(await exists(ATTACHMENTS_DIR, APP_DATA))) return;
+  const keep = new Set((await listAttachmentFileTargets()).map((t) => t.split("/")[1]));
+  for (const entry of await readDir(ATTACHMENTS_DIR, APP_DATA)) {
+    if (keep.has(entry.name)) continue;
+    await remove(`${ATTACHMENTS_DIR}/${entry.name}`, { ...APP_DATA, recursive: true });
+  }
+}
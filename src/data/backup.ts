@@ -1,78 +1,126 @@
 import { open, save } from "@tauri-apps/plugin-dialog";
-import { readTextFile, writeTextFile } from "@tauri-apps/plugin-fs";
+import { readFile, readTextFile, writeFile, writeTextFile } from "@tauri-apps/plugin-fs";
 import { nowIso } from "../lib/date";
-import type { SqlDb } from "./repo";
-import { getDb } from "./repo";
-
-export type BackupV1 = {
-  version: 1;
-  exportedAt: string;
-  projects: Array<{
-    id: string;
-    name: string;
-    color: string | null;
-    icon: string | null;
-    sort_order: number;
-    created_at: string;
-  }>;
-  tasks: Array<{
-    id: string;
-    project_id: string | null;
-    title: string;
-    notes: string;
-    completed: number;
-    priority: number;
-    due_at: string | null;
-    sort_order: number;
-    created_at: string;
-    updated_at: string;
-  }>;
-  tags: Array<{ id: string; name: string }>;
-  task_tags: Array<{ task_id: string; tag_id: string }>;
-};
-
-async function exportBundle(db: SqlDb): Promise<BackupV1> {
-  const projects = await db.select<BackupV1["projects"][number]>(
-    "SELECT id, name, color, icon, sort_order, created_at FROM projects ORDER BY sort_order ASC, created_at ASC",
+import { createZip, readZip, type ZipEntry } from "../lib/zip";
+import { readAttachmentFile, writeAttachmentFile } from "./attachments";
+import { BACKUP_VERSION, upgradeBackup, type Backup } from "./backupFormat";
+import { getDb, type SqlDb } from "./db";
+import { createsDependencyCycle } from "./repo";
+import { withUndo } from "./history";
+
+async function exportBundle(db: SqlDb): Promise<Backup> {
+  const projects = await db.select<Backup["projects"][number]>(
+    "SELECT id, name, color, icon, sort_order, created_at, parent_id, is_area, archived_at, deleted_at FROM projects ORDER BY sort_order ASC, created_at ASC",
+  );
+  const tasks = await db.select<Backup["tasks"][number]>(
+    "SELECT id, project_id, title, notes, completed, priority, due_at, due_time, start_at, recurrence, sort_order, created_at, updated_at, completed_at, column_id, deleted_at FROM tasks ORDER BY created_at ASC",
+  );
+  const board_columns = await db.select<Backup["board_columns"][number]>(
+    "SELECT id, project_id, name, sort_order, is_done, created_at FROM board_columns ORDER BY project_id ASC, sort_order ASC",
+  );
+  const tags = await db.select<Backup["tags"][number]>("SELECT id, name, color FROM tags ORDER BY name ASC");
+  const task_tags = await db.select<Backup["task_tags"][number]>("SELECT task_id, tag_id FROM task_tags");
+  const subtasks = await db.select<Backup["subtasks"][number]>(
+    "SELECT id, task_id, title, completed, sort_order, created_at FROM subtasks ORDER BY task_id ASC, sort_order ASC",
+  );
+  const saved_views = await db.select<Backup["saved_views"][number]>(
+    "SELECT id, name, search, tag_ids, project_id, priority_min, due_from, due_to, include_completed, sort_order, created_at FROM saved_views ORDER BY sort_order ASC",
   );
-  const tasks = await db.select<BackupV1["tasks"][number]>(
-    "SELECT id, project_id, title, notes, completed, priority, due_at, sort_order, created_at, updated_at FROM tasks ORDER BY created_at ASC",
+  const reminders = await db.select<Backup["reminders"][number]>(
+    "SELECT id, task_id, at, offset_minutes, snoozed_until, fired_for, created_at FROM reminders ORDER BY task_id ASC, created_at ASC",
+  );
+  const task_dependencies = await db.select<Backup["task_dependencies"][number]>(
+    "SELECT task_id, blocked_by_id, created_at FROM task_dependencies ORDER BY created_at ASC",
+  );
+  const task_events = await db.select<Backup["task_events"][number]>(
+    "SELECT id, task_id, kind, field, old_value, new_value, created_at FROM task_events ORDER BY created_at ASC, rowid ASC",
+  );
+  const attachments = await db.select<Backup["attachments"][number]>(
+    "SELECT id, task_id, kind, name, target, size, created_at FROM attachments ORDER BY task_id ASC, created_at ASC",
   );
-  const tags = await db.select<BackupV1["tags"][number]>("SELECT id, name FROM tags ORDER BY name ASC");
-  const task_tags = await db.select<BackupV1["task_tags"][number]>("SELECT task_id, tag_id FROM task_tags");
 
   return {
-    version: 1,
+    version: BACKUP_VERSION,
     exportedAt: nowIso(),
     projects,
+    board_columns,
     tasks,
     tags,
     task_tags,
+    subtasks,
+    saved_views,
+    reminders,
+    task_dependencies,
+    task_events,
+    attachments,
   };
 }
 
-function safeParseBackup(json: string): BackupV1 {
-  const data = JSON.parse(json);
-  if (!data || data.version !== 1) throw new Error("Unsupported backup format");
-  return data as BackupV1;
+function safeParseBackup(json: string): { bundle: Backup; foundVersion: number } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Backup is not valid JSON");
+  }
+  return upgradeBackup(data);
 }
 
-async function importBundle(db: SqlDb, bundle: BackupV1): Promise<void> {
+// Upserts rather than INSERT OR REPLACE: REPLACE deletes the old row without firing
+// delete triggers (so it could not be undone) and cascades away its task_tags.
+async function importBundle(db: SqlDb, bundle: Backup): Promise<void> {
   await db.execute("PRAGMA foreign_keys = ON");
   await db.execute("BEGIN");
   try {
     for (const p of bundle.projects ?? []) {
       if (!p?.id || !p?.name) continue;
       await db.execute(
-        "INSERT OR REPLACE INTO projects (id, name, color, icon, sort_order, created_at) VALUES ($1,$2,$3,$4,$5,$6)",
-        [p.id, p.name, p.color ?? null, p.icon ?? null, Number(p.sort_order ?? 0), p.created_at ?? nowIso()],
+        `INSERT INTO projects (id, name, color, icon, sort_order, created_at, is_area, archived_at, deleted_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+         ON CONFLICT(id) DO UPDATE SET name = excluded.name, color = excluded.color, icon = excluded.icon,
+           sort_order = excluded.sort_order, created_at = excluded.created_at, is_area = excluded.is_area,
+           archived_at = excluded.archived_at, deleted_at = excluded.deleted_at`,
+        [
+          p.id,
+          p.name,
+          p.color ?? null,
+          p.icon ?? null,
+          Number(p.sort_order ?? 0),
+          p.created_at ?? nowIso(),
+          Number(p.is_area ?? 0),
+          p.archived_at ?? null,
+          p.deleted_at ?? null,
+        ],
+      );
+    }
+    // Parents second: a sub-project can come before its parent in the file.
+    for (const p of bundle.projects ?? []) {
+      if (!p?.id || !p?.name) continue;
+      await db.execute("UPDATE projects SET parent_id = (SELECT id FROM projects WHERE id = $1) WHERE id = $2", [
+        p.parent_id ?? null,
+        p.id,
+      ]);
+    }
+
+    for (const c of bundle.board_columns ?? []) {
+      if (!c?.id || !c?.project_id || !c?.name) continue;
+      await db.execute(
+        `INSERT INTO board_columns (id, project_id, name, sort_order, is_done, created_at) VALUES ($1,$2,$3,$4,$5,$6)
+         ON CONFLICT(id) DO UPDATE SET project_id = excluded.project_id, name = excluded.name,
+           sort_order = excluded.sort_order, is_done = excluded.is_done, created_at = excluded.created_at`,
+        [c.id, c.project_id, c.name, Number(c.sort_order ?? 0), Number(c.is_done ?? 0), c.created_at ?? nowIso()],
       );
     }
 
     for (const t of bundle.tasks ?? []) {
       if (!t?.id || !t?.title) continue;
       await db.execute(
-        "INSERT OR REPLACE INTO tasks (id, project_id, title, notes, completed, priority, due_at, sort_order, created_at, updated_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)",
+        `INSERT INTO tasks (id, project_id, title, notes, completed, priority, due_at, due_time, start_at, recurrence, sort_order, created_at, updated_at, completed_at, column_id, deleted_at)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
+         ON CONFLICT(id) DO UPDATE SET project_id = excluded.project_id, title = excluded.title, notes = excluded.notes,
+           completed = excluded.completed, priority = excluded.priority, due_at = excluded.due_at,
+           due_time = excluded.due_time, start_at = excluded.start_at, recurrence = excluded.recurrence, sort_order = excluded.sort_order, created_at = excluded.created_at,
+           updated_at = excluded.updated_at, completed_at = excluded.completed_at,
+           column_id = excluded.column_id, deleted_at = excluded.deleted_at`,
         [
           t.id,
           t.project_id ?? null,
@@ -81,21 +129,132 @@ async function importBundle(db: SqlDb, bundle: BackupV1): Promise<void> {
           Number(t.completed ?? 0),
           Number(t.priority ?? 0),
           t.due_at ?? null,
+          t.due_time ?? null,
+          t.start_at ?? null,
+          t.recurrence ?? null,
           Number(t.sort_order ?? 0),
           t.created_at ?? nowIso(),
           t.updated_at ?? nowIso(),
+          t.completed_at ?? null,
+          t.column_id ?? null,
+          t.deleted_at ?? null,
         ],
       );
     }
 
+    // A backup tag whose name already exists under another id is folded into the local tag.
+    const tagIdMap = new Map<string, string>();
     for (const tag of bundle.tags ?? []) {
       if (!tag?.id || !tag?.name) continue;
-      await db.execute("INSERT OR REPLACE INTO tags (id, name) VALUES ($1,$2)", [tag.id, tag.name]);
+      const sameName = await db.select<{ id: string }>("SELECT id FROM tags WHERE name = $1 AND id <> $2", [tag.name, tag.id]);
+      if (sameName.length > 0) {
+        tagIdMap.set(tag.id, String(sameName[0].id));
+        continue;
+      }
+      await db.execute(
+        "INSERT INTO tags (id, name, color) VALUES ($1,$2,$3) ON CONFLICT(id) DO UPDATE SET name = excluded.name, color = excluded.color",
+        [tag.id, tag.name, tag.color ?? null],
+      );
     }
 
     for (const tt of bundle.task_tags ?? []) {
       if (!tt?.task_id || !tt?.tag_id) continue;
-      await db.execute("INSERT OR REPLACE INTO task_tags (task_id, tag_id) VALUES ($1,$2)", [tt.task_id, tt.tag_id]);
+      await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1,$2)", [
+        tt.task_id,
+        tagIdMap.get(tt.tag_id) ?? tt.tag_id,
+      ]);
+    }
+
+    for (const st of bundle.subtasks ?? []) {
+      if (!st?.id || !st?.task_id || !st?.title) continue;
+      await db.execute(
+        `INSERT INTO subtasks (id, task_id, title, completed, sort_order, created_at) VALUES ($1,$2,$3,$4,$5,$6)
+         ON CONFLICT(id) DO UPDATE SET task_id = excluded.task_id, title = excluded.title, completed = excluded.completed,
+           sort_order = excluded.sort_order, created_at = excluded.created_at`,
+        [st.id, st.task_id, st.title, Number(st.completed ?? 0), Number(st.sort_order ?? 0), st.created_at ?? nowIso()],
+      );
+    }
+
+    for (const v of bundle.saved_views ?? []) {
+      if (!v?.id || !v?.name) continue;
+      // tag_ids may reference tags folded into local ones above.
+      let tagIds: string[] = [];
+      try {
+        tagIds = (JSON.parse(v.tag_ids ?? "[]") as string[]).map((id) => tagIdMap.get(id) ?? id);
+      } catch {
+        // keep empty
+      }
+      await db.execute(
+        `INSERT INTO saved_views (id, name, search, tag_ids, project_id, priority_min, due_from, due_to, include_completed, sort_order, created_at)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+         ON CONFLICT(id) DO UPDATE SET name = excluded.name, search = excluded.search, tag_ids = excluded.tag_ids,
+           project_id = excluded.project_id, priority_min = excluded.priority_min, due_from = excluded.due_from,
+           due_to = excluded.due_to, include_completed = excluded.include_completed, sort_order = excluded.sort_order,
+           created_at = excluded.created_at`,
+        [
+          v.id,
+          v.name,
+          v.search ?? "",
+          JSON.stringify(tagIds),
+          v.project_id ?? null,
+          v.priority_min ?? null,
+          v.due_from ?? null,
+          v.due_to ?? null,
+          Number(v.include_completed ?? 0),
+          Number(v.sort_order ?? 0),
+          v.created_at ?? nowIso(),
+        ],
+      );
+    }
+
+    for (const r of bundle.reminders ?? []) {
+      if (!r?.id || !r?.task_id || (r.at == null && r.offset_minutes == null)) continue;
+      await db.execute(
+        `INSERT INTO reminders (id, task_id, at, offset_minutes, snoozed_until, fired_for, created_at) VALUES ($1,$2,$3,$4,$5,$6,$7)
+         ON CONFLICT(id) DO UPDATE SET task_id = excluded.task_id, at = excluded.at, offset_minutes = excluded.offset_minutes,
+           snoozed_until = excluded.snoozed_until, fired_for = excluded.fired_for, created_at = excluded.created_at`,
+        [
+          r.id,
+          r.task_id,
+          r.at ?? null,
+          r.offset_minutes ?? null,
+          r.snoozed_until ?? null,
+          r.fired_for ?? null,
+          r.created_at ?? nowIso(),
+        ],
+      );
+    }
+
+    // Merging with local links could close a loop the app would have refused.
+    for (const dep of bundle.task_dependencies ?? []) {
+      if (!dep?.task_id || !dep?.blocked_by_id) continue;
+      if (await createsDependencyCycle(db, dep.task_id, dep.blocked_by_id)) continue;
+      await db.execute("INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id, created_at) VALUES ($1,$2,$3)", [
+        dep.task_id,
+        dep.blocked_by_id,
+        dep.created_at ?? nowIso(),
+      ]);
+    }
+
+    for (const a of bundle.attachments ?? []) {
+      if (!a?.id || !a?.task_id || !a?.target || (a.kind !== "file" && a.kind !== "url")) continue;
+      await db.execute(
+        `INSERT INTO attachments (id, task_id, kind, name, target, size, created_at) VALUES ($1,$2,$3,$4,$5,$6,$7)
+         ON CONFLICT(id) DO UPDATE SET task_id = excluded.task_id, kind = excluded.kind, name = excluded.name,
+           target = excluded.target, size = excluded.size, created_at = excluded.created_at`,
+        [a.id, a.task_id, a.kind, a.name || a.target, a.target, a.size ?? null, a.created_at ?? nowIso()],
+      );
+    }
+
+    // History is append-only: existing entries are kept as they are. Importing
+    // tasks also records their creation / changes through the triggers.
+    for (const ev of bundle.task_events ?? []) {
+      if (!ev?.id || !ev?.task_id || !ev?.kind || !ev?.created_at) continue;
+      await db.execute(
+        `INSERT INTO task_events (id, task_id, kind, field, old_value, new_value, created_at) VALUES ($1,$2,$3,$4,$5,$6,$7)
+         ON CONFLICT(id) DO NOTHING`,
+        [ev.id, ev.task_id, ev.kind, ev.field ?? null, ev.old_value ?? null, ev.new_value ?? null, ev.created_at],
+      );
     }
 
     await db.execute("COMMIT");
@@ -120,7 +279,7 @@ export async function exportToJsonFile(): Promise<string> {
   return path;
 }
 
-export async function importFromJsonFile(confirmMerge: () => Promise<boolean>): Promise<string> {
+export async function importFromJsonFile(): Promise<{ path: string; foundVersion: number }> {
   const picked = await open({
     title: "Import NeonTodo Backup",
     multiple: false,
@@ -131,13 +290,67 @@ export async function importFromJsonFile(confirmMerge: () => Promise<boolean>):
   const path = Array.isArray(picked) ? picked[0] : picked;
   if (!path) throw new Error("Import cancelled");
 
-  const ok = await confirmMerge();
-  if (!ok) throw new Error("Import cancelled");
-
   const json = await readTextFile(path);
-  const bundle = safeParseBackup(json);
+  const { bundle, foundVersion } = safeParseBackup(json);
 
   const db = await getDb();
-  await importBundle(db, bundle);
-  return path;
+  await withUndo("Import backup", () => importBundle(db, bundle));
+  return { path, foundVersion };
+}
+
+// A bundle is a zip holding backup.json plus every attached file under its
+// attachments/<id>/<name> path, so a restore on another machine is complete.
+const BUNDLE_JSON = "backup.json";
+
+export async function exportToBundleFile(): Promise<{ path: string; files: number; missing: number }> {
+  const path = await save({
+    title: "Export NeonTodo Bundle",
+    defaultPath: `neontodo-bundle-${new Date().toISOString().slice(0, 10)}.zip`,
+    filters: [{ name: "Zip archive", extensions: ["zip"] }],
+  });
+
+  if (!path) throw new Error("Export cancelled");
+
+  const db = await getDb();
+  const bundle = await exportBundle(db);
+  const entries: ZipEntry[] = [{ name: BUNDLE_JSON, data: new TextEncoder().encode(JSON.stringify(bundle, null, 2)) }];
+  let missing = 0;
+  for (const a of bundle.attachments) {
+    if (a.kind !== "file") continue;
+    const data = await readAttachmentFile(a.target);
+    if (data) entries.push({ name: a.target, data });
+    else missing++;
+  }
+  await writeFile(path, createZip(entries));
+  return { path, files: entries.length - 1, missing };
+}
+
+export async function importFromBundleFile(): Promise<{ path: string; foundVersion: number; files: number }> {
+  const picked = await open({
+    title: "Import NeonTodo Bundle",
+    multiple: false,
+    filters: [{ name: "Zip archive", extensions: ["zip"] }],
+  });
+
+  if (!picked) throw new Error("Import cancelled");
+  const path = Array.isArray(picked) ? picked[0] : picked;
+  if (!path) throw new Error("Import cancelled");
+
+  const entries = readZip(await readFile(path));
+  const json = entries.find((e) => e.name === BUNDLE_JSON);
+  if (!json) throw new Error(`Not a NeonTodo bundle: ${BUNDLE_JSON} is missing`);
+  const { bundle, foundVersion } = safeParseBackup(new TextDecoder().decode(json.data));
+
+  const db = await getDb();
+  await withUndo("Import backup", () => importBundle(db, bundle));
+
+  // Files go in after the rows commit; a failed import leaves no strays behind.
+  const wanted = new Set(bundle.attachments.filter((a) => a.kind === "file").map((a) => a.target));
+  let files = 0;
+  for (const e of entries) {
+    if (!wanted.has(e.name)) continue;
+    await writeAttachmentFile(e.name, e.data);
+    files++;
+  }
+  return { path, foundVersion, files };
 }
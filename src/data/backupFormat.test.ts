@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { BACKUP_VERSION, upgradeBackup, type BackupV1 } from "./backupFormat";
+
+const v1: BackupV1 = {
+  version: 1,
+  exportedAt: "2025-06-01T10:00:00.000Z",
+  projects: [{ id: "p1", name: "Inbox", color: null, icon: "inbox", sort_order: 0, created_at: "2025-05-01T10:00:00.000Z" }],
+  tasks: [
+    {
+      id: "t1",
+      project_id: "p1",
+      title: "Water plants",
+      notes: "",
+      completed: 1,
+      priority: 0,
+      due_at: "2025-06-02",
+      sort_order: 0,
+      created_at: "2025-05-01T10:00:00.000Z",
+      updated_at: "2025-05-03T10:00:00.000Z",
+    },
+  ],
+  tags: [{ id: "g1", name: "home" }],
+  task_tags: [{ task_id: "t1", tag_id: "g1" }],
+};
+
+describe("upgradeBackup", () => {
+  it("walks a first-release version 1 file up to the current version", () => {
+    const { bundle, foundVersion } = upgradeBackup(structuredClone(v1));
+    expect(foundVersion).toBe(1);
+    expect(bundle.version).toBe(BACKUP_VERSION);
+    expect(bundle.tasks[0]).toMatchObject({
+      id: "t1",
+      recurrence: null,
+      due_time: null,
+      start_at: null,
+      deleted_at: null,
+      completed_at: "2025-05-03T10:00:00.000Z",
+      column_id: null,
+    });
+    expect(bundle.projects[0]).toMatchObject({ parent_id: null, is_area: 0, archived_at: null, deleted_at: null });
+    expect(bundle.tags[0]).toEqual({ id: "g1", name: "home", color: null });
+    expect(bundle.subtasks).toEqual([]);
+    expect(bundle.saved_views).toEqual([]);
+    expect(bundle.attachments).toEqual([]);
+  });
+
+  it("keeps recurrence and subtasks from mixed 1.x files", () => {
+    const mixed = {
+      ...structuredClone(v1),
+      tasks: [{ ...v1.tasks[0], recurrence: "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO" }],
+      subtasks: [{ id: "s1", task_id: "t1", title: "Ferns", completed: 0, sort_order: 0, created_at: "2025-05-01T10:00:00.000Z" }],
+    };
+    const { bundle, foundVersion } = upgradeBackup(mixed);
+    expect(foundVersion).toBe(1);
+    expect(bundle.tasks[0].recurrence).toBe("FREQ=WEEKLY;INTERVAL=1;BYDAY=MO");
+    expect(bundle.subtasks).toEqual(mixed.subtasks);
+  });
+
+  it("rejects files it can't read", () => {
+    expect(() => upgradeBackup(null)).toThrow("Unsupported backup format");
+    expect(() => upgradeBackup({ ...v1, version: 0 })).toThrow("Unsupported backup format");
+    expect(() => upgradeBackup({ ...v1, version: BACKUP_VERSION + 1 })).toThrow(`this build reads up to version ${BACKUP_VERSION}`);
+    expect(() => upgradeBackup({ ...v1, tags: undefined })).toThrow('Backup is missing "tags"');
+  });
+});
@@ -0,0 +1,233 @@
+// Backup file formats. Every version ever written stays importable: a BackupVn
+// type is frozen once shipped, and upgradeBackup() walks older bundles forward
+// one version at a time. When the schema grows, add BackupVn+1, an upgrader
+// from Vn, and bump BACKUP_VERSION.
+
+export type BackupV1 = {
+  version: 1;
+  exportedAt: string;
+  projects: Array<{
+    id: string;
+    name: string;
+    color: string | null;
+    icon: string | null;
+    sort_order: number;
+    created_at: string;
+  }>;
+  tasks: Array<{
+    id: string;
+    project_id: string | null;
+    title: string;
+    notes: string;
+    completed: number;
+    priority: number;
+    due_at: string | null;
+    sort_order: number;
+    created_at: string;
+    updated_at: string;
+  }>;
+  tags: Array<{ id: string; name: string }>;
+  task_tags: Array<{ task_id: string; tag_id: string }>;
+};
+
+// Builds from between the first release and V2 shipped recurring tasks and
+// subtasks without bumping the version, so a "version 1" file may carry V2's
+// task recurrence and subtasks. BackupV1 stays the first release's shape; this
+// is what a version 1 file can actually contain.
+type BackupV1File = Omit<BackupV1, "tasks"> & {
+  tasks: Array<BackupV1["tasks"][number] & { recurrence?: string | null }>;
+  subtasks?: BackupV2["subtasks"];
+};
+
+// V2: recurrence rules and subtasks (migrations 002, 003).
+export type BackupV2 = Omit<BackupV1, "version" | "tasks"> & {
+  version: 2;
+  tasks: Array<BackupV1["tasks"][number] & { recurrence: string | null }>;
+  subtasks: Array<{
+    id: string;
+    task_id: string;
+    title: string;
+    completed: number;
+    sort_order: number;
+    created_at: string;
+  }>;
+};
+
+// V3: saved smart views (migration 006).
+export type BackupV3 = Omit<BackupV2, "version"> & {
+  version: 3;
+  saved_views: Array<{
+    id: string;
+    name: string;
+    search: string;
+    tag_ids: string; // JSON array
+    project_id: string | null;
+    priority_min: number | null;
+    due_from: string | null;
+    due_to: string | null;
+    include_completed: number;
+    sort_order: number;
+    created_at: string;
+  }>;
+};
+
+// V4: due time of day and start date on tasks (migration 007).
+export type BackupV4 = Omit<BackupV3, "version" | "tasks"> & {
+  version: 4;
+  tasks: Array<BackupV3["tasks"][number] & { due_time: string | null; start_at: string | null }>;
+};
+
+// V5: reminders (migration 008).
+export type BackupV5 = Omit<BackupV4, "version"> & {
+  version: 5;
+  reminders: Array<{
+    id: string;
+    task_id: string;
+    at: string | null;
+    offset_minutes: number | null;
+    snoozed_until: string | null;
+    fired_for: string | null;
+    created_at: string;
+  }>;
+};
+
+// V6: soft-deleted tasks and projects (migration 009).
+export type BackupV6 = Omit<BackupV5, "version" | "projects" | "tasks"> & {
+  version: 6;
+  projects: Array<BackupV5["projects"][number] & { deleted_at: string | null }>;
+  tasks: Array<BackupV5["tasks"][number] & { deleted_at: string | null }>;
+};
+
+// V7: task activity history (migration 010).
+export type BackupV7 = Omit<BackupV6, "version"> & {
+  version: 7;
+  task_events: Array<{
+    id: string;
+    task_id: string;
+    kind: string;
+    field: string | null;
+    old_value: string | null;
+    new_value: string | null;
+    created_at: string;
+  }>;
+};
+
+// V8: completion timestamp on tasks (migration 011).
+export type BackupV8 = Omit<BackupV7, "version" | "tasks"> & {
+  version: 8;
+  tasks: Array<BackupV7["tasks"][number] & { completed_at: string | null }>;
+};
+
+// V9: kanban columns per project and each task's column (migration 012).
+export type BackupV9 = Omit<BackupV8, "version" | "tasks"> & {
+  version: 9;
+  board_columns: Array<{
+    id: string;
+    project_id: string;
+    name: string;
+    sort_order: number;
+    is_done: number;
+    created_at: string;
+  }>;
+  tasks: Array<BackupV8["tasks"][number] & { column_id: string | null }>;
+};
+
+// V10: blocked-by links between tasks (migration 013).
+export type BackupV10 = Omit<BackupV9, "version"> & {
+  version: 10;
+  task_dependencies: Array<{ task_id: string; blocked_by_id: string; created_at: string }>;
+};
+
+// V11: nested projects, areas and archiving (migration 014).
+export type BackupV11 = Omit<BackupV10, "version" | "projects"> & {
+  version: 11;
+  projects: Array<BackupV10["projects"][number] & { parent_id: string | null; is_area: number; archived_at: string | null }>;
+};
+
+// V12: tag colors (migration 015).
+export type BackupV12 = Omit<BackupV11, "version" | "tags"> & {
+  version: 12;
+  tags: Array<BackupV11["tags"][number] & { color: string | null }>;
+};
+
+// V13: task attachments (migration 016). File rows point at copies that only a
+// zip bundle carries (as attachments/<id>/<name>); a plain JSON backup restores
+// the rows, and their files show as missing until a bundle brings them back.
+export type BackupV13 = Omit<BackupV12, "version"> & {
+  version: 13;
+  attachments: Array<{
+    id: string;
+    task_id: string;
+    kind: "file" | "url";
+    name: string;
+    target: string;
+    size: number | null;
+    created_at: string;
+  }>;
+};
+
+export type Backup = BackupV13;
+export const BACKUP_VERSION = 13;
+
+const UPGRADES: Record<number, (bundle: any) => any> = {
+  // Keeps the recurrence and subtasks of mixed 1.x files (BackupV1File).
+  1: (b: BackupV1File): BackupV2 => ({
+    ...b,
+    version: 2,
+    tasks: b.tasks.map((t) => ({ ...t, recurrence: t.recurrence ?? null })),
+    subtasks: b.subtasks ?? [],
+  }),
+  2: (b: BackupV2): BackupV3 => ({ ...b, version: 3, saved_views: [] }),
+  3: (b: BackupV3): BackupV4 => ({
+    ...b,
+    version: 4,
+    tasks: b.tasks.map((t) => ({ ...t, due_time: null, start_at: null })),
+  }),
+  4: (b: BackupV4): BackupV5 => ({ ...b, version: 5, reminders: [] }),
+  5: (b: BackupV5): BackupV6 => ({
+    ...b,
+    version: 6,
+    projects: b.projects.map((p) => ({ ...p, deleted_at: null })),
+    tasks: b.tasks.map((t) => ({ ...t, deleted_at: null })),
+  }),
+  6: (b: BackupV6): BackupV7 => ({ ...b, version: 7, task_events: [] }),
+  // Same fallback as migration 011: the last update of a completed task.
+  7: (b: BackupV7): BackupV8 => ({
+    ...b,
+    version: 8,
+    tasks: b.tasks.map((t) => ({ ...t, completed_at: Number(t.completed) ? t.updated_at : null })),
+  }),
+  8: (b: BackupV8): BackupV9 => ({
+    ...b,
+    version: 9,
+    board_columns: [],
+    tasks: b.tasks.map((t) => ({ ...t, column_id: null })),
+  }),
+  9: (b: BackupV9): BackupV10 => ({ ...b, version: 10, task_dependencies: [] }),
+  10: (b: BackupV10): BackupV11 => ({
+    ...b,
+    version: 11,
+    projects: b.projects.map((p) => ({ ...p, parent_id: null, is_area: 0, archived_at: null })),
+  }),
+  11: (b: BackupV11): BackupV12 => ({ ...b, version: 12, tags: b.tags.map((t) => ({ ...t, color: null })) }),
+  12: (b: BackupV12): BackupV13 => ({ ...b, version: 13, attachments: [] }),
+};
+
+export function upgradeBackup(data: unknown): { bundle: Backup; foundVersion: number } {
+  const raw = data as { version?: unknown } | null;
+  const foundVersion = Number(raw?.version);
+  if (!raw || !Number.isInteger(foundVersion) || foundVersion < 1) throw new Error("Unsupported backup format");
+  if (foundVersion > BACKUP_VERSION) {
+    throw new Error(`Backup is version ${foundVersion}; this build reads up to version ${BACKUP_VERSION}. Update NeonTodo first.`);
+  }
+
+  for (const key of ["projects", "tasks", "tags", "task_tags"]) {
+    if (!Array.isArray((raw as Record<string, unknown>)[key])) throw new Error(`Backup is missing "${key}"`);
+  }
+
+  let bundle: any = raw;
+  for (let v = foundVersion; v < BACKUP_VERSION; v++) {
+    bundle = UPGRADES[v](bundle);
+  }
+  return { bundle: bundle as Backup, foundVersion };
+}
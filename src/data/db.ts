@@ -0,0 +1,15 @@
+import Database from "@tauri-apps/plugin-sql";
+
+export type SqlDb = {
+  execute: (query: string, bindValues?: unknown[]) => Promise<{ rowsAffected: number; lastInsertId?: number }>;
+  select: <T = unknown>(query: string, bindValues?: unknown[]) => Promise<T[]>;
+};
+
+let dbPromise: Promise<SqlDb> | null = null;
+
+export async function getDb(): Promise<SqlDb> {
+  if (!dbPromise) {
+    dbPromise = Database.load("sqlite:neontodo.db") as Promise<SqlDb>;
+  }
+  return dbPromise;
+}
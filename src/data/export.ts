@@ -0,0 +1,58 @@
+import { save } from "@tauri-apps/plugin-dialog";
+import { writeTextFile } from "@tauri-apps/plugin-fs";
+import { nowTimeOfDay, todayIsoDate } from "../lib/date";
+import { tasksToCsv, tasksToMarkdown, type ExportTask } from "../lib/taskExport";
+import type { Task } from "../types";
+import { listArchivedProjects, listProjects, listTaskDetailsForExport, listTasksForExport } from "./repo";
+
+// Markdown / CSV exports (see lib/taskExport.ts). The current-view scope takes
+// the tasks the list is showing, so the export matches the screen exactly.
+
+export type ExportFormat = "markdown" | "csv";
+
+export type ExportScope =
+  | { kind: "all" }
+  | { kind: "view"; title: string; tasks: Task[] }
+  | { kind: "project"; projectId: string };
+
+function slug(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "tasks"
+  );
+}
+
+export async function exportTasksToFile(format: ExportFormat, scope: ExportScope): Promise<{ path: string; count: number }> {
+  const projects = [...(await listProjects()), ...(await listArchivedProjects())];
+  const title =
+    scope.kind === "all"
+      ? "All tasks"
+      : scope.kind === "view"
+      ? scope.title
+      : projects.find((p) => p.id === scope.projectId)?.name ?? "Project";
+
+  const ext = format === "markdown" ? "md" : "csv";
+  const path = await save({
+    title: format === "markdown" ? "Export Markdown" : "Export CSV",
+    defaultPath: `neontodo-${slug(title)}-${new Date().toISOString().slice(0, 10)}.${ext}`,
+    filters: [format === "markdown" ? { name: "Markdown", extensions: ["md"] } : { name: "CSV", extensions: ["csv"] }],
+  });
+
+  if (!path) throw new Error("Export cancelled");
+
+  const tasks = scope.kind === "view" ? scope.tasks : await listTasksForExport(scope.kind === "project" ? scope.projectId : null);
+  const details = await listTaskDetailsForExport();
+  const rows: ExportTask[] = tasks.map((t) => ({
+    ...t,
+    tags: details.tags.get(t.id) ?? [],
+    subtasks: details.subtasks.get(t.id) ?? [],
+    attachments: details.attachments.get(t.id) ?? [],
+  }));
+
+  const text = format === "markdown" ? tasksToMarkdown(title, rows, projects, `${todayIsoDate()} ${nowTimeOfDay()}`) : tasksToCsv(rows, projects);
+  await writeTextFile(path, text);
+  return { path, count: rows.length };
+}
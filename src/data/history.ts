@@ -0,0 +1,188 @@
+import { getDb, type SqlDb } from "./db";
+
+// Undo/redo via an SQLite undo log: triggers on every tracked table write the
+// inverse statement of each INSERT/UPDATE/DELETE into `undolog`. A user action
+// is the range of log entries written while it ran. Undoing replays that range
+// newest-first; the replay is logged by the same triggers, which yields the
+// range for redo (and vice versa).
+
+const TRACKED_TABLES = ["projects", "tasks", "tags", "task_tags", "subtasks", "saved_views", "reminders", "board_columns", "task_dependencies", "attachments"];
+const MAX_STEPS = 100;
+// Bookkeeping columns written outside any step (the reminder scheduler's
+// fired_for). An update that changes only these is not logged, so undo can't
+// roll them back and they can't land inside someone else's step.
+const UNLOGGED_COLUMNS: Record<string, string[]> = { reminders: ["fired_for"] };
+
+type Step = { label: string; begin: number; end: number };
+
+export type HistoryState = { undoLabel: string | null; redoLabel: string | null };
+
+let undoStack: Step[] = [];
+let redoStack: Step[] = [];
+// Steps, undo and redo run strictly one after another, so a step's seq range
+// only ever holds rows its own mutation wrote.
+let queue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<(state: HistoryState) => void>();
+
+export function getHistoryState(): HistoryState {
+  return {
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+  };
+}
+
+export function subscribeHistory(listener: (state: HistoryState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function emit(): void {
+  const state = getHistoryState();
+  listeners.forEach((l) => l(state));
+}
+
+async function lastSeq(db: SqlDb): Promise<number> {
+  const rows = await db.select<{ seq: number }>("SELECT COALESCE(MAX(seq), 0) AS seq FROM undolog");
+  return Number(rows?.[0]?.seq ?? 0);
+}
+
+function sqlText(s: string): string {
+  return `'${s.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Regenerates the undo triggers from the current table columns and clears the
+ * log. History is per session; it does not survive a restart.
+ */
+export async function installUndoTriggers(db: SqlDb): Promise<void> {
+  undoStack = [];
+  redoStack = [];
+  await db.execute("DELETE FROM undolog");
+
+  for (const table of TRACKED_TABLES) {
+    const cols = await db.select<{ name: string; pk: number }>(`PRAGMA table_info(${table})`);
+    if (cols.length === 0) continue;
+    const names = cols.map((c) => String(c.name));
+    const keys = cols
+      .filter((c) => Number(c.pk) > 0)
+      .sort((a, b) => Number(a.pk) - Number(b.pk))
+      .map((c) => String(c.name));
+    const where = (ref: string) =>
+      keys.map((k, i) => `${sqlText(`${i === 0 ? " WHERE " : " AND "}${k}=`)} || quote(${ref}.${k})`).join(" || ");
+
+    const onInsert = `${sqlText(`DELETE FROM ${table}`)} || ${where("NEW")}`;
+    // Keyed by NEW so updates that change key columns (e.g. re-pointed task_tags) still invert.
+    const onUpdate = `${sqlText(`UPDATE ${table} SET `)} || ${names
+      .map((c, i) => `${sqlText(`${i === 0 ? "" : ","}${c}=`)} || quote(OLD.${c})`)
+      .join(" || ")} || ${where("NEW")}`;
+    const onDelete = `${sqlText(`INSERT INTO ${table} (${names.join(", ")}) VALUES (`)} || ${names
+      .map((c, i) => `${i === 0 ? "" : "',' || "}quote(OLD.${c})`)
+      .join(" || ")} || ')'`;
+
+    const unlogged = UNLOGGED_COLUMNS[table] ?? [];
+    const updateWhen = unlogged.length
+      ? ` WHEN ${names
+          .filter((c) => !unlogged.includes(c))
+          .map((c) => `OLD.${c} IS NOT NEW.${c}`)
+          .join(" OR ")}`
+      : "";
+
+    for (const [suffix, timing, body] of [
+      ["insert", "AFTER INSERT", onInsert],
+      ["update", "AFTER UPDATE", onUpdate],
+      ["delete", "BEFORE DELETE", onDelete],
+    ]) {
+      const when = suffix === "update" ? updateWhen : "";
+      await db.execute(`DROP TRIGGER IF EXISTS undo_${table}_${suffix}`);
+      await db.execute(
+        `CREATE TRIGGER undo_${table}_${suffix} ${timing} ON ${table}${when} BEGIN INSERT INTO undolog (sql) VALUES (${body}); END`,
+      );
+    }
+  }
+  emit();
+}
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Runs a mutation as one undoable step, after any step already in flight.
+ * `fn` must not call withUndo itself (it would wait on its own step); a
+ * composite action is one repo function that does all of its writes.
+ */
+export async function withUndo<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  return serialize(async () => {
+    const db = await getDb();
+    const begin = await lastSeq(db);
+    const result = await fn();
+    const end = await lastSeq(db);
+    if (end > begin) {
+      for (const step of redoStack) {
+        await db.execute("DELETE FROM undolog WHERE seq BETWEEN $1 AND $2", [step.begin, step.end]);
+      }
+      redoStack = [];
+      undoStack.push({ label, begin: begin + 1, end });
+      while (undoStack.length > MAX_STEPS) {
+        const dropped = undoStack.shift()!;
+        await db.execute("DELETE FROM undolog WHERE seq <= $1", [dropped.end]);
+      }
+      emit();
+    }
+    return result;
+  });
+}
+
+async function replay(db: SqlDb, step: Step): Promise<Step> {
+  const rows = await db.select<{ sql: string }>(
+    "SELECT sql FROM undolog WHERE seq BETWEEN $1 AND $2 ORDER BY seq DESC",
+    [step.begin, step.end],
+  );
+  const begin = await lastSeq(db);
+  await db.execute("BEGIN");
+  try {
+    // Cascaded child rows are logged after their parent, so they replay first.
+    await db.execute("PRAGMA defer_foreign_keys = ON");
+    for (const r of rows) {
+      await db.execute(String(r.sql));
+    }
+    await db.execute("DELETE FROM undolog WHERE seq BETWEEN $1 AND $2", [step.begin, step.end]);
+    await db.execute("COMMIT");
+  } catch (e) {
+    await db.execute("ROLLBACK");
+    throw e;
+  }
+  const end = await lastSeq(db);
+  return { label: step.label, begin: begin + 1, end };
+}
+
+async function move(from: Step[], to: Step[]): Promise<string | null> {
+  return serialize(async () => {
+    const step = from.pop();
+    if (!step) return null;
+    try {
+      const db = await getDb();
+      to.push(await replay(db, step));
+      return step.label;
+    } catch (e) {
+      from.push(step);
+      throw e;
+    } finally {
+      emit();
+    }
+  });
+}
+
+/** Reverts the most recent step. Returns its label, or null if there was nothing to undo. */
+export async function undo(): Promise<string | null> {
+  return move(undoStack, redoStack);
+}
+
+/** Re-applies the most recently undone step. */
+export async function redo(): Promise<string | null> {
+  return move(redoStack, undoStack);
+}
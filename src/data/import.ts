@@ -0,0 +1,28 @@
+import { open } from "@tauri-apps/plugin-dialog";
+import { readTextFile } from "@tauri-apps/plugin-fs";
+import { detectImportFormat, parseImport, type ImportPlan } from "../lib/importFormats";
+
+// Reading another app's export (see lib/importFormats.ts). Nothing is written
+// here: the plan goes to the preview first, and repo importTasks applies it.
+
+export type PendingImport = { path: string; fileName: string; plan: ImportPlan };
+
+export async function readImportFile(): Promise<PendingImport> {
+  const picked = await open({
+    title: "Import tasks",
+    multiple: false,
+    filters: [{ name: "todo.txt, Todoist CSV, TaskPaper", extensions: ["txt", "csv", "taskpaper", "todo"] }],
+  });
+
+  if (!picked) throw new Error("Import cancelled");
+  const path = Array.isArray(picked) ? picked[0] : picked;
+  if (!path) throw new Error("Import cancelled");
+
+  const fileName = path.split(/[\\/]/).pop() ?? path;
+  const text = await readTextFile(path);
+  const format = detectImportFormat(fileName, text);
+  if (!format) throw new Error(`"${fileName}" doesn't look like a todo.txt, Todoist CSV or TaskPaper file`);
+  const plan = parseImport(format, text, fileName);
+  if (plan.tasks.length === 0) throw new Error(`No tasks found in "${fileName}"`);
+  return { path, fileName, plan };
+}
@@ -0,0 +1,133 @@
+import { isPermissionGranted, requestPermission, sendNotification } from "@tauri-apps/plugin-notification";
+import { formatDue, localDateTime } from "../lib/date";
+import { isReminderDue, reminderFireAt } from "../lib/reminders";
+import type { Reminder, Task } from "../types";
+import { listActiveReminders, markReminderFired } from "./repo";
+
+// Front-end reminder scheduler. It sleeps until the next fire time (re-checking
+// at least every minute, so clock, timezone and sleep/wake changes are noticed),
+// then sends native notifications for every reminder that is due. Reminders that
+// came due while the app was closed fire on the first check after start-up.
+//
+// Desktop notifications can't carry action buttons, so snooze / done are offered
+// in the app (see FiredReminder) rather than on the notification itself.
+
+export type FiredReminder = {
+  reminder: Reminder;
+  task: Pick<Task, "id" | "title" | "dueAt" | "dueTime">;
+  fireAt: string;
+};
+
+const MAX_SLEEP_MS = 60_000;
+// Past this many at once (typically a catch-up after start-up), send one summary notification.
+const MAX_INDIVIDUAL_NOTIFICATIONS = 3;
+
+let permission: Promise<boolean> | null = null;
+
+function notificationsAllowed(): Promise<boolean> {
+  permission ??= (async () => {
+    try {
+      if (await isPermissionGranted()) return true;
+      return (await requestPermission()) === "granted";
+    } catch {
+      return false; // not running in Tauri, or the platform has no notification service
+    }
+  })();
+  return permission;
+}
+
+function notify(fired: FiredReminder[]): void {
+  if (fired.length > MAX_INDIVIDUAL_NOTIFICATIONS) {
+    sendNotification({
+      title: `${fired.length} reminders`,
+      body: fired.map((f) => `• ${f.task.title}`).join("\n"),
+    });
+    return;
+  }
+  for (const f of fired) {
+    sendNotification({
+      title: f.task.title,
+      body: f.task.dueAt ? `Due ${formatDue(f.task.dueAt, f.task.dueTime)}` : "Reminder",
+    });
+  }
+}
+
+/** Fires everything due now. Returns what fired and when the next reminder is due, if any. */
+async function check(): Promise<{ fired: FiredReminder[]; nextAt: string | null }> {
+  const now = localDateTime(new Date());
+  const fired: FiredReminder[] = [];
+  let nextAt: string | null = null;
+
+  for (const { reminder, task } of await listActiveReminders()) {
+    const fireAt = reminderFireAt(reminder, task);
+    if (!fireAt) continue;
+    if (isReminderDue(reminder, task, now)) {
+      await markReminderFired(reminder.id, fireAt);
+      fired.push({ reminder: { ...reminder, firedFor: fireAt }, task, fireAt });
+    } else if (fireAt > now && (nextAt === null || fireAt < nextAt)) {
+      nextAt = fireAt;
+    }
+  }
+
+  if (fired.length > 0 && (await notificationsAllowed())) notify(fired);
+  return { fired, nextAt };
+}
+
+/**
+ * Starts the scheduler; `onFire` gets each batch of reminders that fired.
+ * Returns `stop` plus `poke`, which re-checks now (call it after reminders or
+ * due dates change so the sleep is recomputed).
+ */
+export function startReminderScheduler(
+  onFire: (fired: FiredReminder[]) => void,
+  onError: (e: unknown) => void,
+): { stop: () => void; poke: () => void } {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  let running = false;
+  let again = false;
+
+  async function run(): Promise<void> {
+    if (stopped) return;
+    if (running) {
+      again = true;
+      return;
+    }
+    running = true;
+    if (timer) clearTimeout(timer);
+    let sleep = MAX_SLEEP_MS;
+    try {
+      const { fired, nextAt } = await check();
+      if (fired.length > 0) onFire(fired);
+      if (nextAt) {
+        // Fire times are whole minutes; wake at the start of that minute.
+        const next = new Date(`${nextAt}:00`).getTime();
+        sleep = Math.min(MAX_SLEEP_MS, Math.max(1_000, next - Date.now()));
+      }
+    } catch (e) {
+      onError(e);
+    } finally {
+      running = false;
+    }
+    if (stopped) return;
+    if (again) {
+      again = false;
+      void run();
+      return;
+    }
+    timer = setTimeout(() => void run(), sleep);
+  }
+
+  const onWake = () => void run();
+  window.addEventListener("focus", onWake);
+  void run();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      window.removeEventListener("focus", onWake);
+    },
+    poke: onWake,
+  };
+}
@@ -1,20 +1,15 @@
-import Database from "@tauri-apps/plugin-sql";
-import { nowIso, todayIsoDate } from "../lib/date";
-import type { Project, SmartView, Tag, Task } from "../types";
-
-export type SqlDb = {
-  execute: (query: string, bindValues?: unknown[]) => Promise<{ rowsAffected: number; lastInsertId?: number }>;
-  select: <T = unknown>(query: string, bindValues?: unknown[]) => Promise<T[]>;
-};
-
-let dbPromise: Promise<SqlDb> | null = null;
-
-export async function getDb(): Promise<SqlDb> {
-  if (!dbPromise) {
-    dbPromise = Database.load("sqlite:neontodo.db") as Promise<SqlDb>;
-  }
-  return dbPromise;
-}
+import { daysBetween, nowIso, nowTimeOfDay, parseIsoDate, shiftIsoDate, todayIsoDate } from "../lib/date";
+import { HL_END, HL_START, toFtsQuery } from "../lib/ftsQuery";
+import { importProjectKey, type ImportedTask } from "../lib/importFormats";
+import { nextOccurrence, parseRecurrence } from "../lib/recurrence";
+import { DEFAULT_BOARD_COLUMNS } from "../lib/board";
+import { isInboxProject } from "../lib/projectTree";
+import { INBOX_ICON, isHexColor, nextProjectColor, PROJECT_ICONS } from "../lib/projectStyle";
+import type { SearchFilter } from "../lib/searchQuery";
+import type { StatsTask } from "../lib/stats";
+import type { Attachment, BoardColumn, Project, Reminder, SavedView, SmartView, Subtask, Tag, Task, TaskEvent, TaskLink } from "../types";
+import { getDb, type SqlDb } from "./db";
+import { installUndoTriggers, withUndo } from "./history";
 
 export async function initDb(): Promise<void> {
   const db = await getDb();
@@ -25,9 +20,10 @@ export async function initDb(): Promise<void> {
     const id = crypto.randomUUID();
     await db.execute(
       "INSERT INTO projects (id, name, color, icon, sort_order, created_at) VALUES ($1, $2, $3, $4, $5, $6)",
-      [id, "Inbox", "#29f0ff", "inbox", 0, nowIso()],
+      [id, "Inbox", "#29f0ff", INBOX_ICON, 0, nowIso()],
     );
   }
+  await installUndoTriggers(db);
 }
 
 function mapProject(row: any): Project {
@@ -38,6 +34,10 @@ function mapProject(row: any): Project {
     icon: row.icon ?? null,
     sortOrder: Number(row.sort_order ?? 0),
     createdAt: String(row.created_at),
+    parentId: row.parent_id ?? null,
+    isArea: Boolean(row.is_area),
+    archivedAt: row.archived_at ?? null,
+    deletedAt: row.deleted_at ?? null,
   };
 }
 
@@ -50,152 +50,644 @@ function mapTask(row: any): Task {
     completed: Boolean(row.completed),
     priority: Number(row.priority ?? 0),
     dueAt: row.due_at ?? null,
+    dueTime: row.due_time ?? null,
+    startAt: row.start_at ?? null,
+    recurrence: row.recurrence ?? null,
     sortOrder: Number(row.sort_order ?? 0),
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
+    completedAt: row.completed_at ?? null,
+    columnId: row.column_id ?? null,
+    deletedAt: row.deleted_at ?? null,
+    subtaskCount: Number(row.subtask_count ?? 0),
+    subtaskDone: Number(row.subtask_done ?? 0),
+    openBlockers: Number(row.open_blockers ?? 0),
+    attachmentCount: Number(row.attachment_count ?? 0),
+    match:
+      row.title_hl != null
+        ? {
+            title: String(row.title_hl),
+            notes: row.notes_snippet && String(row.notes_snippet).includes(HL_START) ? String(row.notes_snippet) : null,
+          }
+        : null,
+  };
+}
+
+function parseTagIds(raw: unknown): string[] {
+  try {
+    const parsed = JSON.parse(String(raw ?? "[]"));
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Malformed tag list; treat as no tag filter.
+  }
+  return [];
+}
+
+function mapSavedView(row: any): SavedView {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    search: String(row.search ?? ""),
+    tagIds: parseTagIds(row.tag_ids),
+    projectId: row.project_id ?? null,
+    priorityMin: row.priority_min === null || row.priority_min === undefined ? null : Number(row.priority_min),
+    dueFrom: row.due_from ?? null,
+    dueTo: row.due_to ?? null,
+    includeCompleted: Boolean(row.include_completed),
+    sortOrder: Number(row.sort_order ?? 0),
+    createdAt: String(row.created_at),
   };
 }
 
+function mapBoardColumn(row: any): BoardColumn {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    name: String(row.name),
+    sortOrder: Number(row.sort_order ?? 0),
+    isDone: Boolean(row.is_done),
+    createdAt: String(row.created_at),
+  };
+}
+
+function mapTaskEvent(row: any): TaskEvent {
+  return {
+    id: String(row.id),
+    taskId: String(row.task_id),
+    kind: row.kind,
+    field: row.field ?? null,
+    oldValue: row.old_value === null || row.old_value === undefined ? null : String(row.old_value),
+    newValue: row.new_value === null || row.new_value === undefined ? null : String(row.new_value),
+    createdAt: String(row.created_at),
+  };
+}
+
+function mapSubtask(row: any): Subtask {
+  return {
+    id: String(row.id),
+    taskId: String(row.task_id),
+    title: String(row.title),
+    completed: Boolean(row.completed),
+    sortOrder: Number(row.sort_order ?? 0),
+    createdAt: String(row.created_at),
+  };
+}
+
+function mapAttachment(row: any): Attachment {
+  return {
+    id: String(row.id),
+    taskId: String(row.task_id),
+    kind: row.kind === "file" ? "file" : "url",
+    name: String(row.name),
+    target: String(row.target),
+    size: row.size === null || row.size === undefined ? null : Number(row.size),
+    createdAt: String(row.created_at),
+  };
+}
+
+function mapReminder(row: any): Reminder {
+  return {
+    id: String(row.id),
+    taskId: String(row.task_id),
+    at: row.at ?? null,
+    offsetMinutes: row.offset_minutes === null || row.offset_minutes === undefined ? null : Number(row.offset_minutes),
+    snoozedUntil: row.snoozed_until ?? null,
+    firedFor: row.fired_for ?? null,
+    createdAt: String(row.created_at),
+  };
+}
+
+const PROJECT_COLUMNS = "id, name, color, icon, sort_order, created_at, parent_id, is_area, archived_at, deleted_at";
+
+/** Live projects: not archived, not in Trash. */
 export async function listProjects(): Promise<Project[]> {
   const db = await getDb();
   const rows = await db.select(
-    "SELECT id, name, color, icon, sort_order, created_at FROM projects ORDER BY sort_order ASC, created_at ASC",
+    `SELECT ${PROJECT_COLUMNS} FROM projects WHERE deleted_at IS NULL AND archived_at IS NULL ORDER BY sort_order ASC, created_at ASC`,
   );
   return rows.map(mapProject);
 }
 
+export async function listArchivedProjects(): Promise<Project[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    `SELECT ${PROJECT_COLUMNS} FROM projects WHERE deleted_at IS NULL AND archived_at IS NOT NULL ORDER BY archived_at DESC, sort_order ASC`,
+  );
+  return rows.map(mapProject);
+}
+
+/** Open task counts per project (own tasks only; lib/projectTree.ts rolls them up). */
+export async function countOpenTasksByProject(): Promise<Map<string, number>> {
+  const db = await getDb();
+  const rows = await db.select<{ project_id: string; n: number }>(
+    "SELECT project_id, COUNT(*) AS n FROM tasks WHERE completed = 0 AND deleted_at IS NULL AND project_id IS NOT NULL GROUP BY project_id",
+  );
+  return new Map(rows.map((r) => [String(r.project_id), Number(r.n)] as const));
+}
+
+function mapTag(row: any): Tag {
+  return { id: String(row.id), name: String(row.name), color: row.color ?? null };
+}
+
 export async function listTags(): Promise<Tag[]> {
   const db = await getDb();
-  const rows = await db.select<{ id: string; name: string }>("SELECT id, name FROM tags ORDER BY name ASC");
-  return rows.map((r) => ({ id: String(r.id), name: String(r.name) }));
+  const rows = await db.select("SELECT id, name, color FROM tags ORDER BY name ASC");
+  return rows.map(mapTag);
 }
 
-export async function ensureTag(nameRaw: string): Promise<Tag> {
+/** How many tasks outside Trash carry each tag. Tags missing from the map are unused. */
+export async function countTagUsage(): Promise<Map<string, number>> {
   const db = await getDb();
+  const rows = await db.select<{ tag_id: string; n: number }>(
+    `SELECT tt.tag_id, COUNT(*) AS n FROM task_tags tt INNER JOIN tasks t ON t.id = tt.task_id
+     WHERE t.deleted_at IS NULL GROUP BY tt.tag_id`,
+  );
+  return new Map(rows.map((r) => [String(r.tag_id), Number(r.n)] as const));
+}
+
+/** Rewrites the tag_ids of every saved view through `fn` (merges and deletes keep views pointing at real tags). */
+async function rewriteSavedViewTags(db: SqlDb, fn: (ids: string[]) => string[]): Promise<void> {
+  const rows = await db.select<{ id: string; tag_ids: string }>("SELECT id, tag_ids FROM saved_views");
+  for (const row of rows) {
+    const before = parseTagIds(row.tag_ids);
+    const after = [...new Set(fn(before))];
+    if (after.join() === before.join()) continue;
+    await db.execute("UPDATE saved_views SET tag_ids = $1 WHERE id = $2", [JSON.stringify(after), row.id]);
+  }
+}
+
+export async function renameTag(tagId: string, nameRaw: string): Promise<void> {
+  return withUndo("Rename tag", async () => {
+    const db = await getDb();
+    const name = nameRaw.trim().replace(/^#/, "");
+    if (!name) throw new Error("Tag name required");
+    const taken = await db.select<{ id: string }>("SELECT id FROM tags WHERE name = $1 AND id <> $2", [name, tagId]);
+    if (taken.length > 0) throw new Error(`A tag named "${name}" already exists; merge the two instead`);
+    await db.execute("UPDATE tags SET name = $1 WHERE id = $2", [name, tagId]);
+  });
+}
+
+/** Folds `sourceId` into `targetId`: its tasks get the target tag, then the source tag is deleted. */
+export async function mergeTags(sourceId: string, targetId: string): Promise<void> {
+  if (sourceId === targetId) return;
+  return withUndo("Merge tags", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) SELECT task_id, $1 FROM task_tags WHERE tag_id = $2", [
+        targetId,
+        sourceId,
+      ]);
+      await rewriteSavedViewTags(db, (ids) => ids.map((id) => (id === sourceId ? targetId : id)));
+      await db.execute("DELETE FROM tags WHERE id = $1", [sourceId]);
+    });
+  });
+}
+
+export async function setTagColor(tagId: string, color: string | null): Promise<void> {
+  return withUndo("Recolor tag", async () => {
+    const db = await getDb();
+    if (color !== null && !isHexColor(color)) throw new Error(`"${color}" is not a #rrggbb color`);
+    await db.execute("UPDATE tags SET color = $1 WHERE id = $2", [color, tagId]);
+  });
+}
+
+/** Deletes a tag, removing it from its tasks and from saved views. */
+export async function deleteTag(tagId: string): Promise<void> {
+  return withUndo("Delete tag", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      await rewriteSavedViewTags(db, (ids) => ids.filter((id) => id !== tagId));
+      await db.execute("DELETE FROM tags WHERE id = $1", [tagId]);
+    });
+  });
+}
+
+/**
+ * Deletes tags no task carries, counting tasks in Trash (a restore would bring
+ * the tag back) and skipping tags a saved view filters on. Returns how many went.
+ */
+export async function deleteUnusedTags(): Promise<number> {
+  return withUndo("Clean up tags", async () => {
+    const db = await getDb();
+    const views = await db.select<{ tag_ids: string }>("SELECT tag_ids FROM saved_views");
+    const keep = new Set(views.flatMap((v) => parseTagIds(v.tag_ids)));
+    const unused = (await db.select<{ id: string }>("SELECT id FROM tags WHERE id NOT IN (SELECT tag_id FROM task_tags)"))
+      .map((r) => String(r.id))
+      .filter((id) => !keep.has(id));
+    if (unused.length === 0) return 0;
+    const binds: unknown[] = [];
+    await db.execute(`DELETE FROM tags WHERE id IN (${bindList(binds, unused)})`, binds);
+    return unused.length;
+  });
+}
+
+async function ensureTagRow(db: SqlDb, nameRaw: string): Promise<Tag> {
   const name = nameRaw.trim();
   if (!name) throw new Error("Tag name required");
-  const existing = await db.select<{ id: string; name: string }>("SELECT id, name FROM tags WHERE name = $1", [name]);
-  if (existing.length > 0) return { id: String(existing[0].id), name: String(existing[0].name) };
+  const existing = await db.select("SELECT id, name, color FROM tags WHERE name = $1", [name]);
+  if (existing.length > 0) return mapTag(existing[0]);
 
   const id = crypto.randomUUID();
   await db.execute("INSERT INTO tags (id, name) VALUES ($1, $2)", [id, name]);
-  return { id, name };
+  return { id, name, color: null };
+}
+
+export async function ensureTag(nameRaw: string): Promise<Tag> {
+  return withUndo("Add tag", async () => ensureTagRow(await getDb(), nameRaw));
 }
 
 export async function getTaskTags(taskId: string): Promise<Tag[]> {
   const db = await getDb();
-  const rows = await db.select<{ id: string; name: string }>(
-    "SELECT tags.id AS id, tags.name AS name FROM tags INNER JOIN task_tags ON task_tags.tag_id = tags.id WHERE task_tags.task_id = $1 ORDER BY tags.name ASC",
+  const rows = await db.select(
+    "SELECT tags.id AS id, tags.name AS name, tags.color AS color FROM tags INNER JOIN task_tags ON task_tags.tag_id = tags.id WHERE task_tags.task_id = $1 ORDER BY tags.name ASC",
     [taskId],
   );
-  return rows.map((r) => ({ id: String(r.id), name: String(r.name) }));
+  return rows.map(mapTag);
 }
 
 export async function attachTagToTask(taskId: string, tagId: string): Promise<void> {
-  const db = await getDb();
-  await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1, $2)", [taskId, tagId]);
+  return withUndo("Tag task", async () => {
+    const db = await getDb();
+    await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1, $2)", [taskId, tagId]);
+  });
 }
 
 export async function detachTagFromTask(taskId: string, tagId: string): Promise<void> {
-  const db = await getDb();
-  await db.execute("DELETE FROM task_tags WHERE task_id = $1 AND tag_id = $2", [taskId, tagId]);
+  return withUndo("Remove tag", async () => {
+    const db = await getDb();
+    await db.execute("DELETE FROM task_tags WHERE task_id = $1 AND tag_id = $2", [taskId, tagId]);
+  });
 }
 
-export async function createProject(input: { name: string; color?: string | null; icon?: string | null }): Promise<Project> {
-  const db = await getDb();
-  const id = crypto.randomUUID();
-  const createdAt = nowIso();
-  const sortRow = await db.select<{ next: number }>("SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM projects");
-  const sortOrder = Number(sortRow?.[0]?.next ?? 0);
+export async function createProject(input: {
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+  parentId?: string | null;
+  isArea?: boolean;
+}): Promise<Project> {
+  return withUndo("Create project", async () => {
+    const db = await getDb();
+    const parentId = input.parentId ?? null;
+    if (parentId) await checkProjectParent(db, null, parentId);
+    const id = crypto.randomUUID();
+    const createdAt = nowIso();
+    const sortRow = await db.select<{ next: number }>("SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM projects");
+    const sortOrder = Number(sortRow?.[0]?.next ?? 0);
 
-  const baseName = input.name.trim();
-  if (!baseName) throw new Error("Project name required");
+    const baseName = input.name.trim();
+    if (!baseName) throw new Error("Project name required");
 
-  const existing = await db.select<{ name: string }>("SELECT name FROM projects");
-  const existingLower = new Set(existing.map((r) => String(r.name).toLowerCase()));
+    const existing = await db.select<{ name: string }>("SELECT name FROM projects");
+    const existingLower = new Set(existing.map((r) => String(r.name).toLowerCase()));
 
-  let name = baseName;
-  if (existingLower.has(baseName.toLowerCase())) {
-    let n = 2;
-    while (existingLower.has(`${baseName} (${n})`.toLowerCase())) n++;
-    name = `${baseName} (${n})`;
-  }
+    let name = baseName;
+    if (existingLower.has(baseName.toLowerCase())) {
+      let n = 2;
+      while (existingLower.has(`${baseName} (${n})`.toLowerCase())) n++;
+      name = `${baseName} (${n})`;
+    }
 
-  await db.execute(
-    "INSERT INTO projects (id, name, color, icon, sort_order, created_at) VALUES ($1, $2, $3, $4, $5, $6)",
-    [id, name, input.color ?? null, input.icon ?? null, sortOrder, createdAt],
-  );
-  return { id, name, color: input.color ?? null, icon: input.icon ?? null, sortOrder, createdAt };
+    const isArea = Boolean(input.isArea) && !parentId;
+    await db.execute(
+      "INSERT INTO projects (id, name, color, icon, sort_order, created_at, parent_id, is_area) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)",
+      [id, name, input.color ?? null, input.icon ?? null, sortOrder, createdAt, parentId, isArea ? 1 : 0],
+    );
+    return { id, name, color: input.color ?? null, icon: input.icon ?? null, sortOrder, createdAt, parentId, isArea, archivedAt: null };
+  });
 }
 
 export async function renameProject(projectId: string, nameRaw: string): Promise<void> {
-  const db = await getDb();
-  const name = nameRaw.trim();
-  if (!name) throw new Error("Project name required");
-  await db.execute("UPDATE projects SET name = $1 WHERE id = $2", [name, projectId]);
+  return withUndo("Rename project", async () => {
+    const db = await getDb();
+    const name = nameRaw.trim();
+    if (!name) throw new Error("Project name required");
+    await db.execute("UPDATE projects SET name = $1 WHERE id = $2", [name, projectId]);
+  });
 }
 
-async function ensureInboxProjectId(db: SqlDb): Promise<string> {
-  const rows = await db.select<{ id: string }>(
-    "SELECT id FROM projects WHERE icon = 'inbox' ORDER BY sort_order ASC, created_at ASC LIMIT 1",
+/** Changes a project's color and/or icon (a PROJECT_ICONS name). The Inbox keeps its icon. */
+export async function updateProjectAppearance(projectId: string, patch: { color?: string; icon?: string }): Promise<void> {
+  return withUndo("Restyle project", async () => {
+    const db = await getDb();
+    const meta = await projectMeta(db, projectId);
+    if (!meta) return;
+    if (patch.color !== undefined && !isHexColor(patch.color)) throw new Error(`"${patch.color}" is not a #rrggbb color`);
+    if (patch.icon !== undefined) {
+      if (isInboxProject({ icon: meta.icon, name: String(meta.name) })) throw new Error("Inbox keeps its icon");
+      if (!(patch.icon in PROJECT_ICONS)) throw new Error(`Unknown project icon "${patch.icon}"`);
+    }
+    await db.execute("UPDATE projects SET color = COALESCE($1, color), icon = COALESCE($2, icon) WHERE id = $3", [
+      patch.color ?? null,
+      patch.icon ?? null,
+      projectId,
+    ]);
+  });
+}
+
+/** Sidebar order: sort_order follows `orderedProjectIds`, in one step. */
+export async function reorderProjects(orderedProjectIds: string[]): Promise<void> {
+  return withUndo("Reorder projects", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      for (let i = 0; i < orderedProjectIds.length; i++) {
+        await db.execute("UPDATE projects SET sort_order = $1 WHERE id = $2", [i, orderedProjectIds[i]]);
+      }
+    });
+  });
+}
+
+type ProjectMeta = { id: string; name: string; icon: string | null; parent_id: string | null; is_area: number };
+
+async function projectMeta(db: SqlDb, projectId: string): Promise<ProjectMeta | null> {
+  const rows = await db.select<ProjectMeta>(
+    "SELECT id, name, icon, parent_id, is_area FROM projects WHERE id = $1 AND deleted_at IS NULL",
+    [projectId],
   );
-  if (rows.length > 0) return String(rows[0].id);
+  return rows[0] ?? null;
+}
 
-  const byName = await db.select<{ id: string }>("SELECT id FROM projects WHERE LOWER(name) = 'inbox' LIMIT 1");
-  if (byName.length > 0) return String(byName[0].id);
+/** The project and everything nested below it, whatever their state. */
+async function projectSubtree(db: SqlDb, projectId: string): Promise<string[]> {
+  const rows = await db.select<{ id: string }>(
+    `WITH RECURSIVE sub(id) AS (
+       SELECT $1
+       UNION
+       SELECT p.id FROM projects p INNER JOIN sub ON p.parent_id = sub.id
+     )
+     SELECT id FROM sub`,
+    [projectId],
+  );
+  return rows.map((r) => String(r.id));
+}
 
-  const id = crypto.randomUUID();
-  await db.execute(
-    "INSERT INTO projects (id, name, color, icon, sort_order, created_at) VALUES ($1, $2, $3, $4, $5, $6)",
-    [id, "Inbox", "#29f0ff", "inbox", 0, nowIso()],
+/** Throws unless `projectId` (null: a new project) may sit under `parentId`. */
+async function checkProjectParent(db: SqlDb, projectId: string | null, parentId: string): Promise<void> {
+  const parent = await db.select<ProjectMeta & { archived_at: string | null }>(
+    "SELECT id, name, icon, parent_id, is_area, archived_at FROM projects WHERE id = $1 AND deleted_at IS NULL",
+    [parentId],
   );
-  return id;
+  if (parent.length === 0 || parent[0].archived_at) throw new Error("Parent project not found");
+  if (isInboxProject({ icon: parent[0].icon, name: String(parent[0].name) })) throw new Error("Inbox cannot hold sub-projects");
+  if (projectId && (await projectSubtree(db, projectId)).includes(parentId)) {
+    throw new Error("A project cannot be moved inside itself or one of its sub-projects");
+  }
 }
 
-export async function deleteProjectMoveToInbox(projectId: string): Promise<void> {
+/** Moves a project under `parentId`, or to the top level (null). Its sub-projects come along. */
+export async function setProjectParent(projectId: string, parentId: string | null): Promise<void> {
+  return withUndo("Move project", async () => {
+    const db = await getDb();
+    const meta = await projectMeta(db, projectId);
+    if (!meta) return;
+    if (parentId) {
+      if (isInboxProject({ icon: meta.icon, name: String(meta.name) })) throw new Error("Inbox stays at the top level");
+      if (Number(meta.is_area)) throw new Error("Areas stay at the top level");
+      await checkProjectParent(db, projectId, parentId);
+    }
+    await db.execute("UPDATE projects SET parent_id = $1 WHERE id = $2", [parentId, projectId]);
+  });
+}
+
+/** Turns a project into an area (lifting it to the top level) or back. */
+export async function setProjectArea(projectId: string, isArea: boolean): Promise<void> {
+  return withUndo(isArea ? "Make area" : "Make project", async () => {
+    const db = await getDb();
+    const meta = await projectMeta(db, projectId);
+    if (!meta) return;
+    if (isInboxProject({ icon: meta.icon, name: String(meta.name) })) throw new Error("Inbox cannot be an area");
+    await db.execute(
+      isArea ? "UPDATE projects SET is_area = 1, parent_id = NULL WHERE id = $1" : "UPDATE projects SET is_area = 0 WHERE id = $1",
+      [projectId],
+    );
+  });
+}
+
+/** Hides a project and its live sub-projects, stamped together like deleteProject(). */
+export async function archiveProject(projectId: string): Promise<void> {
+  return withUndo("Archive project", async () => {
+    const db = await getDb();
+    const meta = await projectMeta(db, projectId);
+    if (!meta) return;
+    if (isInboxProject({ icon: meta.icon, name: String(meta.name) })) throw new Error("Inbox cannot be archived");
+    const ids = await projectSubtree(db, projectId);
+    const binds: unknown[] = [nowIso()];
+    await db.execute(
+      `UPDATE projects SET archived_at = $1 WHERE archived_at IS NULL AND deleted_at IS NULL AND id IN (${bindList(binds, ids)})`,
+      binds,
+    );
+  });
+}
+
+/**
+ * Brings back an archived project with the sub-projects archived along with it.
+ * If its parent is still archived (or gone) it comes back at the top level.
+ */
+export async function unarchiveProject(projectId: string): Promise<void> {
+  return withUndo("Unarchive project", async () => {
+    const db = await getDb();
+    const ids = await projectSubtree(db, projectId);
+    const binds: unknown[] = [projectId];
+    await inTransaction(db, async () => {
+      await db.execute(
+        `UPDATE projects SET archived_at = NULL
+         WHERE archived_at = (SELECT archived_at FROM projects WHERE id = $1) AND id IN (${bindList(binds, ids)})`,
+        binds,
+      );
+      await db.execute(
+        `UPDATE projects SET parent_id = NULL
+         WHERE id = $1 AND parent_id NOT IN (SELECT id FROM projects WHERE archived_at IS NULL AND deleted_at IS NULL)`,
+        [projectId],
+      );
+    });
+  });
+}
+
+/**
+ * Moves a project, its sub-projects and all their tasks to Trash, stamped with
+ * one shared deleted_at so restoreProject() brings back exactly those and not
+ * ones trashed earlier.
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  return withUndo("Delete project", async () => {
+    const db = await getDb();
+    const meta = await projectMeta(db, projectId);
+    if (!meta) return;
+    if (isInboxProject({ icon: meta.icon, name: String(meta.name) })) {
+      throw new Error("Inbox cannot be deleted");
+    }
+
+    const ids = await projectSubtree(db, projectId);
+    const deletedAt = nowIso();
+    await inTransaction(db, async () => {
+      const taskBinds: unknown[] = [deletedAt];
+      await db.execute(
+        `UPDATE tasks SET deleted_at = $1 WHERE deleted_at IS NULL AND project_id IN (${bindList(taskBinds, ids)})`,
+        taskBinds,
+      );
+      const projectBinds: unknown[] = [deletedAt];
+      await db.execute(
+        `UPDATE projects SET deleted_at = $1 WHERE deleted_at IS NULL AND id IN (${bindList(projectBinds, ids)})`,
+        projectBinds,
+      );
+    });
+  });
+}
+
+export async function listTrashedProjects(): Promise<Project[]> {
   const db = await getDb();
-  const meta = await db.select<{ icon: string | null; name: string }>("SELECT icon, name FROM projects WHERE id = $1", [projectId]);
-  if (meta.length === 0) return;
-  const icon = meta[0].icon ?? null;
-  if (icon === "inbox" || String(meta[0].name).toLowerCase() === "inbox") {
-    throw new Error("Inbox cannot be deleted");
-  }
+  const rows = await db.select(`SELECT ${PROJECT_COLUMNS} FROM projects WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC`);
+  return rows.map(mapProject);
+}
 
-  const inboxId = await ensureInboxProjectId(db);
-  await db.execute("BEGIN");
-  try {
-    await db.execute("UPDATE tasks SET project_id = $1, updated_at = $2 WHERE project_id = $3", [inboxId, nowIso(), projectId]);
-    await db.execute("DELETE FROM projects WHERE id = $1", [projectId]);
-    await db.execute("COMMIT");
-  } catch (e) {
-    await db.execute("ROLLBACK");
-    throw e;
+/**
+ * Brings a project back with the sub-projects and tasks that were deleted along
+ * with it. If its parent is still in Trash it comes back at the top level.
+ */
+export async function restoreProject(projectId: string): Promise<void> {
+  return withUndo("Restore project", async () => {
+    const db = await getDb();
+    const rows = await db.select<{ deleted_at: string | null }>("SELECT deleted_at FROM projects WHERE id = $1", [projectId]);
+    const stamp = rows[0]?.deleted_at;
+    if (!stamp) return;
+    const ids = await projectSubtree(db, projectId);
+    await inTransaction(db, async () => {
+      const taskBinds: unknown[] = [stamp];
+      await db.execute(`UPDATE tasks SET deleted_at = NULL WHERE deleted_at = $1 AND project_id IN (${bindList(taskBinds, ids)})`, taskBinds);
+      const projectBinds: unknown[] = [stamp];
+      await db.execute(`UPDATE projects SET deleted_at = NULL WHERE deleted_at = $1 AND id IN (${bindList(projectBinds, ids)})`, projectBinds);
+      await db.execute(
+        `UPDATE projects SET parent_id = NULL
+         WHERE id = $1 AND parent_id NOT IN (SELECT id FROM projects WHERE deleted_at IS NULL)`,
+        [projectId],
+      );
+    });
+  });
+}
+
+/**
+ * Permanently deletes a trashed project, the sub-projects trashed with it, and
+ * every trashed task still pointing at any of them.
+ */
+export async function purgeProject(projectId: string): Promise<void> {
+  return withUndo("Delete project permanently", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      const trashed = await db.select<{ deleted_at: string }>(
+        "SELECT deleted_at FROM projects WHERE id = $1 AND deleted_at IS NOT NULL",
+        [projectId],
+      );
+      if (trashed.length === 0) return;
+      const ids = await projectSubtree(db, projectId);
+      const binds: unknown[] = [trashed[0].deleted_at];
+      const inSubtree = `id IN (${bindList(binds, ids)})`;
+      const doomed = (await db.select<{ id: string }>(`SELECT id FROM projects WHERE deleted_at = $1 AND ${inSubtree}`, binds)).map(
+        (r) => String(r.id),
+      );
+      const taskBinds: unknown[] = [];
+      await db.execute(`DELETE FROM tasks WHERE deleted_at IS NOT NULL AND project_id IN (${bindList(taskBinds, doomed)})`, taskBinds);
+      const projectBinds: unknown[] = [];
+      await db.execute(`DELETE FROM projects WHERE id IN (${bindList(projectBinds, doomed)})`, projectBinds);
+    });
+  });
+}
+
+function bindNext(binds: unknown[], value: unknown): string {
+  binds.push(value);
+  return "$" + binds.length;
+}
+
+// Tasks of archived projects stay out of the smart views, counts and reminders;
+// they are still listed when their project is opened.
+function outsideArchivedSql(taskAlias: string): string {
+  return `NOT EXISTS (SELECT 1 FROM projects ap WHERE ap.id = ${taskAlias}.project_id AND ap.archived_at IS NOT NULL)`;
+}
+
+// Past its deadline, the same test as lib/date isPastDue: an earlier day, or
+// today with a due time that has passed.
+function pastDueSql(taskAlias: string, binds: unknown[], today: string, now: string): string {
+  const d = bindNext(binds, today);
+  return `(${taskAlias}.due_at < ${d} OR (${taskAlias}.due_at = ${d} AND ${taskAlias}.due_time IS NOT NULL AND ${taskAlias}.due_time <= ${bindNext(binds, now)}))`;
+}
+
+// Blockers of task t that still block it: open and not in Trash.
+const OPEN_BLOCKERS_SQL = `(SELECT COUNT(*) FROM task_dependencies d INNER JOIN tasks b ON b.id = d.blocked_by_id
+   WHERE d.task_id = t.id AND b.completed = 0 AND b.deleted_at IS NULL)`;
+
+function filterSql(f: SearchFilter, binds: unknown[], today: string, now: string): string {
+  let sql: string;
+  switch (f.kind) {
+    case "tag":
+      sql = `t.id IN (SELECT tt.task_id FROM task_tags tt INNER JOIN tags g ON g.id = tt.tag_id WHERE g.name = ${bindNext(binds, f.name)} COLLATE NOCASE)`;
+      break;
+    case "project":
+      sql = `t.project_id IN (SELECT id FROM projects WHERE name = ${bindNext(binds, f.name)} COLLATE NOCASE)`;
+      break;
+    case "priority":
+      sql = `t.priority ${f.op} ${bindNext(binds, f.value)}`;
+      break;
+    case "due":
+    case "start": {
+      const col = f.kind === "due" ? "t.due_at" : "t.start_at";
+      sql = f.value === null ? `${col} IS NULL` : `(${col} IS NOT NULL AND ${col} ${f.op} ${bindNext(binds, f.value)})`;
+      break;
+    }
+    case "is":
+      if (f.value === "open") sql = "t.completed = 0";
+      else if (f.value === "done") sql = "t.completed = 1";
+      else if (f.value === "overdue") sql = `(t.completed = 0 AND ${pastDueSql("t", binds, today, now)})`;
+      else if (f.value === "blocked") sql = `${OPEN_BLOCKERS_SQL} > 0`;
+      else sql = "t.recurrence IS NOT NULL";
+      break;
+    case "has":
+      if (f.value === "notes") sql = "TRIM(t.notes) <> ''";
+      else if (f.value === "due") sql = "t.due_at IS NOT NULL";
+      else if (f.value === "start") sql = "t.start_at IS NOT NULL";
+      else if (f.value === "time") sql = "t.due_time IS NOT NULL";
+      else if (f.value === "tags") sql = "EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id)";
+      else sql = "EXISTS (SELECT 1 FROM subtasks s WHERE s.task_id = t.id)";
+      break;
   }
+  return f.negate ? `NOT (${sql})` : sql;
 }
 
 export async function listTasks(params: {
   view: SmartView;
   projectId?: string | null;
   search?: string;
-  tagIds?: string[];
+  filters?: SearchFilter[];
+  tagIds?: string[]; // task must have all of these
+  anyTagIds?: string[]; // task must have at least one of these
+  includeOverdue?: boolean; // today view: also list open tasks due before today
+  hideBlocked?: boolean; // today view: leave out tasks with open blockers
 }): Promise<Task[]> {
   const db = await getDb();
   const where: string[] = [];
   const binds: unknown[] = [];
 
   const today = todayIsoDate();
+  const now = nowTimeOfDay();
+  where.push(params.view === "trash" ? "t.deleted_at IS NOT NULL" : "t.deleted_at IS NULL");
   if (params.view === "completed") where.push("t.completed = 1");
-  if (params.view === "today" || params.view === "upcoming") where.push("t.completed = 0");
+  if (params.view === "today" || params.view === "overdue" || params.view === "upcoming") where.push("t.completed = 0");
 
   if (params.view === "today") {
-    where.push("t.due_at = $" + (binds.length + 1));
-    binds.push(today);
+    // Due today, or scheduled to have started by today. Due-date ordering below
+    // puts the overdue ones on top.
+    const d = bindNext(binds, today);
+    where.push(`(t.due_at ${params.includeOverdue ? "<=" : "="} ${d} OR t.start_at <= ${d})`);
+    if (params.hideBlocked) where.push(`${OPEN_BLOCKERS_SQL} = 0`);
+  }
+
+  if (params.view === "overdue") {
+    where.push(pastDueSql("t", binds, today, now));
   }
 
   if (params.view === "upcoming") {
-    // Everything due after today (including tasks with no due date at the bottom).
-    where.push("(t.due_at IS NULL OR t.due_at > $" + (binds.length + 1) + ")");
-    binds.push(today);
+    // Everything due after today (including tasks with no due date at the bottom),
+    // minus what has already started and so sits in Today.
+    const d = bindNext(binds, today);
+    where.push(`(t.due_at IS NULL OR t.due_at > ${d}) AND (t.start_at IS NULL OR t.start_at > ${d})`);
   }
 
   if (params.view === "all") {
@@ -205,15 +697,30 @@ export async function listTasks(params: {
   if (params.projectId) {
     where.push("t.project_id = $" + (binds.length + 1));
     binds.push(params.projectId);
+  } else if (params.view !== "trash") {
+    where.push(outsideArchivedSql("t"));
   }
 
-  if (params.search && params.search.trim().length > 0) {
-    where.push("(t.title LIKE $" + (binds.length + 1) + " OR t.notes LIKE $" + (binds.length + 2) + ")");
-    const q = `%${params.search.trim()}%`;
-    binds.push(q, q);
+  for (const f of params.filters ?? []) {
+    where.push(filterSql(f, binds, today, now));
   }
 
   let fromSql = "FROM tasks t";
+  let matchSql = "";
+  const fts = toFtsQuery(params.search ?? "");
+  if (fts.match) {
+    fromSql += " INNER JOIN tasks_fts ON tasks_fts.rowid = t.rowid";
+    where.push("tasks_fts MATCH $" + (binds.length + 1));
+    binds.push(fts.exclude ? `(${fts.match}) NOT (${fts.exclude})` : fts.match);
+    matchSql = `,
+       highlight(tasks_fts, 0, '${HL_START}', '${HL_END}') AS title_hl,
+       snippet(tasks_fts, 1, '${HL_START}', '${HL_END}', '…', 12) AS notes_snippet`;
+  } else if (fts.exclude) {
+    // FTS5 has no unary NOT; exclusion-only searches subtract the matches instead.
+    where.push("t.rowid NOT IN (SELECT rowid FROM tasks_fts WHERE tasks_fts MATCH $" + (binds.length + 1) + ")");
+    binds.push(fts.exclude);
+  }
+
   if (params.tagIds && params.tagIds.length > 0) {
     const ids = params.tagIds.filter(Boolean);
     if (ids.length > 0) {
@@ -232,13 +739,27 @@ export async function listTasks(params: {
     }
   }
 
+  const anyIds = (params.anyTagIds ?? []).filter(Boolean);
+  if (anyIds.length > 0) {
+    where.push(`t.id IN (SELECT task_id FROM task_tags WHERE tag_id IN (${bindList(binds, anyIds)}))`);
+  }
+
   const whereSql = where.length ? `WHERE ${where.join(" AND ")}` : "";
-  const orderBy = params.projectId
+  // Title hits weigh more than notes hits; bm25() is lower-is-better.
+  const orderBy = fts.match
+    ? "ORDER BY bm25(tasks_fts, 8.0, 1.0) ASC, t.created_at ASC"
+    : params.view === "trash"
+    ? "ORDER BY t.deleted_at DESC, t.sort_order ASC"
+    : params.projectId
     ? "ORDER BY t.sort_order ASC, t.created_at ASC"
-    : "ORDER BY CASE WHEN t.due_at IS NULL THEN 1 ELSE 0 END, t.due_at ASC, t.sort_order ASC, t.created_at ASC";
+    : "ORDER BY CASE WHEN t.due_at IS NULL THEN 1 ELSE 0 END, t.due_at ASC, CASE WHEN t.due_time IS NULL THEN 1 ELSE 0 END, t.due_time ASC, t.sort_order ASC, t.created_at ASC";
 
   const rows = await db.select(
-    `SELECT t.id, t.project_id, t.title, t.notes, t.completed, t.priority, t.due_at, t.sort_order, t.created_at, t.updated_at
+    `SELECT t.id, t.project_id, t.title, t.notes, t.completed, t.priority, t.due_at, t.due_time, t.start_at, t.recurrence, t.sort_order, t.created_at, t.updated_at, t.completed_at, t.column_id, t.deleted_at,
+       (SELECT COUNT(*) FROM subtasks s WHERE s.task_id = t.id) AS subtask_count,
+       (SELECT COUNT(*) FROM subtasks s WHERE s.task_id = t.id AND s.completed = 1) AS subtask_done,
+       (SELECT COUNT(*) FROM attachments a WHERE a.task_id = t.id) AS attachment_count,
+       ${OPEN_BLOCKERS_SQL} AS open_blockers${matchSql}
      ${fromSql}
      ${whereSql}
      ${orderBy}`,
@@ -248,104 +769,1183 @@ export async function listTasks(params: {
   return rows.map(mapTask);
 }
 
+function overdueTasksSql(binds: unknown[], today: string, now: string): string {
+  return `SELECT id FROM tasks WHERE completed = 0 AND deleted_at IS NULL AND ${pastDueSql("tasks", binds, today, now)} AND ${outsideArchivedSql("tasks")}`;
+}
+
+export async function countOverdueTasks(): Promise<number> {
+  const db = await getDb();
+  const binds: unknown[] = [];
+  const rows = await db.select<{ n: number }>(
+    `SELECT COUNT(*) AS n FROM (${overdueTasksSql(binds, todayIsoDate(), nowTimeOfDay())})`,
+    binds,
+  );
+  return Number(rows?.[0]?.n ?? 0);
+}
+
+/**
+ * Live tasks for a Markdown/CSV export, including archived projects: everything,
+ * or one project together with its sub-projects. Ordered by project, then as listed.
+ */
+export async function listTasksForExport(projectId: string | null): Promise<Task[]> {
+  const db = await getDb();
+  const binds: unknown[] = [];
+  const where = ["t.deleted_at IS NULL"];
+  if (projectId) where.push(`t.project_id IN (${bindList(binds, await projectSubtree(db, projectId))})`);
+  const rows = await db.select(
+    `SELECT t.id, t.project_id, t.title, t.notes, t.completed, t.priority, t.due_at, t.due_time, t.start_at, t.recurrence, t.sort_order, t.created_at, t.updated_at, t.completed_at, t.column_id, t.deleted_at
+     FROM tasks t
+     WHERE ${where.join(" AND ")}
+     ORDER BY t.project_id ASC, t.sort_order ASC, t.created_at ASC`,
+    binds,
+  );
+  return rows.map(mapTask);
+}
+
+/** Tag names, checklist steps and attachments of every live task, keyed by task id. */
+export async function listTaskDetailsForExport(): Promise<{
+  tags: Map<string, string[]>;
+  subtasks: Map<string, Subtask[]>;
+  attachments: Map<string, Attachment[]>;
+}> {
+  const db = await getDb();
+  const group = <T>(items: T[], key: (item: T) => string) => {
+    const map = new Map<string, T[]>();
+    for (const item of items) {
+      const list = map.get(key(item));
+      if (list) list.push(item);
+      else map.set(key(item), [item]);
+    }
+    return map;
+  };
+
+  const tagRows = await db.select<{ task_id: string; name: string }>(
+    `SELECT tt.task_id, tg.name FROM task_tags tt
+     INNER JOIN tags tg ON tg.id = tt.tag_id
+     INNER JOIN tasks t ON t.id = tt.task_id
+     WHERE t.deleted_at IS NULL
+     ORDER BY tg.name ASC`,
+  );
+  const tags = new Map([...group(tagRows, (r) => String(r.task_id))].map(([id, rs]) => [id, rs.map((r) => String(r.name))] as const));
+  const subtaskRows = await db.select(
+    `SELECT s.id, s.task_id, s.title, s.completed, s.sort_order, s.created_at FROM subtasks s
+     INNER JOIN tasks t ON t.id = s.task_id
+     WHERE t.deleted_at IS NULL
+     ORDER BY s.sort_order ASC, s.created_at ASC`,
+  );
+  const attachmentRows = await db.select(
+    `SELECT a.id, a.task_id, a.kind, a.name, a.target, a.size, a.created_at FROM attachments a
+     INNER JOIN tasks t ON t.id = a.task_id
+     WHERE t.deleted_at IS NULL
+     ORDER BY a.created_at ASC`,
+  );
+  return {
+    tags,
+    subtasks: group(subtaskRows.map(mapSubtask), (s) => s.taskId),
+    attachments: group(attachmentRows.map(mapAttachment), (a) => a.taskId),
+  };
+}
+
+/** The columns the stats dashboard works from, for every task not in Trash. */
+export async function listTasksForStats(): Promise<StatsTask[]> {
+  const db = await getDb();
+  const rows = await db.select<any>(
+    "SELECT id, project_id, completed, completed_at, created_at, due_at, priority FROM tasks WHERE deleted_at IS NULL",
+  );
+  return rows.map((row) => ({
+    id: String(row.id),
+    projectId: row.project_id ?? null,
+    completed: Boolean(row.completed),
+    completedAt: row.completed_at ?? null,
+    createdAt: String(row.created_at),
+    dueAt: row.due_at ?? null,
+    priority: Number(row.priority ?? 0),
+  }));
+}
+
+/**
+ * Moves every open overdue task to `dueAt` as one undoable step. Returns how many moved.
+ * Moved to today, a due time that has already passed is dropped so the task isn't
+ * still overdue afterwards.
+ */
+export async function rescheduleOverdueTasks(dueAt: string): Promise<number> {
+  return withUndo("Reschedule overdue", async () => {
+    const db = await getDb();
+    const today = todayIsoDate();
+    const now = nowTimeOfDay();
+    const overdueBinds: unknown[] = [];
+    const overdue = overdueTasksSql(overdueBinds, today, now);
+    const rows = await db.select<{ n: number }>(`SELECT COUNT(*) AS n FROM (${overdue})`, overdueBinds);
+    const n = Number(rows?.[0]?.n ?? 0);
+    if (n === 0) return 0;
+    await db.execute(
+      `UPDATE reminders SET snoozed_until = NULL, fired_for = NULL
+       WHERE offset_minutes IS NOT NULL AND task_id IN (${overdue})`,
+      overdueBinds,
+    );
+    const binds: unknown[] = [];
+    const dueTime = dueAt === today ? `CASE WHEN due_time <= ${bindNext(binds, now)} THEN NULL ELSE due_time END` : "due_time";
+    await db.execute(
+      `UPDATE tasks SET due_at = ${bindNext(binds, dueAt)}, due_time = ${dueTime}, updated_at = ${bindNext(binds, nowIso())}
+       WHERE id IN (${overdueTasksSql(binds, today, now)})`,
+      binds,
+    );
+    return n;
+  });
+}
+
 export async function reorderTasks(projectId: string | null, orderedTaskIds: string[]): Promise<void> {
+  return withUndo("Reorder tasks", async () => {
+    const db = await getDb();
+    await db.execute("BEGIN");
+    try {
+      const updatedAt = nowIso();
+      for (let i = 0; i < orderedTaskIds.length; i++) {
+        await db.execute(
+          "UPDATE tasks SET sort_order = $1, updated_at = $2 WHERE id = $3 AND project_id IS $4",
+          [i, updatedAt, orderedTaskIds[i], projectId],
+        );
+      }
+      await db.execute("COMMIT");
+    } catch (e) {
+      await db.execute("ROLLBACK");
+      throw e;
+    }
+  });
+}
+
+export async function listBoardColumns(projectId: string): Promise<BoardColumn[]> {
   const db = await getDb();
-  await db.execute("BEGIN");
-  try {
+  const rows = await db.select(
+    "SELECT id, project_id, name, sort_order, is_done, created_at FROM board_columns WHERE project_id = $1 ORDER BY sort_order ASC, created_at ASC",
+    [projectId],
+  );
+  return rows.map(mapBoardColumn);
+}
+
+/** Gives a project without columns the default Backlog / Doing / Review / Done set. */
+export async function createDefaultBoardColumns(projectId: string): Promise<BoardColumn[]> {
+  return withUndo("Set up board", async () => {
+    const db = await getDb();
+    const existing = await listBoardColumns(projectId);
+    if (existing.length > 0) return existing;
+    const createdAt = nowIso();
+    await inTransaction(db, async () => {
+      for (let i = 0; i < DEFAULT_BOARD_COLUMNS.length; i++) {
+        const c = DEFAULT_BOARD_COLUMNS[i];
+        await db.execute(
+          "INSERT INTO board_columns (id, project_id, name, sort_order, is_done, created_at) VALUES ($1,$2,$3,$4,$5,$6)",
+          [crypto.randomUUID(), projectId, c.name, i, c.isDone ? 1 : 0, createdAt],
+        );
+      }
+    });
+    return listBoardColumns(projectId);
+  });
+}
+
+export async function createBoardColumn(projectId: string, nameRaw: string): Promise<BoardColumn> {
+  return withUndo("Add column", async () => {
+    const db = await getDb();
+    const name = nameRaw.trim();
+    if (!name) throw new Error("Column name required");
+    const sortRow = await db.select<{ next: number }>(
+      "SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM board_columns WHERE project_id = $1",
+      [projectId],
+    );
+    const column: BoardColumn = {
+      id: crypto.randomUUID(),
+      projectId,
+      name,
+      sortOrder: Number(sortRow?.[0]?.next ?? 0),
+      isDone: false,
+      createdAt: nowIso(),
+    };
+    await db.execute(
+      "INSERT INTO board_columns (id, project_id, name, sort_order, is_done, created_at) VALUES ($1,$2,$3,$4,$5,$6)",
+      [column.id, projectId, name, column.sortOrder, 0, column.createdAt],
+    );
+    return column;
+  });
+}
+
+export async function renameBoardColumn(columnId: string, nameRaw: string): Promise<void> {
+  return withUndo("Rename column", async () => {
+    const db = await getDb();
+    const name = nameRaw.trim();
+    if (!name) throw new Error("Column name required");
+    await db.execute("UPDATE board_columns SET name = $1 WHERE id = $2", [name, columnId]);
+  });
+}
+
+export async function reorderBoardColumns(projectId: string, orderedColumnIds: string[]): Promise<void> {
+  return withUndo("Reorder columns", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      for (let i = 0; i < orderedColumnIds.length; i++) {
+        await db.execute("UPDATE board_columns SET sort_order = $1 WHERE id = $2 AND project_id = $3", [
+          i,
+          orderedColumnIds[i],
+          projectId,
+        ]);
+      }
+    });
+  });
+}
+
+/** Makes `columnId` the project's completed column (null: none). */
+export async function setDoneBoardColumn(projectId: string, columnId: string | null): Promise<void> {
+  return withUndo("Set done column", async () => {
+    const db = await getDb();
+    await db.execute("UPDATE board_columns SET is_done = CASE WHEN id IS $1 THEN 1 ELSE 0 END WHERE project_id = $2", [
+      columnId,
+      projectId,
+    ]);
+  });
+}
+
+/** Deletes a column; its open tasks move to the first column. */
+export async function deleteBoardColumn(columnId: string): Promise<void> {
+  return withUndo("Delete column", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      await db.execute("UPDATE tasks SET column_id = NULL WHERE column_id = $1", [columnId]);
+      await db.execute("DELETE FROM board_columns WHERE id = $1", [columnId]);
+    });
+  });
+}
+
+/**
+ * A board drag: puts the task in `columnId` and renumbers the project's tasks
+ * to `orderedTaskIds` (see lib/board.ts orderAfterMove). Dropping on the done
+ * column completes the task and keeps its column_id, so reopening it returns
+ * it there; dropping a completed task elsewhere reopens it. Returns the next
+ * occurrence if completing a recurring task spawned one.
+ */
+export async function moveBoardTask(
+  projectId: string,
+  taskId: string,
+  columnId: string,
+  orderedTaskIds: string[],
+): Promise<Task | null> {
+  return withUndo("Move card", async () => {
+    const db = await getDb();
     const updatedAt = nowIso();
-    for (let i = 0; i < orderedTaskIds.length; i++) {
-      await db.execute(
-        "UPDATE tasks SET sort_order = $1, updated_at = $2 WHERE id = $3 AND project_id IS $4",
-        [i, updatedAt, orderedTaskIds[i], projectId],
-      );
-    }
-    await db.execute("COMMIT");
-  } catch (e) {
-    await db.execute("ROLLBACK");
-    throw e;
-  }
+    return inTransaction(db, async () => {
+      const col = await db.select<{ is_done: number }>("SELECT is_done FROM board_columns WHERE id = $1 AND project_id = $2", [
+        columnId,
+        projectId,
+      ]);
+      const task = await db.select<{ completed: number }>("SELECT completed FROM tasks WHERE id = $1", [taskId]);
+      if (col.length === 0 || task.length === 0) return null;
+
+      let spawned: Task | null = null;
+      if (Number(col[0].is_done)) {
+        if (!Number(task[0].completed)) spawned = await setTaskCompleted(db, taskId, true, updatedAt);
+      } else {
+        await db.execute("UPDATE tasks SET column_id = $1, updated_at = $2 WHERE id = $3", [columnId, updatedAt, taskId]);
+        if (Number(task[0].completed)) await setTaskCompleted(db, taskId, false, updatedAt);
+      }
+
+      for (let i = 0; i < orderedTaskIds.length; i++) {
+        await db.execute("UPDATE tasks SET sort_order = $1 WHERE id = $2 AND project_id = $3 AND sort_order IS NOT $1", [
+          i,
+          orderedTaskIds[i],
+          projectId,
+        ]);
+      }
+      return spawned;
+    });
+  });
 }
 
 export async function createTask(input: {
   title: string;
   projectId?: string | null;
   dueAt?: string | null;
+  dueTime?: string | null;
+  startAt?: string | null;
   priority?: number;
+  recurrence?: string | null;
+  tags?: string[]; // names; missing tags are created
 }): Promise<Task> {
-  const db = await getDb();
-  const id = crypto.randomUUID();
-  const createdAt = nowIso();
-  const updatedAt = createdAt;
-  const title = input.title.trim();
-  const projectId = input.projectId ?? null;
-  const dueAt = input.dueAt ?? null;
-  const priority = Number.isFinite(input.priority as number) ? Number(input.priority) : 0;
+  return withUndo("Add task", async () => {
+    const db = await getDb();
+    const id = crypto.randomUUID();
+    const createdAt = nowIso();
+    const updatedAt = createdAt;
+    const title = input.title.trim();
+    const projectId = input.projectId ?? null;
+    const dueAt = input.dueAt ?? null;
+    const dueTime = dueAt ? input.dueTime ?? null : null;
+    const startAt = input.startAt ?? null;
+    const priority = Number.isFinite(input.priority as number) ? Number(input.priority) : 0;
+    const recurrence = input.recurrence ?? null;
+
+    const sortRow = await db.select<{ next: number }>(
+      "SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM tasks WHERE project_id IS $1",
+      [projectId],
+    );
+    const sortOrder = Number(sortRow?.[0]?.next ?? 0);
+
+    await db.execute(
+      "INSERT INTO tasks (id, project_id, title, notes, completed, priority, due_at, due_time, start_at, recurrence, sort_order, created_at, updated_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)",
+      [id, projectId, title, "", 0, priority, dueAt, dueTime, startAt, recurrence, sortOrder, createdAt, updatedAt],
+    );
+    for (const name of input.tags ?? []) {
+      const tag = await ensureTagRow(db, name);
+      await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1, $2)", [id, tag.id]);
+    }
+
+    return {
+      id,
+      projectId,
+      title,
+      notes: "",
+      completed: false,
+      priority,
+      dueAt,
+      dueTime,
+      startAt,
+      recurrence,
+      sortOrder,
+      createdAt,
+      updatedAt,
+    };
+  });
+}
+
+/**
+ * Applies a previewed import (lib/importFormats) as one undo step. Each project
+ * path segment reuses a live project of that name (case-insensitive) under the
+ * same parent, and tags one of the same name; the rest are created. Tasks
+ * without a project go to `fallbackProjectId`. Returns what was created.
+ */
+export async function importTasks(
+  tasks: ImportedTask[],
+  fallbackProjectId: string | null,
+): Promise<{ tasks: number; projects: number; tags: number }> {
+  if (tasks.length === 0) return { tasks: 0, projects: 0, tags: 0 };
+  return withUndo(tasksLabel("Import", tasks.length), async () => {
+    const db = await getDb();
+    return inTransaction(db, async () => {
+      const projectRows = await db.select<{
+        id: string;
+        name: string;
+        icon: string | null;
+        color: string | null;
+        parent_id: string | null;
+        live: number;
+      }>("SELECT id, name, icon, color, parent_id, (deleted_at IS NULL AND archived_at IS NULL) AS live FROM projects");
+      // Names stay unique across archived and trashed projects too; only live ones are reused.
+      const takenNames = new Set(projectRows.map((r) => String(r.name).toLowerCase()));
+      const live = projectRows.filter((r) => Number(r.live) === 1);
+      const projectByKey = new Map(
+        live.map((r) => [
+          importProjectKey(r.parent_id ? String(r.parent_id) : null, String(r.name)),
+          { id: String(r.id), name: String(r.name), icon: r.icon },
+        ]),
+      );
+      const colors = live.map((r) => ({ color: r.color }));
+      const projectSortRow = await db.select<{ next: number }>("SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM projects");
+      let projectSort = Number(projectSortRow?.[0]?.next ?? 0);
+      let projectsCreated = 0;
+      const now = nowIso();
+
+      const resolvePath = async (path: string[]): Promise<string | null> => {
+        let parent: { id: string; name: string; icon: string | null } | null = null;
+        for (const segment of path) {
+          // The Inbox can't hold sub-projects; those land at the top level instead.
+          const parentId = parent && !isInboxProject({ icon: parent.icon, name: parent.name }) ? parent.id : null;
+          const found = projectByKey.get(importProjectKey(parentId, segment));
+          if (found) {
+            parent = found;
+            continue;
+          }
+          let name = segment;
+          for (let n = 2; takenNames.has(name.toLowerCase()); n++) name = `${segment} (${n})`;
+          const color = nextProjectColor(colors);
+          const created = { id: crypto.randomUUID(), name, icon: "spark" };
+          await db.execute(
+            "INSERT INTO projects (id, name, color, icon, sort_order, created_at, parent_id, is_area) VALUES ($1, $2, $3, $4, $5, $6, $7, 0)",
+            [created.id, name, color, created.icon, projectSort++, now, parentId],
+          );
+          takenNames.add(name.toLowerCase());
+          projectByKey.set(importProjectKey(parentId, segment), created);
+          colors.push({ color });
+          projectsCreated++;
+          parent = created;
+        }
+        return parent?.id ?? null;
+      };
+
+      const tagRows = await db.select<{ id: string; name: string }>("SELECT id, name FROM tags");
+      const tagByName = new Map(tagRows.map((r) => [String(r.name).toLowerCase(), String(r.id)]));
+      let tagsCreated = 0;
+      const resolveTag = async (name: string): Promise<string> => {
+        const found = tagByName.get(name.toLowerCase());
+        if (found) return found;
+        const id = crypto.randomUUID();
+        await db.execute("INSERT INTO tags (id, name) VALUES ($1, $2)", [id, name]);
+        tagByName.set(name.toLowerCase(), id);
+        tagsCreated++;
+        return id;
+      };
+
+      const nextSort = new Map<string | null, number>();
+      for (const t of tasks) {
+        const projectId = t.projectPath.length > 0 ? await resolvePath(t.projectPath) : fallbackProjectId;
+        if (!nextSort.has(projectId)) {
+          const row = await db.select<{ next: number }>(
+            "SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM tasks WHERE project_id IS $1",
+            [projectId],
+          );
+          nextSort.set(projectId, Number(row?.[0]?.next ?? 0));
+        }
+        const sortOrder = nextSort.get(projectId)!;
+        nextSort.set(projectId, sortOrder + 1);
+
+        const id = crypto.randomUUID();
+        const completedAt = t.completed ? (t.completedAt ? parseIsoDate(t.completedAt).toISOString() : now) : null;
+        await db.execute(
+          "INSERT INTO tasks (id, project_id, title, notes, completed, priority, due_at, due_time, start_at, recurrence, sort_order, created_at, updated_at, completed_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14)",
+          [
+            id,
+            projectId,
+            t.title,
+            t.notes,
+            t.completed ? 1 : 0,
+            t.priority,
+            t.dueAt,
+            t.dueAt ? t.dueTime : null,
+            t.startAt,
+            t.recurrence,
+            sortOrder,
+            now,
+            now,
+            completedAt,
+          ],
+        );
+        for (const name of t.tags) {
+          await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1, $2)", [id, await resolveTag(name)]);
+        }
+        for (const [i, s] of t.subtasks.entries()) {
+          await db.execute(
+            "INSERT INTO subtasks (id, task_id, title, completed, sort_order, created_at) VALUES ($1,$2,$3,$4,$5,$6)",
+            [crypto.randomUUID(), id, s.title, s.completed ? 1 : 0, i, now],
+          );
+        }
+      }
+      return { tasks: tasks.length, projects: projectsCreated, tags: tagsCreated };
+    });
+  });
+}
+
+async function inTransaction<T>(db: SqlDb, fn: () => Promise<T>): Promise<T> {
+  await db.execute("BEGIN");
+  try {
+    const result = await fn();
+    await db.execute("COMMIT");
+    return result;
+  } catch (e) {
+    await db.execute("ROLLBACK");
+    throw e;
+  }
+}
+
+function bindList(binds: unknown[], values: unknown[]): string {
+  return values.map((v) => bindNext(binds, v)).join(", ");
+}
+
+function tasksLabel(verb: string, count: number): string {
+  return count === 1 ? `${verb} task` : `${verb} ${count} tasks`;
+}
+
+/**
+ * Completing a recurring task spawns the next occurrence (same project, notes,
+ * priority and tags) and moves the rule onto it, so the finished instance stays
+ * in history. Runs inside the caller's transaction; returns the spawned task, if any.
+ */
+async function setTaskCompleted(db: SqlDb, taskId: string, completed: boolean, updatedAt: string): Promise<Task | null> {
+  const rows = completed
+    ? await db.select<any>(
+        "SELECT id, project_id, title, notes, completed, priority, due_at, due_time, start_at, recurrence, sort_order, created_at, updated_at FROM tasks WHERE id = $1",
+        [taskId],
+      )
+    : [];
+  const current = rows.length > 0 ? mapTask(rows[0]) : null;
+  const rule = current && !current.completed ? parseRecurrence(current.recurrence) : null;
+
+  if (!current || !rule) {
+    await db.execute(
+      completed
+        ? "UPDATE tasks SET completed = 1, completed_at = COALESCE(completed_at, $1), updated_at = $1 WHERE id = $2"
+        : "UPDATE tasks SET completed = 0, completed_at = NULL, updated_at = $1 WHERE id = $2",
+      [updatedAt, taskId],
+    );
+    return null;
+  }
+
+  const nextDue = nextOccurrence(rule, current.dueAt ?? null, todayIsoDate());
+  // The start date keeps its lead time before the deadline; the due time carries over as is.
+  const lead = current.startAt && current.dueAt ? daysBetween(current.startAt, current.dueAt) : null;
+  const next: Task = {
+    ...current,
+    id: crypto.randomUUID(),
+    completed: false,
+    dueAt: nextDue,
+    startAt: lead !== null ? shiftIsoDate(nextDue, -lead) : null,
+    createdAt: updatedAt,
+    updatedAt,
+  };
 
   const sortRow = await db.select<{ next: number }>(
     "SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM tasks WHERE project_id IS $1",
-    [projectId],
+    [next.projectId ?? null],
   );
-  const sortOrder = Number(sortRow?.[0]?.next ?? 0);
+  next.sortOrder = Number(sortRow?.[0]?.next ?? 0);
 
+  await db.execute("UPDATE tasks SET completed = 1, completed_at = $1, recurrence = NULL, updated_at = $1 WHERE id = $2", [updatedAt, taskId]);
   await db.execute(
-    "INSERT INTO tasks (id, project_id, title, notes, completed, priority, due_at, sort_order, created_at, updated_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)",
-    [id, projectId, title, "", 0, priority, dueAt, sortOrder, createdAt, updatedAt],
+    "INSERT INTO tasks (id, project_id, title, notes, completed, priority, due_at, due_time, start_at, recurrence, sort_order, created_at, updated_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)",
+    [
+      next.id,
+      next.projectId ?? null,
+      next.title,
+      next.notes,
+      0,
+      next.priority,
+      next.dueAt,
+      next.dueTime ?? null,
+      next.startAt ?? null,
+      next.recurrence,
+      next.sortOrder,
+      updatedAt,
+      updatedAt,
+    ],
   );
+  await db.execute("INSERT INTO task_tags (task_id, tag_id) SELECT $1, tag_id FROM task_tags WHERE task_id = $2", [next.id, taskId]);
+  // Relative reminders follow the new due date; absolute ones stay with the finished instance.
+  const reminders = await db.select<any>(
+    "SELECT offset_minutes FROM reminders WHERE task_id = $1 AND offset_minutes IS NOT NULL",
+    [taskId],
+  );
+  for (const r of reminders) {
+    await db.execute("INSERT INTO reminders (id, task_id, offset_minutes, created_at) VALUES ($1,$2,$3,$4)", [
+      crypto.randomUUID(),
+      next.id,
+      Number(r.offset_minutes),
+      updatedAt,
+    ]);
+  }
+  // Checklist steps carry over unchecked, with fresh ids.
+  const steps = await db.select<any>("SELECT title, sort_order FROM subtasks WHERE task_id = $1 ORDER BY sort_order ASC", [taskId]);
+  for (const step of steps) {
+    await db.execute(
+      "INSERT INTO subtasks (id, task_id, title, completed, sort_order, created_at) VALUES ($1,$2,$3,$4,$5,$6)",
+      [crypto.randomUUID(), next.id, String(step.title), 0, Number(step.sort_order ?? 0), updatedAt],
+    );
+  }
+  next.subtaskDone = 0;
+  return next;
+}
 
-  return {
-    id,
-    projectId,
-    title,
-    notes: "",
-    completed: false,
-    priority,
-    dueAt,
-    sortOrder,
-    createdAt,
-    updatedAt,
-  };
+/** Completes or reopens a task. Returns the next occurrence if it was recurring. */
+export async function toggleTaskCompleted(taskId: string, completed: boolean): Promise<Task | null> {
+  return withUndo(completed ? "Complete task" : "Reopen task", async () => {
+    const db = await getDb();
+    return inTransaction(db, () => setTaskCompleted(db, taskId, completed, nowIso()));
+  });
 }
 
-export async function toggleTaskCompleted(taskId: string, completed: boolean): Promise<void> {
-  const db = await getDb();
-  await db.execute("UPDATE tasks SET completed = $1, updated_at = $2 WHERE id = $3", [completed ? 1 : 0, nowIso(), taskId]);
+/** Batch form of toggleTaskCompleted, in one transaction. Returns the spawned occurrences. */
+export async function setTasksCompleted(taskIds: string[], completed: boolean): Promise<Task[]> {
+  if (taskIds.length === 0) return [];
+  return withUndo(tasksLabel(completed ? "Complete" : "Reopen", taskIds.length), async () => {
+    const db = await getDb();
+    const updatedAt = nowIso();
+    return inTransaction(db, async () => {
+      const spawned: Task[] = [];
+      for (const id of taskIds) {
+        const next = await setTaskCompleted(db, id, completed, updatedAt);
+        if (next) spawned.push(next);
+      }
+      return spawned;
+    });
+  });
 }
 
-export async function updateTask(taskId: string, patch: Partial<Pick<Task, "title" | "notes" | "priority" | "dueAt" | "projectId">>): Promise<void> {
-  const db = await getDb();
+export type TaskPatch = Partial<Pick<Task, "title" | "notes" | "priority" | "dueAt" | "dueTime" | "startAt" | "projectId" | "recurrence">>;
+
+async function applyTaskPatch(db: SqlDb, taskIds: string[], patch: TaskPatch): Promise<void> {
   const fields: string[] = [];
   const binds: unknown[] = [];
+  const set = (column: string, value: unknown) => fields.push(`${column} = ${bindNext(binds, value)}`);
 
-  if (patch.title !== undefined) {
-    fields.push(`title = $${binds.length + 1}`);
-    binds.push(patch.title);
-  }
-  if (patch.notes !== undefined) {
-    fields.push(`notes = $${binds.length + 1}`);
-    binds.push(patch.notes);
-  }
-  if (patch.priority !== undefined) {
-    fields.push(`priority = $${binds.length + 1}`);
-    binds.push(patch.priority);
-  }
+  if (patch.title !== undefined) set("title", patch.title);
+  if (patch.notes !== undefined) set("notes", patch.notes);
+  if (patch.priority !== undefined) set("priority", patch.priority);
   if (patch.dueAt !== undefined) {
-    fields.push(`due_at = $${binds.length + 1}`);
-    binds.push(patch.dueAt);
+    set("due_at", patch.dueAt);
+    // A time of day means nothing without a day.
+    if (patch.dueAt === null) fields.push("due_time = NULL");
+  }
+  if (patch.dueTime !== undefined && patch.dueAt === undefined) {
+    // Tasks keep their day, so only those that have one take the time.
+    fields.push(`due_time = CASE WHEN due_at IS NULL THEN NULL ELSE ${bindNext(binds, patch.dueTime)} END`);
+  } else if (patch.dueTime !== undefined && patch.dueAt !== null) {
+    set("due_time", patch.dueTime);
   }
+  if (patch.startAt !== undefined) set("start_at", patch.startAt);
   if (patch.projectId !== undefined) {
-    fields.push(`project_id = $${binds.length + 1}`);
-    binds.push(patch.projectId);
+    set("project_id", patch.projectId);
+    // Board columns belong to the old project; start in the new one's first column.
+    fields.push("column_id = NULL");
+  }
+  if (patch.recurrence !== undefined) set("recurrence", patch.recurrence);
+  set("updated_at", nowIso());
+
+  await db.execute(`UPDATE tasks SET ${fields.join(", ")} WHERE id IN (${bindList(binds, taskIds)})`, binds);
+
+  if (patch.dueAt !== undefined || patch.dueTime !== undefined) {
+    // Relative reminders follow the new deadline.
+    const reminderBinds: unknown[] = [];
+    await db.execute(
+      `UPDATE reminders SET snoozed_until = NULL, fired_for = NULL
+       WHERE offset_minutes IS NOT NULL AND task_id IN (${bindList(reminderBinds, taskIds)})`,
+      reminderBinds,
+    );
   }
+}
 
-  fields.push(`updated_at = $${binds.length + 1}`);
-  binds.push(nowIso());
+export async function updateTask(taskId: string, patch: TaskPatch): Promise<void> {
+  return withUndo("Edit task", async () => {
+    const db = await getDb();
+    await applyTaskPatch(db, [taskId], patch);
+  });
+}
 
-  binds.push(taskId);
-  const sql = `UPDATE tasks SET ${fields.join(", ")} WHERE id = $${binds.length}`;
-  await db.execute(sql, binds);
+/** Applies the same patch (move, priority, due date...) to many tasks as one step. */
+export async function updateTasks(taskIds: string[], patch: TaskPatch): Promise<void> {
+  if (taskIds.length === 0) return;
+  return withUndo(tasksLabel(patch.projectId !== undefined ? "Move" : "Edit", taskIds.length), async () => {
+    const db = await getDb();
+    await inTransaction(db, () => applyTaskPatch(db, taskIds, patch));
+  });
 }
 
+/** Moves a task to Trash; its tags, project and position stay on the row. */
 export async function deleteTask(taskId: string): Promise<void> {
+  return withUndo("Delete task", async () => {
+    const db = await getDb();
+    await db.execute("UPDATE tasks SET deleted_at = $1 WHERE id = $2 AND deleted_at IS NULL", [nowIso(), taskId]);
+  });
+}
+
+export async function deleteTasks(taskIds: string[]): Promise<void> {
+  if (taskIds.length === 0) return;
+  return withUndo(tasksLabel("Delete", taskIds.length), async () => {
+    const db = await getDb();
+    const binds: unknown[] = [nowIso()];
+    await db.execute(`UPDATE tasks SET deleted_at = $1 WHERE deleted_at IS NULL AND id IN (${bindList(binds, taskIds)})`, binds);
+  });
+}
+
+/** Takes tasks out of Trash. A task whose project is also in Trash brings the project back (empty of its other tasks). */
+export async function restoreTasks(taskIds: string[]): Promise<void> {
+  if (taskIds.length === 0) return;
+  return withUndo(tasksLabel("Restore", taskIds.length), async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      const projectBinds: unknown[] = [];
+      await db.execute(
+        `UPDATE projects SET deleted_at = NULL
+         WHERE deleted_at IS NOT NULL AND id IN (SELECT project_id FROM tasks WHERE id IN (${bindList(projectBinds, taskIds)}))`,
+        projectBinds,
+      );
+      const binds: unknown[] = [];
+      await db.execute(`UPDATE tasks SET deleted_at = NULL WHERE id IN (${bindList(binds, taskIds)})`, binds);
+    });
+  });
+}
+
+/** Permanently deletes trashed tasks (tags, subtasks and reminders cascade). Undoable until restart. */
+export async function purgeTasks(taskIds: string[]): Promise<void> {
+  if (taskIds.length === 0) return;
+  return withUndo(taskIds.length === 1 ? "Delete task permanently" : `Delete ${taskIds.length} tasks permanently`, async () => {
+    const db = await getDb();
+    const binds: unknown[] = [];
+    await db.execute(`DELETE FROM tasks WHERE deleted_at IS NOT NULL AND id IN (${bindList(binds, taskIds)})`, binds);
+  });
+}
+
+export async function countTrash(): Promise<number> {
   const db = await getDb();
-  await db.execute("DELETE FROM tasks WHERE id = $1", [taskId]);
+  const rows = await db.select<{ n: number }>(
+    "SELECT (SELECT COUNT(*) FROM tasks WHERE deleted_at IS NOT NULL) + (SELECT COUNT(*) FROM projects WHERE deleted_at IS NOT NULL) AS n",
+  );
+  return Number(rows?.[0]?.n ?? 0);
+}
+
+export async function emptyTrash(): Promise<void> {
+  return withUndo("Empty trash", async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      await db.execute("DELETE FROM tasks WHERE deleted_at IS NOT NULL");
+      await db.execute("DELETE FROM projects WHERE deleted_at IS NOT NULL");
+    });
+  });
+}
+
+/**
+ * Auto-purge, run at start-up: drops whatever has sat in Trash longer than
+ * `days`. Not an undo step; there is nothing to undo it into at boot.
+ */
+export async function purgeExpiredTrash(days: number): Promise<void> {
+  if (!(days > 0)) return;
+  const db = await getDb();
+  const cutoff = new Date(Date.now() - days * 86_400_000).toISOString();
+  await inTransaction(db, async () => {
+    await db.execute("DELETE FROM tasks WHERE deleted_at IS NOT NULL AND deleted_at < $1", [cutoff]);
+    await db.execute("DELETE FROM projects WHERE deleted_at IS NOT NULL AND deleted_at < $1", [cutoff]);
+  });
+}
+
+export async function tagTasks(taskIds: string[], tagId: string): Promise<void> {
+  if (taskIds.length === 0) return;
+  return withUndo(tasksLabel("Tag", taskIds.length), async () => {
+    const db = await getDb();
+    await inTransaction(db, async () => {
+      for (const id of taskIds) {
+        await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1, $2)", [id, tagId]);
+      }
+    });
+  });
+}
+
+/** Tags the tasks with `name`, creating the tag if needed, as one step. */
+export async function tagTasksByName(taskIds: string[], name: string): Promise<Tag> {
+  return withUndo(tasksLabel("Tag", taskIds.length), async () => {
+    const db = await getDb();
+    return inTransaction(db, async () => {
+      const tag = await ensureTagRow(db, name);
+      for (const id of taskIds) {
+        await db.execute("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES ($1, $2)", [id, tag.id]);
+      }
+      return tag;
+    });
+  });
+}
+
+export async function untagTasks(taskIds: string[], tagId: string): Promise<void> {
+  if (taskIds.length === 0) return;
+  return withUndo(tasksLabel("Untag", taskIds.length), async () => {
+    const db = await getDb();
+    const binds: unknown[] = [tagId];
+    await inTransaction(db, () =>
+      db.execute(`DELETE FROM task_tags WHERE tag_id = $1 AND task_id IN (${bindList(binds, taskIds)})`, binds),
+    );
+  });
+}
+
+export async function listSubtasks(taskId: string): Promise<Subtask[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    "SELECT id, task_id, title, completed, sort_order, created_at FROM subtasks WHERE task_id = $1 ORDER BY sort_order ASC, created_at ASC",
+    [taskId],
+  );
+  return rows.map(mapSubtask);
+}
+
+export async function createSubtask(taskId: string, titleRaw: string): Promise<Subtask> {
+  return withUndo("Add step", async () => {
+    const db = await getDb();
+    const title = titleRaw.trim();
+    if (!title) throw new Error("Subtask title required");
+    const id = crypto.randomUUID();
+    const createdAt = nowIso();
+    const sortRow = await db.select<{ next: number }>(
+      "SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM subtasks WHERE task_id = $1",
+      [taskId],
+    );
+    const sortOrder = Number(sortRow?.[0]?.next ?? 0);
+
+    await db.execute(
+      "INSERT INTO subtasks (id, task_id, title, completed, sort_order, created_at) VALUES ($1,$2,$3,$4,$5,$6)",
+      [id, taskId, title, 0, sortOrder, createdAt],
+    );
+    await db.execute("UPDATE tasks SET updated_at = $1 WHERE id = $2", [createdAt, taskId]);
+    return { id, taskId, title, completed: false, sortOrder, createdAt };
+  });
+}
+
+export async function renameSubtask(subtaskId: string, titleRaw: string): Promise<void> {
+  return withUndo("Rename step", async () => {
+    const db = await getDb();
+    const title = titleRaw.trim();
+    if (!title) throw new Error("Subtask title required");
+    await db.execute("UPDATE subtasks SET title = $1 WHERE id = $2", [title, subtaskId]);
+  });
+}
+
+/**
+ * Checks or unchecks a step. With `completeParent`, checking the last open step
+ * also completes the parent task (through setTaskCompleted, so recurrence applies).
+ * Returns true when the parent was completed.
+ */
+export async function toggleSubtaskCompleted(
+  subtaskId: string,
+  completed: boolean,
+  opts: { completeParent?: boolean } = {},
+): Promise<boolean> {
+  return withUndo(completed ? "Check step" : "Uncheck step", async () => {
+    const db = await getDb();
+    const rows = await db.select<{ task_id: string }>("SELECT task_id FROM subtasks WHERE id = $1", [subtaskId]);
+    if (rows.length === 0) return false;
+    const taskId = String(rows[0].task_id);
+
+    await db.execute("UPDATE subtasks SET completed = $1 WHERE id = $2", [completed ? 1 : 0, subtaskId]);
+    await db.execute("UPDATE tasks SET updated_at = $1 WHERE id = $2", [nowIso(), taskId]);
+    if (!completed || !opts.completeParent) return false;
+
+    const open = await db.select<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM subtasks WHERE task_id = $1 AND completed = 0",
+      [taskId],
+    );
+    const parent = await db.select<{ completed: number }>("SELECT completed FROM tasks WHERE id = $1", [taskId]);
+    if (Number(open?.[0]?.count ?? 0) > 0 || parent.length === 0 || Number(parent[0].completed)) return false;
+
+    await inTransaction(db, () => setTaskCompleted(db, taskId, true, nowIso()));
+    return true;
+  });
+}
+
+export async function deleteSubtask(subtaskId: string): Promise<void> {
+  return withUndo("Delete step", async () => {
+    const db = await getDb();
+    await db.execute("DELETE FROM subtasks WHERE id = $1", [subtaskId]);
+  });
+}
+
+export async function reorderSubtasks(taskId: string, orderedSubtaskIds: string[]): Promise<void> {
+  return withUndo("Reorder steps", async () => {
+    const db = await getDb();
+    await db.execute("BEGIN");
+    try {
+      for (let i = 0; i < orderedSubtaskIds.length; i++) {
+        await db.execute("UPDATE subtasks SET sort_order = $1 WHERE id = $2 AND task_id = $3", [i, orderedSubtaskIds[i], taskId]);
+      }
+      await db.execute("COMMIT");
+    } catch (e) {
+      await db.execute("ROLLBACK");
+      throw e;
+    }
+  });
+}
+
+function mapTaskLink(row: any): TaskLink {
+  return {
+    id: String(row.id),
+    title: String(row.title),
+    completed: Boolean(row.completed),
+    projectId: row.project_id ?? null,
+  };
+}
+
+/** Tasks that `taskId` is blocked by (open ones first). Trashed blockers are left out. */
+export async function listTaskBlockers(taskId: string): Promise<TaskLink[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    `SELECT b.id, b.title, b.completed, b.project_id FROM task_dependencies d INNER JOIN tasks b ON b.id = d.blocked_by_id
+     WHERE d.task_id = $1 AND b.deleted_at IS NULL ORDER BY b.completed ASC, d.created_at ASC`,
+    [taskId],
+  );
+  return rows.map(mapTaskLink);
+}
+
+/** Tasks waiting on `taskId`. */
+export async function listBlockedTasks(taskId: string): Promise<TaskLink[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    `SELECT t.id, t.title, t.completed, t.project_id FROM task_dependencies d INNER JOIN tasks t ON t.id = d.task_id
+     WHERE d.blocked_by_id = $1 AND t.deleted_at IS NULL ORDER BY t.completed ASC, d.created_at ASC`,
+    [taskId],
+  );
+  return rows.map(mapTaskLink);
+}
+
+/**
+ * Whether making `taskId` wait on `blockedById` would close a loop, i.e. the
+ * blocker already waits on the task, directly or through other tasks. Trashed
+ * and completed tasks count: they can come back.
+ */
+export async function createsDependencyCycle(db: SqlDb, taskId: string, blockedById: string): Promise<boolean> {
+  if (taskId === blockedById) return true;
+  const rows = await db.select(
+    `WITH RECURSIVE chain(id) AS (
+       SELECT $1
+       UNION
+       SELECT d.blocked_by_id FROM task_dependencies d INNER JOIN chain c ON d.task_id = c.id
+     )
+     SELECT 1 FROM chain WHERE id = $2 LIMIT 1`,
+    [blockedById, taskId],
+  );
+  return rows.length > 0;
+}
+
+export async function addTaskBlocker(taskId: string, blockedById: string): Promise<void> {
+  return withUndo("Add blocker", async () => {
+    const db = await getDb();
+    if (taskId === blockedById) throw new Error("A task can't block itself");
+    if (await createsDependencyCycle(db, taskId, blockedById)) {
+      const rows = await db.select<{ title: string }>("SELECT title FROM tasks WHERE id = $1", [blockedById]);
+      throw new Error(`"${rows[0]?.title ?? "That task"}" already waits on this one; blocking on it would create a cycle`);
+    }
+    await db.execute("INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id, created_at) VALUES ($1,$2,$3)", [
+      taskId,
+      blockedById,
+      nowIso(),
+    ]);
+  });
+}
+
+export async function removeTaskBlocker(taskId: string, blockedById: string): Promise<void> {
+  return withUndo("Remove blocker", async () => {
+    const db = await getDb();
+    await db.execute("DELETE FROM task_dependencies WHERE task_id = $1 AND blocked_by_id = $2", [taskId, blockedById]);
+  });
+}
+
+/** Open tasks waiting on any of `taskIds` that have no open blockers left. */
+export async function listTasksUnblockedBy(taskIds: string[]): Promise<TaskLink[]> {
+  if (taskIds.length === 0) return [];
+  const db = await getDb();
+  const binds: unknown[] = [];
+  const rows = await db.select(
+    `SELECT t.id, t.title, t.completed, t.project_id FROM tasks t
+     WHERE t.id IN (SELECT task_id FROM task_dependencies WHERE blocked_by_id IN (${bindList(binds, taskIds)}))
+       AND t.completed = 0 AND t.deleted_at IS NULL AND ${OPEN_BLOCKERS_SQL} = 0
+     ORDER BY t.created_at ASC`,
+    binds,
+  );
+  return rows.map(mapTaskLink);
+}
+
+/** A task's history, newest first. */
+export async function listTaskEvents(taskId: string): Promise<TaskEvent[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    `SELECT id, task_id, kind, field, old_value, new_value, created_at FROM task_events
+     WHERE task_id = $1 ORDER BY created_at DESC, rowid DESC`,
+    [taskId],
+  );
+  return rows.map(mapTaskEvent);
+}
+
+const REMINDER_COLUMNS = "id, task_id, at, offset_minutes, snoozed_until, fired_for, created_at";
+
+export async function listReminders(taskId: string): Promise<Reminder[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    `SELECT ${REMINDER_COLUMNS} FROM reminders WHERE task_id = $1 ORDER BY at IS NULL, at ASC, offset_minutes DESC`,
+    [taskId],
+  );
+  return rows.map(mapReminder);
+}
+
+/** Reminders of open tasks, with what the scheduler needs to know about the task. */
+export async function listActiveReminders(): Promise<
+  Array<{ reminder: Reminder; task: Pick<Task, "id" | "title" | "dueAt" | "dueTime"> }>
+> {
+  const db = await getDb();
+  const rows = await db.select<any>(
+    `SELECT r.id, r.task_id, r.at, r.offset_minutes, r.snoozed_until, r.fired_for, r.created_at,
+       t.title AS task_title, t.due_at AS task_due_at, t.due_time AS task_due_time
+     FROM reminders r INNER JOIN tasks t ON t.id = r.task_id
+     WHERE t.completed = 0 AND t.deleted_at IS NULL AND ${outsideArchivedSql("t")}`,
+  );
+  return rows.map((row) => ({
+    reminder: mapReminder(row),
+    task: { id: String(row.task_id), title: String(row.task_title), dueAt: row.task_due_at ?? null, dueTime: row.task_due_time ?? null },
+  }));
+}
+
+export async function createReminder(
+  taskId: string,
+  input: { at: string; offsetMinutes?: never } | { offsetMinutes: number; at?: never },
+): Promise<Reminder> {
+  return withUndo("Add reminder", async () => {
+    const db = await getDb();
+    const reminder: Reminder = {
+      id: crypto.randomUUID(),
+      taskId,
+      at: input.at ?? null,
+      offsetMinutes: input.offsetMinutes ?? null,
+      snoozedUntil: null,
+      firedFor: null,
+      createdAt: nowIso(),
+    };
+    await db.execute(`INSERT INTO reminders (${REMINDER_COLUMNS}) VALUES ($1,$2,$3,$4,$5,$6,$7)`, [
+      reminder.id,
+      reminder.taskId,
+      reminder.at,
+      reminder.offsetMinutes,
+      null,
+      null,
+      reminder.createdAt,
+    ]);
+    return reminder;
+  });
+}
+
+export async function deleteReminder(reminderId: string): Promise<void> {
+  return withUndo("Remove reminder", async () => {
+    const db = await getDb();
+    await db.execute("DELETE FROM reminders WHERE id = $1", [reminderId]);
+  });
+}
+
+export async function snoozeReminder(reminderId: string, until: string): Promise<void> {
+  return withUndo("Snooze reminder", async () => {
+    const db = await getDb();
+    await db.execute("UPDATE reminders SET snoozed_until = $1 WHERE id = $2", [until, reminderId]);
+  });
+}
+
+/**
+ * Scheduler bookkeeping, kept out of the undo history: the undo triggers skip
+ * updates that only touch fired_for (history.ts UNLOGGED_COLUMNS), so undo
+ * never makes an already-shown notification fire again.
+ */
+export async function markReminderFired(reminderId: string, fireAt: string): Promise<void> {
+  const db = await getDb();
+  await db.execute("UPDATE reminders SET fired_for = $1 WHERE id = $2", [fireAt, reminderId]);
+}
+
+const ATTACHMENT_COLUMNS = "id, task_id, kind, name, target, size, created_at";
+
+export async function listAttachments(taskId: string): Promise<Attachment[]> {
+  const db = await getDb();
+  const rows = await db.select(`SELECT ${ATTACHMENT_COLUMNS} FROM attachments WHERE task_id = $1 ORDER BY created_at ASC`, [taskId]);
+  return rows.map(mapAttachment);
+}
+
+/** Every file path attachments point at, relative to the app data directory. */
+export async function listAttachmentFileTargets(): Promise<string[]> {
+  const db = await getDb();
+  const rows = await db.select<{ target: string }>("SELECT target FROM attachments WHERE kind = 'file'");
+  return rows.map((r) => String(r.target));
+}
+
+/** Records an attachment; for files the copy must already be in place (see data/attachments.ts). */
+async function insertAttachment(db: SqlDb, input: Omit<Attachment, "createdAt">): Promise<Attachment> {
+  const name = input.name.trim() || input.target;
+  const attachment: Attachment = { ...input, name, createdAt: nowIso() };
+  await db.execute(
+    "INSERT INTO attachments (id, task_id, kind, name, target, size, created_at) VALUES ($1,$2,$3,$4,$5,$6,$7)",
+    [attachment.id, attachment.taskId, attachment.kind, attachment.name, attachment.target, attachment.size, attachment.createdAt],
+  );
+  return attachment;
+}
+
+export async function createAttachment(input: Omit<Attachment, "createdAt">): Promise<Attachment> {
+  return withUndo(input.kind === "file" ? "Attach file" : "Attach link", async () => insertAttachment(await getDb(), input));
+}
+
+/** Several attachments as one step, e.g. the files picked in one dialog. */
+export async function createAttachments(inputs: Omit<Attachment, "createdAt">[]): Promise<Attachment[]> {
+  if (inputs.length === 0) return [];
+  return withUndo(inputs.length === 1 ? "Attach file" : `Attach ${inputs.length} files`, async () => {
+    const db = await getDb();
+    return inTransaction(db, async () => {
+      const created: Attachment[] = [];
+      for (const input of inputs) created.push(await insertAttachment(db, input));
+      return created;
+    });
+  });
+}
+
+export async function renameAttachment(attachmentId: string, nameRaw: string): Promise<void> {
+  return withUndo("Rename attachment", async () => {
+    const db = await getDb();
+    const name = nameRaw.trim();
+    if (!name) throw new Error("Attachment name required");
+    await db.execute("UPDATE attachments SET name = $1 WHERE id = $2", [name, attachmentId]);
+  });
+}
+
+/** Removes the row only; a file copy stays until the next start-up sweep so undo can bring it back. */
+export async function deleteAttachment(attachmentId: string): Promise<void> {
+  return withUndo("Remove attachment", async () => {
+    const db = await getDb();
+    await db.execute("DELETE FROM attachments WHERE id = $1", [attachmentId]);
+  });
+}
+
+export type SavedViewInput = Pick<SavedView, "name" | "search" | "tagIds" | "projectId" | "priorityMin" | "dueFrom" | "dueTo" | "includeCompleted">;
+
+export async function listSavedViews(): Promise<SavedView[]> {
+  const db = await getDb();
+  const rows = await db.select(
+    "SELECT id, name, search, tag_ids, project_id, priority_min, due_from, due_to, include_completed, sort_order, created_at FROM saved_views ORDER BY sort_order ASC, created_at ASC",
+  );
+  return rows.map(mapSavedView);
+}
+
+export async function createSavedView(input: SavedViewInput): Promise<SavedView> {
+  return withUndo("Save view", async () => {
+    const db = await getDb();
+    const name = input.name.trim();
+    if (!name) throw new Error("View name required");
+    const id = crypto.randomUUID();
+    const createdAt = nowIso();
+    const sortRow = await db.select<{ next: number }>("SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM saved_views");
+    const sortOrder = Number(sortRow?.[0]?.next ?? 0);
+
+    await db.execute(
+      "INSERT INTO saved_views (id, name, search, tag_ids, project_id, priority_min, due_from, due_to, include_completed, sort_order, created_at) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)",
+      [
+        id,
+        name,
+        input.search.trim(),
+        JSON.stringify(input.tagIds),
+        input.projectId ?? null,
+        input.priorityMin ?? null,
+        input.dueFrom ?? null,
+        input.dueTo ?? null,
+        input.includeCompleted ? 1 : 0,
+        sortOrder,
+        createdAt,
+      ],
+    );
+    return { ...input, id, name, search: input.search.trim(), sortOrder, createdAt };
+  });
+}
+
+export async function updateSavedView(viewId: string, input: SavedViewInput): Promise<void> {
+  return withUndo("Edit view", async () => {
+    const db = await getDb();
+    const name = input.name.trim();
+    if (!name) throw new Error("View name required");
+    await db.execute(
+      "UPDATE saved_views SET name = $1, search = $2, tag_ids = $3, project_id = $4, priority_min = $5, due_from = $6, due_to = $7, include_completed = $8 WHERE id = $9",
+      [
+        name,
+        input.search.trim(),
+        JSON.stringify(input.tagIds),
+        input.projectId ?? null,
+        input.priorityMin ?? null,
+        input.dueFrom ?? null,
+        input.dueTo ?? null,
+        input.includeCompleted ? 1 : 0,
+        viewId,
+      ],
+    );
+  });
+}
+
+export async function deleteSavedView(viewId: string): Promise<void> {
+  return withUndo("Delete view", async () => {
+    const db = await getDb();
+    await db.execute("DELETE FROM saved_views WHERE id = $1", [viewId]);
+  });
 }
@@ -0,0 +1,50 @@
+import type { BoardColumn, Task } from "../types";
+
+// Where tasks sit on a project board. The done column follows tasks.completed:
+// completed tasks show there whatever their column_id, and an open task whose
+// column_id points at it (reopened elsewhere) falls back to the first column,
+// as do tasks with no or an unknown column_id.
+
+export const DEFAULT_BOARD_COLUMNS: Array<{ name: string; isDone: boolean }> = [
+  { name: "Backlog", isDone: false },
+  { name: "Doing", isDone: false },
+  { name: "Review", isDone: false },
+  { name: "Done", isDone: true },
+];
+
+export function boardColumnOf(task: Pick<Task, "completed" | "columnId">, columns: BoardColumn[]): string | null {
+  const done = columns.find((c) => c.isDone);
+  if (task.completed && done) return done.id;
+  const own = columns.find((c) => c.id === task.columnId);
+  if (own && !own.isDone) return own.id;
+  return columns.find((c) => !c.isDone)?.id ?? columns[0]?.id ?? null;
+}
+
+/** Tasks per column id, keeping the order they come in (sort_order). */
+export function groupByColumn(columns: BoardColumn[], tasks: Task[]): Map<string, Task[]> {
+  const groups = new Map(columns.map((c) => [c.id, [] as Task[]] as const));
+  for (const t of tasks) {
+    const col = boardColumnOf(t, columns);
+    if (col) groups.get(col)!.push(t);
+  }
+  return groups;
+}
+
+/**
+ * The project's task order after dropping `taskId` into `toColumnId` before
+ * `beforeTaskId` (or at the end). Columns are laid end to end, so sort_order
+ * also keeps the list view grouped by status.
+ */
+export function orderAfterMove(
+  columns: BoardColumn[],
+  groups: Map<string, Task[]>,
+  taskId: string,
+  toColumnId: string,
+  beforeTaskId: string | null,
+): string[] {
+  const ids = new Map(columns.map((c) => [c.id, (groups.get(c.id) ?? []).map((t) => t.id).filter((id) => id !== taskId)]));
+  const target = ids.get(toColumnId) ?? [];
+  const at = beforeTaskId ? target.indexOf(beforeTaskId) : -1;
+  target.splice(at >= 0 ? at : target.length, 0, taskId);
+  return columns.flatMap((c) => ids.get(c.id) ?? []);
+}
@@ -0,0 +1,35 @@
+import { isoDateFromDate, parseIsoDate, shiftIsoDate, startOfWeek } from "./date";
+
+// Day ranges for the calendar layout. Grids always run Monday to Sunday; a month
+// grid starts on the Monday on or before the 1st and covers whole weeks.
+
+export type CalendarMode = "month" | "week";
+
+export function calendarDays(mode: CalendarMode, anchor: string): string[] {
+  if (mode === "week") {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => shiftIsoDate(start, i));
+  }
+  const first = `${anchor.slice(0, 7)}-01`;
+  const last = shiftIsoDate(`${shiftIsoDate(first, 31).slice(0, 7)}-01`, -1);
+  const start = startOfWeek(first);
+  const days: string[] = [];
+  for (let d = start; d <= last || days.length % 7 !== 0; d = shiftIsoDate(d, 1)) days.push(d);
+  return days;
+}
+
+/** Moves the anchor one month or week back (-1) or forward (1). */
+export function shiftCalendarAnchor(mode: CalendarMode, anchor: string, step: number): string {
+  if (mode === "week") return shiftIsoDate(anchor, step * 7);
+  const d = parseIsoDate(`${anchor.slice(0, 7)}-01`);
+  d.setMonth(d.getMonth() + step);
+  return isoDateFromDate(d);
+}
+
+export function calendarTitle(mode: CalendarMode, anchor: string): string {
+  if (mode === "month") {
+    return parseIsoDate(anchor).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+  }
+  const days = calendarDays("week", anchor);
+  return `${days[0]} – ${days[6]}`;
+}
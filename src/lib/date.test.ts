@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { daysBetween, formatDue, isPastDue, parseTimeOfDay, shiftIsoDate, shiftLocalDateTime } from "./date";
+
+// Runs with TZ=America/New_York (vite.config.ts): DST starts 2026-03-08 02:00
+// and ends 2026-11-01 02:00.
+
+it("runs in a zone with DST", () => {
+  // Otherwise the DST cases below would pass without testing anything.
+  expect(new Date(2026, 0, 15).getTimezoneOffset()).toBe(300);
+  expect(new Date(2026, 6, 15).getTimezoneOffset()).toBe(240);
+});
+
+describe("shiftIsoDate", () => {
+  it("rolls over month and year ends", () => {
+    expect(shiftIsoDate("2026-01-31", 1)).toBe("2026-02-01");
+    expect(shiftIsoDate("2026-03-01", -1)).toBe("2026-02-28");
+    expect(shiftIsoDate("2026-12-31", 1)).toBe("2027-01-01");
+    expect(shiftIsoDate("2027-01-01", -1)).toBe("2026-12-31");
+    expect(shiftIsoDate("2026-01-15", 365)).toBe("2027-01-15");
+  });
+
+  it("knows leap days", () => {
+    expect(shiftIsoDate("2024-02-28", 1)).toBe("2024-02-29");
+    expect(shiftIsoDate("2024-02-29", 1)).toBe("2024-03-01");
+    expect(shiftIsoDate("2026-02-28", 1)).toBe("2026-03-01");
+  });
+
+  it("moves one calendar day across DST transitions", () => {
+    expect(shiftIsoDate("2026-03-07", 1)).toBe("2026-03-08");
+    expect(shiftIsoDate("2026-03-08", 1)).toBe("2026-03-09");
+    expect(shiftIsoDate("2026-03-09", -2)).toBe("2026-03-07");
+    expect(shiftIsoDate("2026-10-31", 1)).toBe("2026-11-01");
+    expect(shiftIsoDate("2026-11-01", 1)).toBe("2026-11-02");
+    expect(shiftIsoDate("2026-11-02", -2)).toBe("2026-10-31");
+  });
+
+  it("leaves the date alone for zero", () => {
+    expect(shiftIsoDate("2026-03-08", 0)).toBe("2026-03-08");
+  });
+});
+
+describe("daysBetween", () => {
+  it("counts calendar days, signed", () => {
+    expect(daysBetween("2026-05-01", "2026-05-11")).toBe(10);
+    expect(daysBetween("2026-05-11", "2026-05-01")).toBe(-10);
+    expect(daysBetween("2026-05-01", "2026-05-01")).toBe(0);
+  });
+
+  it("spans month, year and leap-day boundaries", () => {
+    expect(daysBetween("2026-01-31", "2026-02-01")).toBe(1);
+    expect(daysBetween("2026-12-31", "2027-01-01")).toBe(1);
+    expect(daysBetween("2024-02-28", "2024-03-01")).toBe(2);
+    expect(daysBetween("2026-01-01", "2027-01-01")).toBe(365);
+  });
+
+  it("treats 23- and 25-hour DST days as one day", () => {
+    expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2);
+    expect(daysBetween("2026-03-08", "2026-03-09")).toBe(1);
+    expect(daysBetween("2026-10-31", "2026-11-02")).toBe(2);
+    expect(daysBetween("2026-11-01", "2026-11-02")).toBe(1);
+    expect(daysBetween("2026-01-01", "2026-12-31")).toBe(364);
+  });
+});
+
+describe("parseTimeOfDay", () => {
+  it("normalises 24-hour times", () => {
+    expect(parseTimeOfDay("17:30")).toBe("17:30");
+    expect(parseTimeOfDay("9:05")).toBe("09:05");
+    expect(parseTimeOfDay(" 00:00 ")).toBe("00:00");
+    expect(parseTimeOfDay("23:59")).toBe("23:59");
+  });
+
+  it("reads am/pm", () => {
+    expect(parseTimeOfDay("5pm")).toBe("17:00");
+    expect(parseTimeOfDay("5:30 PM")).toBe("17:30");
+    expect(parseTimeOfDay("12am")).toBe("00:00");
+    expect(parseTimeOfDay("12pm")).toBe("12:00");
+    expect(parseTimeOfDay("11:15 a.m.")).toBe("11:15");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseTimeOfDay("17")).toBeNull();
+    expect(parseTimeOfDay("24:00")).toBeNull();
+    expect(parseTimeOfDay("9:60")).toBeNull();
+    expect(parseTimeOfDay("13pm")).toBeNull();
+    expect(parseTimeOfDay("0am")).toBeNull();
+    expect(parseTimeOfDay("noon")).toBeNull();
+    expect(parseTimeOfDay("")).toBeNull();
+  });
+});
+
+describe("shiftLocalDateTime", () => {
+  it("does wall-clock arithmetic within a day", () => {
+    expect(shiftLocalDateTime("2026-05-10T09:00", -15)).toBe("2026-05-10T08:45");
+    expect(shiftLocalDateTime("2026-05-10T09:00", 90)).toBe("2026-05-10T10:30");
+  });
+
+  it("rolls over midnight, month and year ends", () => {
+    expect(shiftLocalDateTime("2026-01-31T23:30", 60)).toBe("2026-02-01T00:30");
+    expect(shiftLocalDateTime("2026-03-01T00:10", -30)).toBe("2026-02-28T23:40");
+    expect(shiftLocalDateTime("2026-12-31T23:50", 15)).toBe("2027-01-01T00:05");
+    expect(shiftLocalDateTime("2027-01-01T00:00", -1440)).toBe("2026-12-31T00:00");
+  });
+
+  it("keeps wall-clock days across DST", () => {
+    // A day before is the same clock time, even though 23 or 25 hours pass.
+    expect(shiftLocalDateTime("2026-03-09T09:00", -1440)).toBe("2026-03-08T09:00");
+    expect(shiftLocalDateTime("2026-11-02T09:00", -1440)).toBe("2026-11-01T09:00");
+    expect(shiftLocalDateTime("2026-11-01T00:30", 120)).toBe("2026-11-01T02:30");
+  });
+
+  it("pushes a time in the spring-forward gap forward by an hour", () => {
+    expect(shiftLocalDateTime("2026-03-08T01:30", 30)).toBe("2026-03-08T03:00");
+    expect(shiftLocalDateTime("2026-03-08T01:30", 60)).toBe("2026-03-08T03:30");
+    expect(shiftLocalDateTime("2026-03-08T03:30", -60)).toBe("2026-03-08T03:30");
+    expect(shiftLocalDateTime("2026-03-08T01:59", 1)).toBe("2026-03-08T03:00");
+  });
+});
+
+describe("isPastDue", () => {
+  const today = "2026-10-19";
+
+  it("is false without a due date", () => {
+    expect(isPastDue(null, null, today, "12:00")).toBe(false);
+    expect(isPastDue(undefined, "08:00", today, "12:00")).toBe(false);
+  });
+
+  it("compares days", () => {
+    expect(isPastDue("2026-10-18", null, today, "00:00")).toBe(true);
+    expect(isPastDue("2025-12-31", "23:59", today, "00:00")).toBe(true);
+    expect(isPastDue("2026-10-20", "00:00", today, "23:59")).toBe(false);
+  });
+
+  it("uses the due time on the day itself", () => {
+    expect(isPastDue(today, null, today, "23:59")).toBe(false);
+    expect(isPastDue(today, "09:00", today, "08:59")).toBe(false);
+    expect(isPastDue(today, "09:00", today, "09:00")).toBe(true);
+    expect(isPastDue(today, "09:00", today, "17:30")).toBe(true);
+  });
+});
+
+describe("formatDue", () => {
+  it("appends the time when there is one", () => {
+    expect(formatDue("2026-10-19", null)).toBe("2026-10-19");
+    expect(formatDue("2026-10-19", undefined)).toBe("2026-10-19");
+    expect(formatDue("2026-10-19", "09:30")).toBe("2026-10-19 09:30");
+  });
+});
@@ -1,9 +1,11 @@
+// Dates are calendar days ("YYYY-MM-DD") and times are wall-clock "HH:MM", both
+// floating: they are never converted to UTC instants for storage, so a task due
+// on the 5th at 09:00 stays that way when the machine changes timezone, and DST
+// shifts never move it to another day. Only comparisons against "now" use the
+// current local clock.
+
 export function todayIsoDate(): string {
-  const d = new Date();
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, "0");
-  const day = String(d.getDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
+  return isoDateFromDate(new Date());
 }
 
 export function nowIso(): string {
@@ -18,7 +20,91 @@ export function isoDateFromDate(d: Date): string {
 }
 
 export function addDaysIsoDate(days: number): string {
-  const d = new Date();
+  return shiftIsoDate(todayIsoDate(), days);
+}
+
+export function parseIsoDate(iso: string): Date {
+  const [y, m, d] = iso.split("-").map(Number);
+  // Noon keeps day arithmetic clear of DST transitions.
+  return new Date(y, (m || 1) - 1, d || 1, 12, 0, 0, 0);
+}
+
+export function shiftIsoDate(iso: string, days: number): string {
+  const d = parseIsoDate(iso);
   d.setDate(d.getDate() + days);
   return isoDateFromDate(d);
 }
+
+/** The Monday on or before `iso`; weeks start on Monday throughout the app. */
+export function startOfWeek(iso: string): string {
+  return shiftIsoDate(iso, -((parseIsoDate(iso).getDay() + 6) % 7));
+}
+
+/** True for a well-formed YYYY-MM-DD that names a real day (no Feb 30). */
+export function isValidIsoDate(iso: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(iso) && isoDateFromDate(parseIsoDate(iso)) === iso;
+}
+
+/** Whole calendar days from `from` to `to` (negative if `to` is earlier). */
+export function daysBetween(from: string, to: string): number {
+  // Both at local noon, so a 23h/25h DST day still rounds to one day.
+  return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / 86_400_000);
+}
+
+export function nowTimeOfDay(): string {
+  const d = new Date();
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+/**
+ * Normalises a typed time to "HH:MM": "17:30", "9:05", "5pm", "5:30 PM", "12am".
+ * Returns null for anything else.
+ */
+export function parseTimeOfDay(input: string): string | null {
+  const m = /^(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i.exec(input.trim());
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = m[2] === undefined ? 0 : Number(m[2]);
+  const meridiem = m[3]?.[0].toLowerCase();
+  if (m[2] === undefined && !meridiem) return null; // a bare number is not a time
+  if (min > 59) return null;
+  if (meridiem) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (meridiem === "p" ? 12 : 0);
+  } else if (h > 23) {
+    return null;
+  }
+  return `${String(h).padStart(2, "0")}:${String(min).padStart(2, "0")}`;
+}
+
+/** "YYYY-MM-DDTHH:MM" in local wall-clock time, the format of reminder fire times. */
+export function localDateTime(d: Date): string {
+  return `${isoDateFromDate(d)}T${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+/**
+ * Wall-clock arithmetic on a local "YYYY-MM-DDTHH:MM". A result inside a DST gap
+ * is pushed forward by the gap's length (02:30 on spring-forward night is 03:30).
+ */
+export function shiftLocalDateTime(dateTime: string, minutes: number): string {
+  const d = parseIsoDate(dateTime.slice(0, 10));
+  const [h, min] = dateTime.slice(11, 16).split(":").map(Number);
+  d.setHours(h || 0, (min || 0) + minutes, 0, 0);
+  return localDateTime(d);
+}
+
+/** Past its deadline: an earlier day, or today with a due time that has passed. */
+export function isPastDue(
+  dueAt: string | null | undefined,
+  dueTime: string | null | undefined,
+  today: string = todayIsoDate(),
+  now: string = nowTimeOfDay(),
+): boolean {
+  if (!dueAt) return false;
+  if (dueAt !== today) return dueAt < today;
+  return Boolean(dueTime) && dueTime! <= now;
+}
+
+export function formatDue(dueAt: string, dueTime: string | null | undefined): string {
+  return dueTime ? `${dueAt} ${dueTime}` : dueAt;
+}
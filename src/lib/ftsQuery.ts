@@ -0,0 +1,75 @@
+// Turns the search box text into an SQLite FTS5 MATCH expression.
+//   word      term; the last bare word also matches as a prefix (search-as-you-type)
+//   word*     explicit prefix
+//   "a b"     phrase
+//   -word     exclusion (also -"a phrase")
+// Every term is emitted as a quoted FTS5 string, so user input can never inject
+// FTS5 operators or cause a syntax error.
+
+export type FtsQuery = {
+  match: string | null; // positive terms, ANDed
+  exclude: string | null; // negated terms, ORed; applied as NOT / NOT IN
+};
+
+// Highlight markers used with highlight()/snippet(); control chars never appear in user text.
+export const HL_START = "\u0001";
+export const HL_END = "\u0002";
+
+type Term = { text: string; phrase: boolean; prefix: boolean; negate: boolean };
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function tokenize(input: string): Term[] {
+  const terms: Term[] = [];
+  const re = /(-?)(?:"([^"]*)"?|([^\s"]+))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(input))) {
+    const negate = m[1] === "-";
+    if (m[2] !== undefined) {
+      const text = m[2].trim();
+      if (text) terms.push({ text, phrase: true, prefix: false, negate });
+      continue;
+    }
+    let text = m[3] ?? "";
+    const prefix = text.endsWith("*");
+    text = text.replace(/\*+$/, "");
+    // Tokens made only of punctuation produce no FTS tokens; drop them.
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+    terms.push({ text, phrase: false, prefix, negate });
+  }
+  return terms;
+}
+
+export function toFtsQuery(input: string): FtsQuery {
+  const terms = tokenize(input);
+  const trailingSpace = /\s$/.test(input);
+  const lastBare = [...terms].reverse().find((t) => !t.phrase && !t.negate);
+  const render = (t: Term) => quote(t.text) + (t.prefix || (t === lastBare && !trailingSpace) ? "*" : "");
+
+  const positive = terms.filter((t) => !t.negate).map(render);
+  const negative = terms.filter((t) => t.negate).map((t) => quote(t.text) + (t.prefix ? "*" : ""));
+  return {
+    match: positive.length ? positive.join(" AND ") : null,
+    exclude: negative.length ? negative.join(" OR ") : null,
+  };
+}
+
+/** Splits a highlight()/snippet() result into plain and matched segments. */
+export function splitHighlight(text: string): Array<{ text: string; hit: boolean }> {
+  const out: Array<{ text: string; hit: boolean }> = [];
+  let hit = false;
+  let buf = "";
+  for (const ch of text) {
+    if (ch === HL_START || ch === HL_END) {
+      if (buf) out.push({ text: buf, hit });
+      buf = "";
+      hit = ch === HL_START;
+      continue;
+    }
+    buf += ch;
+  }
+  if (buf) out.push({ text: buf, hit });
+  return out;
+}
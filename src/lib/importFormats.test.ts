@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectImportFormat,
+  parseCsv,
+  parseLooseDate,
+  parseTaskPaper,
+  parseTodoistCsv,
+  parseTodoTxt,
+  summarizeImport,
+} from "./importFormats";
+
+// 2026-10-19 is a Monday.
+const today = "2026-10-19";
+
+describe("parseLooseDate", () => {
+  it("reads ISO dates and times", () => {
+    expect(parseLooseDate("2026-11-01", today)).toEqual({ dueAt: "2026-11-01", dueTime: null, recurrence: null });
+    expect(parseLooseDate("2026-11-01 09:30", today)).toEqual({ dueAt: "2026-11-01", dueTime: "09:30", recurrence: null });
+    expect(parseLooseDate("2026-11-01T09:30:00", today)?.dueTime).toBe("09:30");
+    expect(parseLooseDate("2026-02-30", today)).toBeNull();
+  });
+
+  it("reads month names, rolling a past day without a year into next year", () => {
+    expect(parseLooseDate("Nov 1", today)?.dueAt).toBe("2026-11-01");
+    expect(parseLooseDate("1 Nov 2027", today)?.dueAt).toBe("2027-11-01");
+    expect(parseLooseDate("November 1, 2026", today)?.dueAt).toBe("2026-11-01");
+    expect(parseLooseDate("Sep 3", today)?.dueAt).toBe("2027-09-03");
+    expect(parseLooseDate("Oct 19", today)?.dueAt).toBe(today);
+  });
+
+  it("resolves relative words", () => {
+    expect(parseLooseDate("today", today)?.dueAt).toBe(today);
+    expect(parseLooseDate("tomorrow 9am", today)).toEqual({ dueAt: "2026-10-20", dueTime: "09:00", recurrence: null });
+    expect(parseLooseDate("in 3 days", today)?.dueAt).toBe("2026-10-22");
+  });
+
+  it("puts a weekday on its next occurrence, with or without a repeat", () => {
+    expect(parseLooseDate("monday", today)?.dueAt).toBe("2026-10-26");
+    expect(parseLooseDate("every monday", today)).toEqual({
+      dueAt: "2026-10-26",
+      dueTime: null,
+      recurrence: "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO",
+    });
+    expect(parseLooseDate("fri", today)?.dueAt).toBe("2026-10-23");
+    expect(parseLooseDate("every fri", today)?.dueAt).toBe("2026-10-23");
+  });
+
+  it("starts other repeats today", () => {
+    expect(parseLooseDate("every day", today)).toEqual({ dueAt: today, dueTime: null, recurrence: "FREQ=DAILY;INTERVAL=1" });
+    expect(parseLooseDate("every 2 weeks", today)?.recurrence).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO");
+    expect(parseLooseDate("every month", today)?.recurrence).toBe("FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=19");
+  });
+
+  it("gives up on anything that is not only a date", () => {
+    expect(parseLooseDate("every other full moon", today)).toBeNull();
+    expect(parseLooseDate("buy milk tomorrow", today)).toBeNull();
+    expect(parseLooseDate("", today)).toBeNull();
+  });
+});
+
+describe("parseTodoTxt", () => {
+  it("maps priority, projects, contexts, dates and completion", () => {
+    const plan = parseTodoTxt(
+      [
+        "(A) 2026-10-01 Call mom +Family @phone due:2026-10-20 t:2026-10-18",
+        "x 2026-10-18 2026-10-01 Pay rent +Home_Stuff +Bills pri:B",
+        "",
+        "(Z) Low +Family",
+        "+OnlyProject",
+      ].join("\n"),
+    );
+    expect(plan.tasks).toHaveLength(3);
+    expect(plan.tasks[0]).toMatchObject({
+      title: "Call mom",
+      projectPath: ["Family"],
+      tags: ["phone"],
+      priority: 3,
+      dueAt: "2026-10-20",
+      startAt: "2026-10-18",
+      completed: false,
+    });
+    expect(plan.tasks[1]).toMatchObject({
+      title: "Pay rent",
+      projectPath: ["Home Stuff"],
+      tags: ["Bills"],
+      priority: 2,
+      completed: true,
+      completedAt: "2026-10-18",
+    });
+    expect(plan.tasks[2]).toMatchObject({ title: "Low", priority: 0 });
+    expect(plan.warnings).toEqual(["Line 5: no task text, skipped"]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quoted commas, doubled quotes, newlines, CRLF and a BOM", () => {
+    expect(parseCsv('﻿a,b\r\n"x, y","say ""hi""\nagain"\r\n\r\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nagain'],
+    ]);
+  });
+});
+
+describe("parseTodoistCsv", () => {
+  const csv = [
+    "TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE",
+    "task,Inbox sweep,,4,1,Me,,,en,",
+    "section,Planning,,,,,,,,",
+    'task,Write spec @work @deep,"Long, ""quoted""\ndesc",1,1,Me,,Oct 25,en,Europe/Berlin',
+    "task,Sub step,,4,2,Me,,,en,",
+    "note,A comment,,,,,,,,",
+    "task,Weekly sync,,2,1,Me,,every monday,en,",
+    "task,Odd date,,4,1,Me,,every other full moon,en,",
+  ].join("\n");
+
+  it("files tasks under the file's project and its sections", () => {
+    const plan = parseTodoistCsv(csv, "/exports/Work Project.csv", today);
+    expect(plan.tasks.map((t) => [t.title, t.projectPath])).toEqual([
+      ["Inbox sweep", ["Work Project"]],
+      ["Write spec", ["Work Project", "Planning"]],
+      ["Weekly sync", ["Work Project", "Planning"]],
+      ["Odd date", ["Work Project", "Planning"]],
+    ]);
+  });
+
+  it("reads quoted descriptions, labels, priority, dates and indented sub-tasks", () => {
+    const spec = parseTodoistCsv(csv, "Work Project.csv", today).tasks[1];
+    expect(spec).toMatchObject({
+      notes: 'Long, "quoted"\ndesc\nA comment',
+      tags: ["work", "deep"],
+      priority: 3,
+      dueAt: "2026-10-25",
+      subtasks: [{ title: "Sub step", completed: false }],
+    });
+  });
+
+  it("keeps a date it can't read in the notes", () => {
+    const plan = parseTodoistCsv(csv, "Work Project.csv", today);
+    expect(plan.tasks[2]).toMatchObject({ dueAt: "2026-10-26", recurrence: "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO" });
+    expect(plan.tasks[3]).toMatchObject({ dueAt: null, notes: "Todoist date: every other full moon" });
+    expect(plan.warnings).toEqual(['Row 8: date "every other full moon" not understood, kept in the notes']);
+  });
+
+  it("rejects CSV files without Todoist's columns", () => {
+    expect(() => parseTodoistCsv("Name,Due\nx,y\n", "tasks.csv", today)).toThrow("Not a Todoist CSV export");
+  });
+});
+
+describe("parseTaskPaper", () => {
+  const doc = [
+    "Inbox:",
+    "\t- Buy milk @due(2026-10-21 17:00) @priority(high)",
+    "Work:",
+    "\tClient A:",
+    "\t\t- Draft proposal @flag @context(office)",
+    "\t\t\t- outline @done",
+    "\t\t\tSome note line",
+    "\t- Expense report @done(2026-10-10) @start(2026-10-01)",
+    "Stray text",
+  ].join("\n");
+
+  it("nests projects by indentation and turns nested tasks into steps", () => {
+    const plan = parseTaskPaper(doc, today);
+    expect(plan.tasks.map((t) => [t.title, t.projectPath])).toEqual([
+      ["Buy milk", ["Inbox"]],
+      ["Draft proposal", ["Work", "Client A"]],
+      ["Expense report", ["Work"]],
+    ]);
+    expect(plan.tasks[1]).toMatchObject({
+      tags: ["flag", "context-office"],
+      notes: "Some note line",
+      subtasks: [{ title: "outline", completed: true }],
+    });
+  });
+
+  it("reads due, start, done and priority tags", () => {
+    const [milk, , expense] = parseTaskPaper(doc, today).tasks;
+    expect(milk).toMatchObject({ dueAt: "2026-10-21", dueTime: "17:00", priority: 3, tags: [] });
+    expect(expense).toMatchObject({ completed: true, completedAt: "2026-10-10", startAt: "2026-10-01" });
+  });
+
+  it("reports text outside any task", () => {
+    expect(parseTaskPaper(doc, today).warnings).toEqual(["Line 9: text outside any task, skipped"]);
+  });
+
+  it("leaves a task level with a project line outside it, as TaskPaper does", () => {
+    expect(parseTaskPaper("Home:\n- Water plants\n", today).tasks[0].projectPath).toEqual([]);
+  });
+});
+
+describe("detectImportFormat", () => {
+  it("goes by extension, then content", () => {
+    expect(detectImportFormat("a.taskpaper", "")).toBe("taskpaper");
+    expect(detectImportFormat("Work.csv", "")).toBe("todoist");
+    expect(detectImportFormat("export.txt", "TYPE,CONTENT,PRIORITY\n")).toBe("todoist");
+    expect(detectImportFormat("notes.txt", "Home:\n- Water plants\n")).toBe("taskpaper");
+    expect(detectImportFormat("todo.txt", "(A) Call mom +Family\n")).toBe("todotxt");
+    expect(detectImportFormat("empty", "  \n")).toBeNull();
+  });
+});
+
+describe("summarizeImport", () => {
+  const existing = [
+    { id: "inbox", name: "Inbox", icon: "inbox", parentId: null },
+    { id: "home", name: "Home", icon: null, parentId: null },
+    { id: "admin", name: "Admin", icon: null, parentId: "home" },
+    { id: "errands", name: "Errands", icon: null, parentId: null },
+  ];
+
+  it("matches each path segment under its own parent", () => {
+    const plan = parseTaskPaper("Work:\n\tNotes:\n\t\t- a\nHome:\n\tNotes:\n\t\t- b\n\tAdmin:\n\t\t- c\n", today);
+    expect(summarizeImport(plan, [], []).projects).toEqual([
+      { path: "Work / Notes", isNew: true, count: 1 },
+      { path: "Home / Notes", isNew: true, count: 1 },
+      { path: "Home / Admin", isNew: true, count: 1 },
+    ]);
+    expect(summarizeImport(plan, existing, []).projects.map((p) => p.isNew)).toEqual([true, true, false]);
+  });
+
+  it("doesn't take a project under another parent for the imported one", () => {
+    const plan = parseTaskPaper("Work:\n\tAdmin:\n\t\t- Expenses\nAdmin:\n\t- Top level\n", today);
+    expect(summarizeImport(plan, existing, []).projects).toEqual([
+      { path: "Work / Admin", isNew: true, count: 1 },
+      { path: "Admin", isNew: true, count: 1 },
+    ]);
+  });
+
+  it("looks for Inbox sub-projects at the top level, where they are created", () => {
+    const plan = parseTaskPaper("inbox:\n\tERRANDS:\n\t\t- Post office\n", today);
+    expect(summarizeImport(plan, existing, []).projects).toEqual([{ path: "inbox / ERRANDS", isNew: false, count: 1 }]);
+  });
+
+  it("lists tags it doesn't know yet, once each", () => {
+    const plan = parseTodoTxt("Call +Family @phone @Deep\nText @PHONE @deep @new\nx Done\n");
+    expect(summarizeImport(plan, [], ["phone"])).toMatchObject({ newTags: ["Deep", "new"], completed: 1 });
+  });
+});
@@ -0,0 +1,468 @@
+import type { Project, RecurrenceRule } from "../types";
+import { isValidIsoDate, parseIsoDate, parseTimeOfDay, todayIsoDate } from "./date";
+import { isInboxProject } from "./projectTree";
+import { nextWeekday, parseQuickAdd, weekdayIndex } from "./quickAdd";
+import { formatRecurrence } from "./recurrence";
+
+// Parsers for other apps' exports, turned into a plan the user previews before
+// anything is written (data/repo.ts importTasks applies it):
+//   todo.txt   one task per line: x done, (A) priority, +project, @context, due:, t:
+//   Todoist    the per-project CSV export (TYPE, CONTENT, DESCRIPTION, PRIORITY, INDENT, DATE...)
+//   TaskPaper  "Project:" lines, "- task @tag @due(2026-11-01)" lines, notes, tab indentation
+// Priorities map onto P0-P3 with P3 the most urgent. Nested tasks become checklist
+// steps of their top-level task; anything that can't be mapped is reported in
+// `warnings` and, where it carries information, kept in the notes.
+
+export type ImportFormat = "todotxt" | "todoist" | "taskpaper";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  todotxt: "todo.txt",
+  todoist: "Todoist CSV",
+  taskpaper: "TaskPaper",
+};
+
+export type ImportedTask = {
+  title: string;
+  notes: string;
+  projectPath: string[]; // outermost first; [] = the project picked in the preview
+  priority: number;
+  dueAt: string | null;
+  dueTime: string | null;
+  startAt: string | null;
+  recurrence: string | null;
+  completed: boolean;
+  completedAt: string | null; // YYYY-MM-DD
+  tags: string[];
+  subtasks: Array<{ title: string; completed: boolean }>;
+};
+
+export type ImportPlan = {
+  format: ImportFormat;
+  tasks: ImportedTask[];
+  warnings: string[];
+};
+
+function blankTask(title: string, projectPath: string[]): ImportedTask {
+  return {
+    title,
+    notes: "",
+    projectPath,
+    priority: 0,
+    dueAt: null,
+    dueTime: null,
+    startAt: null,
+    recurrence: null,
+    completed: false,
+    completedAt: null,
+    tags: [],
+    subtasks: [],
+  };
+}
+
+function addTag(task: ImportedTask, raw: string): void {
+  const tag = raw.trim();
+  if (tag && !task.tags.some((t) => t.toLowerCase() === tag.toLowerCase())) task.tags.push(tag);
+}
+
+function appendNote(task: ImportedTask, line: string): void {
+  task.notes = task.notes ? `${task.notes}\n${line}` : line;
+}
+
+/** Guesses the format from the file name, then from the content. */
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".taskpaper")) return "taskpaper";
+  if (lower.endsWith(".csv")) return "todoist";
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  if (/^\uFEFF?"?TYPE"?,"?CONTENT"?/i.test(firstLine)) return "todoist";
+  if (/^\s*[^-\s].*:\s*$/m.test(text) && /^\s*- /m.test(text)) return "taskpaper";
+  if (lower.endsWith(".txt") || text.trim()) return "todotxt";
+  return null;
+}
+
+export function parseImport(format: ImportFormat, text: string, fileName: string, today: string = todayIsoDate()): ImportPlan {
+  switch (format) {
+    case "todotxt":
+      return parseTodoTxt(text);
+    case "todoist":
+      return parseTodoistCsv(text, fileName, today);
+    case "taskpaper":
+      return parseTaskPaper(text, today);
+  }
+}
+
+// --- dates ------------------------------------------------------------------
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function monthIndex(word: string): number {
+  return MONTHS.indexOf(word.slice(0, 3).toLowerCase());
+}
+
+/** A date without a year is the next one on or after today. */
+function monthDay(month: number, day: number, year: number | null, today: string): string | null {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const thisYear = parseIsoDate(today).getFullYear();
+  let iso = `${year ?? thisYear}-${pad(month + 1)}-${pad(day)}`;
+  if (year === null && iso < today) iso = `${thisYear + 1}-${pad(month + 1)}-${pad(day)}`;
+  return isValidIsoDate(iso) ? iso : null;
+}
+
+function parseRepeat(text: string, today: string): { rule: RecurrenceRule; first: string } | null {
+  const m = /^every\s+(?:(\d+)\s+)?(day|days|week|weeks|month|months|sun\w*|mon\w*|tue\w*|wed\w*|thu\w*|fri\w*|sat\w*)$/i.exec(text);
+  const daily = /^(daily|every day)$/i.test(text);
+  if (!m && !daily) return null;
+  const interval = Number(m?.[1] ?? 1);
+  const unit = daily ? "day" : m![2].toLowerCase();
+  if (unit.startsWith("day")) return { rule: { freq: "daily", interval }, first: today };
+  if (unit.startsWith("month")) return { rule: { freq: "monthlyDay", interval, day: parseIsoDate(today).getDate() }, first: today };
+  if (unit.startsWith("week")) return { rule: { freq: "weekly", interval, weekdays: [parseIsoDate(today).getDay()] }, first: today };
+  // A named weekday starts on its next occurrence, the same day a plain "monday" gets.
+  const weekday = weekdayIndex(unit);
+  if (weekday < 0) return null;
+  return { rule: { freq: "weekly", interval, weekdays: [weekday] }, first: nextWeekday(today, weekday) };
+}
+
+/**
+ * Reads the date strings other apps write: 2026-11-01, "2026-11-01 09:30",
+ * "Nov 1", "1 Nov 2026", "November 1, 2026", today / tomorrow / weekdays, and
+ * simple repeats ("every day", "every 2 weeks", "every monday"). Null when the
+ * text is not (only) a date.
+ */
+export function parseLooseDate(
+  raw: string,
+  today: string,
+): { dueAt: string; dueTime: string | null; recurrence: string | null } | null {
+  let text = raw.trim().replace(/\s+/g, " ");
+  if (!text) return null;
+
+  const repeat = parseRepeat(text, today);
+  if (repeat) return { dueAt: repeat.first, dueTime: null, recurrence: formatRecurrence(repeat.rule) };
+
+  let dueTime: string | null = null;
+  const timeMatch = /(?:^|[\sT,]|\bat\s)(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[ap]\.?m\.?)?|\d{1,2}\s*[ap]\.?m\.?)$/i.exec(text);
+  if (timeMatch) {
+    dueTime = parseTimeOfDay(timeMatch[1].replace(/^(\d{1,2}:\d{2}):\d{2}/, "$1")); // drop seconds
+    if (dueTime) text = text.slice(0, timeMatch.index).replace(/(\s|,|\bat)+$/i, "").trim();
+  }
+
+  let dueAt: string | null = null;
+  let m: RegExpExecArray | null;
+  if ((m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text))) {
+    dueAt = isValidIsoDate(m[0]) ? m[0] : null;
+  } else if ((m = /^([a-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/i.exec(text)) && monthIndex(m[1]) >= 0) {
+    dueAt = monthDay(monthIndex(m[1]), Number(m[2]), m[3] ? Number(m[3]) : null, today);
+  } else if ((m = /^(\d{1,2})(?:st|nd|rd|th)? ([a-z]{3,9})\.?(?:,? (\d{4}))?$/i.exec(text)) && monthIndex(m[2]) >= 0) {
+    dueAt = monthDay(monthIndex(m[2]), Number(m[1]), m[3] ? Number(m[3]) : null, today);
+  } else if (weekdayIndex(text) >= 0) {
+    // The whole text is a date here, so "fri" is safe to read (quick-add wants "on fri").
+    dueAt = nextWeekday(today, weekdayIndex(text));
+  } else if (text) {
+    // today / tomorrow / "in 3 days": only when nothing else is left over.
+    const q = parseQuickAdd(text, [], today);
+    if (q.dueAt && !q.title) dueAt = q.dueAt;
+  } else if (dueTime) {
+    dueAt = today;
+  }
+  return dueAt ? { dueAt, dueTime, recurrence: null } : null;
+}
+
+// --- todo.txt ---------------------------------------------------------------
+
+const TODO_TXT_PRIORITY: Record<string, number> = { A: 3, B: 2, C: 1 };
+
+export function parseTodoTxt(text: string): ImportPlan {
+  const tasks: ImportedTask[] = [];
+  const warnings: string[] = [];
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    let line = rawLine.trim();
+    if (!line) return;
+    const task = blankTask("", []);
+
+    const done = /^x (\d{4}-\d{2}-\d{2} )?(\d{4}-\d{2}-\d{2} )?/.exec(line);
+    if (done) {
+      task.completed = true;
+      task.completedAt = done[1]?.trim() ?? null; // completion date comes first, then creation
+      line = line.slice(done[0].length);
+    }
+    const pri = /^\(([A-Z])\) /.exec(line);
+    if (pri) {
+      task.priority = TODO_TXT_PRIORITY[pri[1]] ?? 0;
+      line = line.slice(pri[0].length);
+    }
+    // Creation date; ours is the import time.
+    if (!done) line = line.replace(/^\d{4}-\d{2}-\d{2} /, "");
+
+    const words: string[] = [];
+    for (const word of line.split(/\s+/)) {
+      let m: RegExpExecArray | null;
+      if ((m = /^\+(\S+)$/.exec(word))) {
+        if (task.projectPath.length === 0) task.projectPath = [m[1].replace(/_/g, " ")];
+        else addTag(task, m[1]);
+      } else if ((m = /^@(\S+)$/.exec(word))) {
+        addTag(task, m[1]);
+      } else if ((m = /^due:(\d{4}-\d{2}-\d{2})$/.exec(word)) && isValidIsoDate(m[1])) {
+        task.dueAt = m[1];
+      } else if ((m = /^t:(\d{4}-\d{2}-\d{2})$/.exec(word)) && isValidIsoDate(m[1])) {
+        task.startAt = m[1];
+      } else if ((m = /^pri:([A-Z])$/.exec(word))) {
+        task.priority = TODO_TXT_PRIORITY[m[1]] ?? 0;
+      } else {
+        words.push(word);
+      }
+    }
+    task.title = words.join(" ");
+    if (!task.title) {
+      warnings.push(`Line ${i + 1}: no task text, skipped`);
+      return;
+    }
+    tasks.push(task);
+  });
+  return { format: "todotxt", tasks, warnings };
+}
+
+// --- Todoist CSV ------------------------------------------------------------
+
+/** RFC 4180 rows: quoted fields may hold commas, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+// Todoist's CSV uses the app's numbering: priority 1 is the most urgent, 4 is none.
+const TODOIST_PRIORITY: Record<string, number> = { "1": 3, "2": 2, "3": 1, "4": 0 };
+
+export function parseTodoistCsv(text: string, fileName: string, today: string = todayIsoDate()): ImportPlan {
+  const rows = parseCsv(text);
+  const header = (rows.shift() ?? []).map((h) => h.trim().toUpperCase());
+  const col = (name: string) => header.indexOf(name);
+  const [typeCol, contentCol, descCol, priCol, indentCol, dateCol] = ["TYPE", "CONTENT", "DESCRIPTION", "PRIORITY", "INDENT", "DATE"].map(col);
+  if (typeCol < 0 || contentCol < 0) throw new Error("Not a Todoist CSV export: TYPE and CONTENT columns are missing");
+
+  // Todoist names the export after its project.
+  const project = fileName.replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "").trim();
+  const base = project ? [project] : [];
+  const tasks: ImportedTask[] = [];
+  const warnings: string[] = [];
+  let section: string | null = null;
+  let parent: ImportedTask | null = null;
+  let nestedDetails = 0;
+
+  rows.forEach((r, i) => {
+    const type = (r[typeCol] ?? "").trim().toLowerCase();
+    const content = (r[contentCol] ?? "").trim();
+    if (type === "section") {
+      section = content || null;
+      parent = null;
+      return;
+    }
+    if (type === "note") {
+      if (parent && content) appendNote(parent, content);
+      return;
+    }
+    if (type !== "task" || !content) return;
+
+    const task = blankTask("", section ? [...base, section] : base);
+    // Labels are written inline as @label.
+    task.title = content
+      .replace(/(^|\s)@([\p{L}\p{N}_\-/]+)/gu, (_all, lead: string, label: string) => {
+        addTag(task, label);
+        return lead;
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+    if (descCol >= 0 && r[descCol]?.trim()) appendNote(task, r[descCol].trim());
+    task.priority = TODOIST_PRIORITY[(r[priCol] ?? "").trim()] ?? 0;
+    const date = dateCol >= 0 ? (r[dateCol] ?? "").trim() : "";
+    if (date) {
+      const parsed = parseLooseDate(date, today);
+      if (parsed) Object.assign(task, parsed);
+      else {
+        warnings.push(`Row ${i + 2}: date "${date}" not understood, kept in the notes`);
+        appendNote(task, `Todoist date: ${date}`);
+      }
+    }
+
+    const indent = Number((indentCol >= 0 ? r[indentCol] : "") || 1);
+    if (indent > 1 && parent) {
+      parent.subtasks.push({ title: task.title, completed: false });
+      if (task.dueAt || task.tags.length || task.notes || task.priority) nestedDetails++;
+      return;
+    }
+    parent = task;
+    tasks.push(task);
+  });
+
+  if (nestedDetails > 0) {
+    warnings.push(`${nestedDetails} sub-tasks became checklist steps and lost their own dates, labels or descriptions`);
+  }
+  return { format: "todoist", tasks, warnings };
+}
+
+// --- TaskPaper --------------------------------------------------------------
+
+function indentOf(line: string): number {
+  const lead = /^[\t ]*/.exec(line)![0];
+  return lead.replace(/ {4}/g, "\t").replace(/ +/g, "\t").length;
+}
+
+const TASKPAPER_PRIORITY: Record<string, number> = { "1": 3, high: 3, "2": 2, medium: 2, "3": 1, low: 1 };
+
+export function parseTaskPaper(text: string, today: string = todayIsoDate()): ImportPlan {
+  const tasks: ImportedTask[] = [];
+  const warnings: string[] = [];
+  const projects: Array<{ name: string; indent: number }> = [];
+  // The task notes go to: the last top-level task at or above the current indentation.
+  let current: { task: ImportedTask; indent: number } | null = null;
+  let nestedTags = 0;
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const indent = indentOf(line);
+    const body = line.trim();
+
+    if (body.startsWith("- ")) {
+      const task = blankTask("", []);
+      let title = body.slice(2).replace(/(^|\s)@([\p{L}\p{N}_\-]+)(?:\(([^)]*)\))?/gu, (_all, lead: string, name: string, value?: string) => {
+        const key = name.toLowerCase();
+        const v = value?.trim() ?? "";
+        const date = key === "due" || key === "start" || key === "defer" ? parseLooseDate(v, today) : null;
+        if (key === "done") {
+          task.completed = true;
+          task.completedAt = /^\d{4}-\d{2}-\d{2}/.exec(v)?.[0] ?? null;
+        } else if (key === "due" && date) {
+          Object.assign(task, date);
+        } else if ((key === "start" || key === "defer") && date) {
+          task.startAt = date.dueAt;
+        } else if (key === "priority" && TASKPAPER_PRIORITY[v.toLowerCase()] !== undefined) {
+          task.priority = TASKPAPER_PRIORITY[v.toLowerCase()];
+        } else {
+          addTag(task, v && key !== "due" && key !== "start" ? `${name}-${v.replace(/\s+/g, "-")}` : name);
+          if (key === "due" || key === "start") warnings.push(`Line ${i + 1}: @${name}(${v}) not understood, kept as a tag`);
+        }
+        return lead;
+      });
+      title = title.replace(/\s+/g, " ").trim();
+      if (!title) {
+        warnings.push(`Line ${i + 1}: empty task, skipped`);
+        return;
+      }
+      task.title = title;
+
+      if (current && indent > current.indent) {
+        current.task.subtasks.push({ title, completed: task.completed });
+        if (task.tags.length || task.dueAt || task.priority) nestedTags++;
+        return;
+      }
+      while (projects.length && projects[projects.length - 1].indent >= indent) projects.pop();
+      task.projectPath = projects.map((p) => p.name);
+      tasks.push(task);
+      current = { task, indent };
+      return;
+    }
+
+    const project = /^(.+?):((?:\s+@\S+)*)\s*$/.exec(body);
+    if (project && !body.startsWith("-")) {
+      while (projects.length && projects[projects.length - 1].indent >= indent) projects.pop();
+      projects.push({ name: project[1].trim(), indent });
+      current = null;
+      return;
+    }
+
+    // Anything else is a note on the task above it.
+    if (current && indent > current.indent) appendNote(current.task, body);
+    else warnings.push(`Line ${i + 1}: text outside any task, skipped`);
+  });
+
+  if (nestedTags > 0) warnings.push(`${nestedTags} nested tasks became checklist steps and lost their own tags or dates`);
+  return { format: "taskpaper", tasks, warnings };
+}
+
+export type ImportSummary = {
+  projects: Array<{ path: string; isNew: boolean; count: number }>;
+  newTags: string[];
+  completed: number;
+};
+
+/**
+ * Lookup key for a project by name under a parent (null: top level). The same
+ * name can sit under different parents, so "Work / Admin" never matches "Home / Admin".
+ */
+export function importProjectKey(parentId: string | null, name: string): string {
+  return `${parentId ?? ""}/${name.toLowerCase()}`;
+}
+
+/**
+ * What applying the plan would touch, for the preview. Paths match existing
+ * projects and tags case-insensitively, the same way importTasks resolves them.
+ */
+export function summarizeImport(
+  plan: ImportPlan,
+  existingProjects: Array<Pick<Project, "id" | "name" | "icon" | "parentId">>,
+  tagNames: string[],
+): ImportSummary {
+  const knownProjects = new Map(existingProjects.map((p) => [importProjectKey(p.parentId ?? null, p.name), p]));
+  // Sub-projects of the Inbox are created at the top level, so look for them there.
+  const pathExists = (path: string[]) => {
+    let parentId: string | null = null;
+    for (const segment of path) {
+      const found = knownProjects.get(importProjectKey(parentId, segment));
+      if (!found) return false;
+      parentId = isInboxProject({ icon: found.icon, name: found.name }) ? null : found.id;
+    }
+    return true;
+  };
+  const knownTags = new Set(tagNames.map((n) => n.toLowerCase()));
+  const projects = new Map<string, { path: string; isNew: boolean; count: number }>();
+  const newTags = new Map<string, string>();
+  for (const t of plan.tasks) {
+    if (t.projectPath.length > 0) {
+      const path = t.projectPath.join(" / ");
+      const entry = projects.get(path.toLowerCase());
+      if (entry) entry.count++;
+      else projects.set(path.toLowerCase(), { path, isNew: !pathExists(t.projectPath), count: 1 });
+    }
+    for (const tag of t.tags) {
+      if (!knownTags.has(tag.toLowerCase()) && !newTags.has(tag.toLowerCase())) newTags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return {
+    projects: [...projects.values()],
+    newTags: [...newTags.values()],
+    completed: plan.tasks.filter((t) => t.completed).length,
+  };
+}
@@ -0,0 +1,171 @@
+// A small Markdown subset for task notes: ATX headings, paragraphs, bullet and
+// numbered lists with [ ] / [x] checkboxes, > quotes, fenced code, --- rules,
+// and inline `code`, **strong**, *em*, [links](url) and bare URLs. No raw HTML:
+// the result is plain data that the Inspector renders as React elements.
+//
+// Checklist items remember their source line so a click can flip the box in the
+// notes text itself (toggleChecklistLine) without re-serializing anything else.
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MdInline[] }
+  | { type: "em"; children: MdInline[] }
+  | { type: "link"; href: string; children: MdInline[] };
+
+export type MdListItem = {
+  content: MdInline[];
+  checked: boolean | null; // null: not a checklist item
+  line: number; // 0-based line in the source text
+  depth: number; // indentation level, 0 = top
+};
+
+export type MdBlock =
+  | { type: "heading"; level: number; content: MdInline[] }
+  | { type: "paragraph"; content: MdInline[] }
+  | { type: "list"; ordered: boolean; items: MdListItem[] }
+  | { type: "quote"; content: MdInline[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "rule" };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+/** Only these open from notes; anything else renders as plain text. */
+export function isSafeUrl(href: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(href);
+}
+
+export function parseMarkdown(source: string): MdBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the notes.
+      while (i < lines.length && !new RegExp(`^\\s*${fence[1]}\\s*$`).test(lines[i])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: MdListItem[] = [];
+      for (let m = LIST_ITEM.exec(lines[i]); i < lines.length && m; m = LIST_ITEM.exec(lines[i] ?? "")) {
+        if (/^\s*\d/.test(lines[i]) !== ordered && m[1].length === 0) break;
+        items.push({
+          content: parseInline(m[4]),
+          checked: m[3] === undefined ? null : m[3] !== " ",
+          line: i,
+          depth: Math.floor(m[1].replace(/\t/g, "  ").length / 2),
+        });
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(QUOTE.exec(lines[i++])![1]);
+      blocks.push({ type: "quote", content: parseInline(body.join("\n")) });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) body.push(lines[i++].trim());
+    blocks.push({ type: "paragraph", content: parseInline(body.join("\n")) });
+  }
+  return blocks;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line);
+}
+
+// Earliest match wins; ties go to the pattern listed first.
+const INLINE: Array<{ re: RegExp; make: (m: RegExpExecArray) => MdInline }> = [
+  { re: /`([^`\n]+)`/, make: (m) => ({ type: "code", text: m[1] }) },
+  { re: /\[([^\]\n]+)\]\(([^)\s]+)\)/, make: (m) => ({ type: "link", href: m[2], children: parseInline(m[1]) }) },
+  { re: /\bhttps?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/, make: (m) => ({ type: "link", href: m[0], children: [{ type: "text", text: m[0] }] }) },
+  { re: /(\*\*|__)(?=\S)([\s\S]*?\S)\1/, make: (m) => ({ type: "strong", children: parseInline(m[2]) }) },
+  { re: /(\*|_)(?=\S)([\s\S]*?\S)\1(?!\w)/, make: (m) => ({ type: "em", children: parseInline(m[2]) }) },
+];
+
+export function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  let rest = text;
+  while (rest) {
+    let best: { index: number; length: number; node: MdInline } | null = null;
+    for (const { re, make } of INLINE) {
+      const m = re.exec(rest);
+      if (m && (!best || m.index < best.index)) best = { index: m.index, length: m[0].length, node: make(m) };
+    }
+    if (!best) {
+      out.push({ type: "text", text: rest });
+      break;
+    }
+    if (best.index > 0) out.push({ type: "text", text: rest.slice(0, best.index) });
+    out.push(best.node);
+    rest = rest.slice(best.index + best.length);
+  }
+  return out;
+}
+
+/** The notes with the checkbox on `line` flipped; unchanged if that line has none. */
+export function toggleChecklistLine(source: string, line: number): string {
+  const lines = source.split("\n");
+  const m = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])(\])/.exec(lines[line] ?? "");
+  if (!m) return source;
+  lines[line] = m[1] + (m[2] === " " ? "x" : " ") + m[3] + lines[line].slice(m[0].length);
+  return lines.join("\n");
+}
+
+function inlineText(nodes: MdInline[]): string {
+  return nodes.map((n) => ("children" in n ? inlineText(n.children) : n.text)).join("");
+}
+
+/** Plain text of the notes on one line, for list rows; "" when there is nothing to show. */
+export function markdownExcerpt(source: string, maxLength = 120): string {
+  const parts = parseMarkdown(source).flatMap((b): string[] => {
+    switch (b.type) {
+      case "list":
+        return b.items.map((it) => (it.checked === null ? "" : it.checked ? "☑ " : "☐ ") + inlineText(it.content));
+      case "code":
+        return [b.text];
+      case "rule":
+        return [];
+      default:
+        return [inlineText(b.content)];
+    }
+  });
+  const flat = parts.join(" · ").replace(/\s+/g, " ").trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat;
+}
@@ -0,0 +1,40 @@
+// UI preferences. These are per-install settings, not data, so they live in
+// localStorage rather than SQLite and are not part of backups.
+
+export type Prefs = {
+  completeParentWithSubtasks: boolean;
+  includeOverdueInToday: boolean;
+  hideBlockedInToday: boolean; // otherwise blocked tasks are listed dimmed
+  trashRetentionDays: number; // auto-purge age for Trash; 0 keeps everything
+  collapsedProjectIds: string[]; // sidebar tree nodes folded shut
+  tagFilterMode: "all" | "any"; // topbar tag chips: tasks with every selected tag, or any of them
+};
+
+const STORAGE_KEY = "neontodo.prefs";
+
+const DEFAULT_PREFS: Prefs = {
+  completeParentWithSubtasks: true,
+  includeOverdueInToday: false,
+  hideBlockedInToday: false,
+  trashRetentionDays: 30,
+  collapsedProjectIds: [],
+  tagFilterMode: "all",
+};
+
+export function loadPrefs(): Prefs {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_PREFS };
+    return { ...DEFAULT_PREFS, ...(JSON.parse(raw) as Partial<Prefs>) };
+  } catch {
+    return { ...DEFAULT_PREFS };
+  }
+}
+
+export function savePrefs(prefs: Prefs): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch {
+    // ignore (private mode / quota)
+  }
+}
@@ -0,0 +1,39 @@
+import type { Project } from "../types";
+
+// Project colors and icons; tags use the same swatches. Icons are stored by name
+// (projects.icon) and drawn as a single glyph; "inbox" is reserved for the Inbox,
+// which lib/projectTree.ts recognises by it.
+
+export const COLOR_SWATCHES = ["#29f0ff", "#5cffb2", "#ffb03b", "#ff3b6c", "#b57cff", "#ffe45c", "#4d8dff", "#f5fbff"];
+
+export const PROJECT_ICONS: Record<string, string> = {
+  spark: "✦",
+  star: "★",
+  bolt: "ϟ",
+  flag: "⚑",
+  heart: "♥",
+  music: "♪",
+  sun: "☀",
+  moon: "☾",
+  leaf: "❦",
+  diamond: "◆",
+  target: "◎",
+  code: "⌘",
+};
+
+export const INBOX_ICON = "inbox";
+
+export function isHexColor(value: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(value);
+}
+
+export function projectGlyph(p: Pick<Project, "icon" | "isArea">): string {
+  if (p.icon === INBOX_ICON) return "⌂";
+  return (p.icon && PROJECT_ICONS[p.icon]) || (p.isArea ? "▣" : "◈");
+}
+
+/** A color for a new project: the first palette entry not in use yet, cycling once all are. */
+export function nextProjectColor(projects: Pick<Project, "color">[]): string {
+  const used = new Set(projects.map((p) => p.color?.toLowerCase()));
+  return COLOR_SWATCHES.find((c) => !used.has(c)) ?? COLOR_SWATCHES[projects.length % COLOR_SWATCHES.length];
+}
@@ -0,0 +1,87 @@
+import type { Project } from "../types";
+import { INBOX_ICON } from "./projectStyle";
+
+// The sidebar's project tree, built from the flat list listProjects() returns.
+// Siblings keep that list's order. A project whose parent is not in the list
+// (archived, trashed, or a bad id from an old backup) is shown at the top level.
+
+export type ProjectNode = {
+  project: Project;
+  depth: number;
+  children: ProjectNode[];
+};
+
+/** The Inbox can't be deleted, archived, nested or given sub-projects. */
+export function isInboxProject(p: Pick<Project, "icon" | "name">): boolean {
+  return p.icon === INBOX_ICON || p.name.toLowerCase() === "inbox";
+}
+
+export function buildProjectTree(projects: Project[]): ProjectNode[] {
+  const nodes = new Map<string, ProjectNode>(projects.map((p) => [p.id, { project: p, depth: 0, children: [] }]));
+  const roots: ProjectNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.project.parentId ? nodes.get(node.project.parentId) : undefined;
+    if (parent && parent !== node) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  // Depths from the roots down. Anything unreached sits in a parent loop: it is
+  // lifted to the top level and the link closing the loop is dropped.
+  const seen = new Set<ProjectNode>();
+  const walk = (list: ProjectNode[], depth: number) => {
+    for (const n of list) {
+      seen.add(n);
+      n.depth = depth;
+      n.children = n.children.filter((c) => !seen.has(c));
+      walk(n.children, depth + 1);
+    }
+  };
+  walk(roots, 0);
+  for (const node of nodes.values()) {
+    if (seen.has(node)) continue;
+    roots.push(node);
+    walk([node], 0);
+  }
+  return roots;
+}
+
+/** Depth-first rows for the sidebar, skipping the children of collapsed projects. */
+export function flattenProjectTree(roots: ProjectNode[], collapsed: ReadonlySet<string>): ProjectNode[] {
+  const out: ProjectNode[] = [];
+  const walk = (list: ProjectNode[]) => {
+    for (const n of list) {
+      out.push(n);
+      if (!collapsed.has(n.project.id)) walk(n.children);
+    }
+  };
+  walk(roots);
+  return out;
+}
+
+/** Each project's own count plus those of all its sub-projects. */
+export function rollUpCounts(roots: ProjectNode[], counts: ReadonlyMap<string, number>): Map<string, number> {
+  const totals = new Map<string, number>();
+  const walk = (n: ProjectNode): number => {
+    const total = n.children.reduce((sum, c) => sum + walk(c), counts.get(n.project.id) ?? 0);
+    totals.set(n.project.id, total);
+    return total;
+  };
+  roots.forEach(walk);
+  return totals;
+}
+
+/** Projects `projectId` may be moved under: anything but itself, its own sub-projects and the Inbox. */
+export function parentCandidates(projects: Project[], projectId: string): Project[] {
+  const below = new Set([projectId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const p of projects) {
+      if (p.parentId && below.has(p.parentId) && !below.has(p.id)) {
+        below.add(p.id);
+        grew = true;
+      }
+    }
+  }
+  return projects.filter((p) => !below.has(p.id) && !isInboxProject(p));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { Project } from "../types";
+import { parseQuickAdd } from "./quickAdd";
+
+// 2026-10-19 is a Monday.
+const today = "2026-10-19";
+
+const project = (id: string, name: string): Project => ({ id, name, sortOrder: 0, createdAt: "2026-01-01T00:00:00.000Z" });
+const projects = [project("p1", "Home"), project("p2", "Side Quest")];
+
+describe("parseQuickAdd", () => {
+  it("pulls dates, times, tags, priority and project out of the title", () => {
+    const q = parseQuickAdd("Pay rent tomorrow at 9am #finance !p2 @Home", projects, today);
+    expect(q).toMatchObject({
+      title: "Pay rent",
+      dueAt: "2026-10-20",
+      dueTime: "09:00",
+      priority: 2,
+      tags: ["finance"],
+      projectId: "p1",
+    });
+  });
+
+  it("reads full weekday names anywhere, always the next one after today", () => {
+    expect(parseQuickAdd("Call mum friday", [], today)).toMatchObject({ title: "Call mum", dueAt: "2026-10-23" });
+    expect(parseQuickAdd("Standup Monday", [], today)).toMatchObject({ title: "Standup", dueAt: "2026-10-26" });
+    expect(parseQuickAdd("Gym on sunday", [], today)).toMatchObject({ title: "Gym", dueAt: "2026-10-25" });
+  });
+
+  it("reads short weekdays only after on/next", () => {
+    expect(parseQuickAdd("Dentist on wed", [], today)).toMatchObject({ title: "Dentist", dueAt: "2026-10-21" });
+    expect(parseQuickAdd("Review next thu", [], today)).toMatchObject({ title: "Review", dueAt: "2026-10-22" });
+  });
+
+  it("leaves ordinary words that look like short weekdays in the title", () => {
+    for (const title of ["Buy sun cream", "Fix sat nav", "re: wed photos", "mon ami", "Fri-day plans"]) {
+      const q = parseQuickAdd(title, [], today);
+      expect(q.title).toBe(title);
+      expect(q.dueAt).toBeNull();
+    }
+  });
+
+  it("resolves relative and ISO dates", () => {
+    expect(parseQuickAdd("Renew passport in 2 weeks", [], today).dueAt).toBe("2026-11-02");
+    expect(parseQuickAdd("Taxes due 2027-04-15", [], today)).toMatchObject({ title: "Taxes", dueAt: "2027-04-15" });
+    expect(parseQuickAdd("Not a date 2026-02-30", [], today)).toMatchObject({ title: "Not a date 2026-02-30", dueAt: null });
+  });
+
+  it("puts a lone time on today", () => {
+    expect(parseQuickAdd("Call 5:30pm", [], today)).toMatchObject({ title: "Call", dueAt: today, dueTime: "17:30" });
+  });
+
+  it("reports an unknown project and keeps it in the title", () => {
+    const q = parseQuickAdd('Plan @"Moon Base"', projects, today);
+    expect(q.projectId).toBeNull();
+    expect(q.unknownProject).toBe("Moon Base");
+    expect(q.title).toBe('Plan @"Moon Base"');
+  });
+});
@@ -0,0 +1,165 @@
+import type { Project } from "../types";
+import { isoDateFromDate, isValidIsoDate, parseIsoDate, parseTimeOfDay, shiftIsoDate, todayIsoDate } from "./date";
+
+// Composer quick-add syntax, e.g. "Pay rent tomorrow at 9am #finance !p2 @Home":
+//   dates     today / tomorrow / tmr / monday..sunday / in 3 days / in 2 weeks / 2026-11-01
+//             (short weekdays only after on/next: "on fri", so "Fix sat nav" stays a title)
+//   times     at 17:30 / at 5pm / 5:30pm (a time alone means today)
+//   #tag      attach (and create if needed) a tag
+//   !p0..!p3  priority (also !0..!3)
+//   @Project  project by name; multi-word names match greedily or use @"Side Quest"
+// Recognised tokens are stripped from the title.
+
+export type QuickAdd = {
+  title: string;
+  dueAt: string | null;
+  dueTime: string | null;
+  priority: number | null;
+  tags: string[];
+  projectId: string | null;
+  projectName: string | null;
+  unknownProject: string | null;
+};
+
+const WEEKDAYS: Array<[RegExp, number]> = [
+  [/^sun(day)?$/, 0],
+  [/^mon(day)?$/, 1],
+  [/^tue(s|sday)?$/, 2],
+  [/^wed(nesday)?$/, 3],
+  [/^thu(r|rs|rsday)?$/, 4],
+  [/^fri(day)?$/, 5],
+  [/^sat(urday)?$/, 6],
+];
+
+const WEEKDAY_WORD = "(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?)";
+const WEEKDAY_FULL = "(sunday|monday|tuesday|wednesday|thursday|friday|saturday)";
+
+/** 0 (Sunday) to 6 for a weekday name or its short form, -1 otherwise. */
+export function weekdayIndex(word: string): number {
+  const w = word.toLowerCase();
+  return WEEKDAYS.find(([re]) => re.test(w))?.[1] ?? -1;
+}
+
+/** The next `weekday` after `today`, never today itself ("today" covers that). */
+export function nextWeekday(today: string, weekday: number): string {
+  return shiftIsoDate(today, (weekday - parseIsoDate(today).getDay() + 7) % 7 || 7);
+}
+
+type DateRule = { re: RegExp; resolve: (m: RegExpExecArray, today: string) => string | null };
+
+const DATE_RULES: DateRule[] = [
+  {
+    re: /(^|\s)(?:on\s+|due\s+)?(\d{4}-\d{2}-\d{2})(?=\s|$)/i,
+    resolve: (m) => (isValidIsoDate(m[2]) ? m[2] : null),
+  },
+  {
+    re: /(^|\s)in\s+(\d{1,3})\s+(days?|weeks?|months?)(?=\s|$)/i,
+    resolve: (m, today) => {
+      const n = Number(m[2]);
+      const unit = m[3].toLowerCase();
+      if (unit.startsWith("day")) return shiftIsoDate(today, n);
+      if (unit.startsWith("week")) return shiftIsoDate(today, n * 7);
+      const d = parseIsoDate(today);
+      d.setMonth(d.getMonth() + n);
+      return isoDateFromDate(d);
+    },
+  },
+  { re: /(^|\s)(today|tonight)(?=\s|$)/i, resolve: (_m, today) => today },
+  { re: /(^|\s)(tomorrow|tmrw?)(?=\s|$)/i, resolve: (_m, today) => shiftIsoDate(today, 1) },
+  {
+    re: new RegExp(`(^|\\s)(?:(?:on|next)\\s+${WEEKDAY_WORD}|${WEEKDAY_FULL})(?=\\s|$)`, "i"),
+    resolve: (m, today) => {
+      const target = weekdayIndex(m[2] ?? m[3]);
+      return target < 0 ? null : nextWeekday(today, target);
+    },
+  },
+];
+
+function matchProject(rest: string, projects: Project[]): Project | null {
+  const lower = rest.toLowerCase();
+  let best: Project | null = null;
+  for (const p of projects) {
+    const name = p.name.toLowerCase();
+    if (!lower.startsWith(name)) continue;
+    const after = rest.charAt(name.length);
+    if (after && !/\s/.test(after)) continue;
+    if (!best || p.name.length > best.name.length) best = p;
+  }
+  return best;
+}
+
+export function parseQuickAdd(text: string, projects: Project[], today: string = todayIsoDate()): QuickAdd {
+  let rest = ` ${text} `;
+  const out: QuickAdd = {
+    title: "",
+    dueAt: null,
+    dueTime: null,
+    priority: null,
+    tags: [],
+    projectId: null,
+    projectName: null,
+    unknownProject: null,
+  };
+
+  rest = rest.replace(/(^|\s)#([\p{L}\p{N}_\-/]+)/gu, (_all, lead: string, tag: string) => {
+    if (!out.tags.some((t) => t.toLowerCase() === tag.toLowerCase())) out.tags.push(tag);
+    return lead;
+  });
+
+  rest = rest.replace(/(^|\s)!p?([0-3])(?=\s|$)/gi, (_all, lead: string, n: string) => {
+    out.priority = Number(n);
+    return lead;
+  });
+
+  rest = rest.replace(/(^|\s)@(?:"([^"]+)"|(\S[^@#!]*))/g, (all, lead: string, quoted?: string, loose?: string) => {
+    if (out.projectId) return all;
+    if (quoted) {
+      const p = projects.find((x) => x.name.toLowerCase() === quoted.trim().toLowerCase());
+      if (!p) {
+        out.unknownProject = quoted.trim();
+        return all;
+      }
+      out.projectId = p.id;
+      out.projectName = p.name;
+      return lead;
+    }
+    const tail = loose ?? "";
+    const p = matchProject(tail, projects);
+    if (!p) {
+      out.unknownProject = tail.split(/\s+/)[0] ?? "";
+      return all;
+    }
+    out.projectId = p.id;
+    out.projectName = p.name;
+    return lead + tail.slice(p.name.length);
+  });
+
+  rest = rest.replace(
+    /(^|\s)(?:at\s+)?(\d{1,2}:\d{2}(?:\s*[ap]\.?m\.?)?|\d{1,2}\s*[ap]\.?m\.?)(?=\s|$)/i,
+    (all, lead: string, raw: string) => {
+      const time = parseTimeOfDay(raw);
+      if (!time) return all;
+      out.dueTime = time;
+      return lead;
+    },
+  );
+
+  for (const rule of DATE_RULES) {
+    const m = rule.re.exec(rest);
+    if (!m) continue;
+    const resolved = rule.resolve(m, today);
+    if (!resolved) continue;
+    out.dueAt = resolved;
+    rest = rest.slice(0, m.index) + m[1] + rest.slice(m.index + m[0].length);
+    break;
+  }
+
+  if (out.dueTime && !out.dueAt) out.dueAt = today;
+
+  out.title = rest.replace(/\s+/g, " ").trim();
+  return out;
+}
+
+export function hasQuickAddTokens(q: QuickAdd): boolean {
+  return Boolean(q.dueAt || q.dueTime || q.priority !== null || q.tags.length > 0 || q.projectId || q.unknownProject);
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { RecurrenceRule } from "../types";
+import { describeRecurrence, formatRecurrence, nextOccurrence, parseRecurrence } from "./recurrence";
+
+// 2026-10-19 is a Monday.
+const today = "2026-10-19";
+
+const monthlyDay = (day: number, interval = 1): RecurrenceRule => ({ freq: "monthlyDay", interval, day });
+const weekly = (weekdays: number[], interval = 1): RecurrenceRule => ({ freq: "weekly", interval, weekdays });
+
+describe("parseRecurrence", () => {
+  it("reads each kind of rule", () => {
+    expect(parseRecurrence("FREQ=DAILY;INTERVAL=2")).toEqual({ freq: "daily", interval: 2 });
+    expect(parseRecurrence("FREQ=DAILY;INTERVAL=3;X-FROM=COMPLETION")).toEqual({ freq: "afterCompletion", interval: 3 });
+    expect(parseRecurrence("FREQ=WEEKLY;INTERVAL=1;BYDAY=WE,MO,WE")).toEqual(weekly([1, 3]));
+    expect(parseRecurrence("FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31")).toEqual(monthlyDay(31));
+    expect(parseRecurrence("FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR")).toEqual({ freq: "monthlyNth", interval: 2, nth: -1, weekday: 5 });
+  });
+
+  it("accepts an RRULE: prefix, lower case and a missing interval", () => {
+    expect(parseRecurrence("RRULE:freq=weekly;byday=fr")).toEqual(weekly([5]));
+  });
+
+  it("clamps the interval to 1-365", () => {
+    expect(parseRecurrence("FREQ=DAILY;INTERVAL=0")).toEqual({ freq: "daily", interval: 1 });
+    expect(parseRecurrence("FREQ=DAILY;INTERVAL=1000")).toEqual({ freq: "daily", interval: 365 });
+  });
+
+  it("rejects what it can't schedule", () => {
+    expect(parseRecurrence(null)).toBeNull();
+    expect(parseRecurrence("")).toBeNull();
+    expect(parseRecurrence("FREQ=YEARLY")).toBeNull();
+    expect(parseRecurrence("FREQ=MONTHLY;BYDAY=5MO")).toBeNull();
+    expect(parseRecurrence("FREQ=MONTHLY;BYMONTHDAY=32")).toBeNull();
+  });
+
+  it("round-trips through formatRecurrence", () => {
+    for (const text of [
+      "FREQ=DAILY;INTERVAL=1",
+      "FREQ=DAILY;INTERVAL=3;X-FROM=COMPLETION",
+      "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR",
+      "FREQ=WEEKLY;INTERVAL=1",
+      "FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31",
+      "FREQ=MONTHLY;INTERVAL=3;BYDAY=2TU",
+    ]) {
+      expect(formatRecurrence(parseRecurrence(text)!)).toBe(text);
+    }
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes each kind of rule", () => {
+    expect(describeRecurrence({ freq: "daily", interval: 1 })).toBe("Every day");
+    expect(describeRecurrence({ freq: "afterCompletion", interval: 2 })).toBe("2 days after completion");
+    expect(describeRecurrence(weekly([1, 3], 2))).toBe("Every 2 weeks on Mon, Wed");
+    expect(describeRecurrence(monthlyDay(31))).toBe("Every month on day 31");
+    expect(describeRecurrence({ freq: "monthlyNth", interval: 1, nth: -1, weekday: 5 })).toBe("Every month on the last Fri");
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("steps daily rules from the due date", () => {
+    expect(nextOccurrence({ freq: "daily", interval: 1 }, today, today)).toBe("2026-10-20");
+    expect(nextOccurrence({ freq: "daily", interval: 3 }, "2026-10-18", "2026-10-18")).toBe("2026-10-21");
+  });
+
+  it("rolls an overdue task to the first slot after the completion day", () => {
+    expect(nextOccurrence({ freq: "daily", interval: 1 }, "2026-10-10", today)).toBe("2026-10-20");
+    expect(nextOccurrence({ freq: "daily", interval: 7 }, "2026-10-05", today)).toBe("2026-10-26");
+    expect(nextOccurrence(weekly([1]), "2026-10-05", today)).toBe("2026-10-26");
+  });
+
+  it("counts after-completion rules from the completion day", () => {
+    expect(nextOccurrence({ freq: "afterCompletion", interval: 3 }, "2026-10-01", today)).toBe("2026-10-22");
+    expect(nextOccurrence({ freq: "afterCompletion", interval: 3 }, null, today)).toBe("2026-10-22");
+  });
+
+  it("starts from the completion day without a due date", () => {
+    expect(nextOccurrence(weekly([5]), null, today)).toBe("2026-10-23");
+  });
+
+  it("walks weekly BYDAY lists within and across weeks", () => {
+    const monWedFri = weekly([1, 3, 5]);
+    expect(nextOccurrence(monWedFri, today, today)).toBe("2026-10-21");
+    expect(nextOccurrence(monWedFri, "2026-10-21", "2026-10-21")).toBe("2026-10-23");
+    expect(nextOccurrence(monWedFri, "2026-10-23", "2026-10-23")).toBe("2026-10-26");
+  });
+
+  it("repeats on the due date's weekday without BYDAY", () => {
+    expect(nextOccurrence(weekly([]), "2026-10-21", "2026-10-21")).toBe("2026-10-28");
+  });
+
+  it("skips weeks for an interval", () => {
+    const everyOtherMonWed = weekly([1, 3], 2);
+    expect(nextOccurrence(everyOtherMonWed, today, today)).toBe("2026-10-21");
+    expect(nextOccurrence(everyOtherMonWed, "2026-10-21", "2026-10-21")).toBe("2026-11-02");
+    expect(nextOccurrence(weekly([1], 3), today, today)).toBe("2026-11-09");
+  });
+
+  it("keeps the weekday across DST", () => {
+    // Clocks go back on Sunday 2026-11-01 in America/New_York.
+    expect(nextOccurrence(weekly([1]), "2026-10-26", "2026-10-26")).toBe("2026-11-02");
+    expect(nextOccurrence({ freq: "daily", interval: 1 }, "2026-10-31", "2026-10-31")).toBe("2026-11-01");
+  });
+
+  it("clamps a month-end day to shorter months without drifting", () => {
+    const on31st = monthlyDay(31);
+    expect(nextOccurrence(on31st, "2026-01-31", "2026-01-31")).toBe("2026-02-28");
+    expect(nextOccurrence(on31st, "2026-02-28", "2026-02-28")).toBe("2026-03-31");
+    expect(nextOccurrence(on31st, "2026-03-31", "2026-03-31")).toBe("2026-04-30");
+    expect(nextOccurrence(on31st, "2026-04-30", "2026-04-30")).toBe("2026-05-31");
+  });
+
+  it("knows leap years", () => {
+    expect(nextOccurrence(monthlyDay(29), "2024-01-29", "2024-01-29")).toBe("2024-02-29");
+    expect(nextOccurrence(monthlyDay(29), "2026-01-29", "2026-01-29")).toBe("2026-02-28");
+    expect(nextOccurrence(monthlyDay(31), "2024-01-31", "2024-01-31")).toBe("2024-02-29");
+    expect(nextOccurrence({ freq: "daily", interval: 1 }, "2024-02-28", "2024-02-28")).toBe("2024-02-29");
+  });
+
+  it("steps monthly rules by the interval and across years", () => {
+    expect(nextOccurrence(monthlyDay(15, 3), "2026-11-15", "2026-11-15")).toBe("2027-02-15");
+    expect(nextOccurrence(monthlyDay(25), "2026-10-19", today)).toBe("2026-10-25");
+  });
+
+  it("finds the nth and last weekday of the month", () => {
+    expect(nextOccurrence({ freq: "monthlyNth", interval: 1, nth: 2, weekday: 2 }, "2026-10-13", today)).toBe("2026-11-10");
+    expect(nextOccurrence({ freq: "monthlyNth", interval: 1, nth: -1, weekday: 5 }, today, today)).toBe("2026-10-30");
+    expect(nextOccurrence({ freq: "monthlyNth", interval: 1, nth: -1, weekday: 5 }, "2026-10-30", "2026-10-30")).toBe("2026-11-27");
+    expect(nextOccurrence({ freq: "monthlyNth", interval: 1, nth: 1, weekday: 0 }, "2026-10-04", "2026-10-04")).toBe("2026-11-01");
+  });
+});
@@ -0,0 +1,166 @@
+import type { RecurrenceRule } from "../types";
+import { isoDateFromDate, parseIsoDate, shiftIsoDate } from "./date";
+
+// Rules are stored as RRULE-style strings, e.g.
+//   FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE
+//   FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR
+// "Every N days after completion" has no RRULE equivalent, so it uses an X- extension:
+//   FREQ=DAILY;INTERVAL=3;X-FROM=COMPLETION
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+export const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function clampInterval(n: unknown): number {
+  const v = Math.floor(Number(n));
+  return Number.isFinite(v) && v > 0 ? Math.min(v, 365) : 1;
+}
+
+export function parseRecurrence(text: string | null | undefined): RecurrenceRule | null {
+  if (!text) return null;
+  const parts = new Map<string, string>();
+  for (const chunk of text.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [k, v] = chunk.split("=");
+    if (k && v !== undefined) parts.set(k.trim().toUpperCase(), v.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  const interval = clampInterval(parts.get("INTERVAL") ?? 1);
+
+  if (freq === "DAILY") {
+    if (parts.get("X-FROM") === "COMPLETION") return { freq: "afterCompletion", interval };
+    return { freq: "daily", interval };
+  }
+
+  if (freq === "WEEKLY") {
+    const weekdays = (parts.get("BYDAY") ?? "")
+      .split(",")
+      .map((c) => DAY_CODES.indexOf(c))
+      .filter((d) => d >= 0);
+    return { freq: "weekly", interval, weekdays: Array.from(new Set(weekdays)).sort() };
+  }
+
+  if (freq === "MONTHLY") {
+    const byDay = parts.get("BYDAY");
+    if (byDay) {
+      const m = /^(-?[1-4])([A-Z]{2})$/.exec(byDay);
+      if (!m) return null;
+      const weekday = DAY_CODES.indexOf(m[2]);
+      if (weekday < 0) return null;
+      return { freq: "monthlyNth", interval, nth: Number(m[1]), weekday };
+    }
+    const day = Math.floor(Number(parts.get("BYMONTHDAY") ?? 1));
+    if (!Number.isFinite(day) || day < 1 || day > 31) return null;
+    return { freq: "monthlyDay", interval, day };
+  }
+
+  return null;
+}
+
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const interval = clampInterval(rule.interval);
+  switch (rule.freq) {
+    case "daily":
+      return `FREQ=DAILY;INTERVAL=${interval}`;
+    case "afterCompletion":
+      return `FREQ=DAILY;INTERVAL=${interval};X-FROM=COMPLETION`;
+    case "weekly": {
+      const days = rule.weekdays.map((d) => DAY_CODES[d]).filter(Boolean);
+      return `FREQ=WEEKLY;INTERVAL=${interval}` + (days.length ? `;BYDAY=${days.join(",")}` : "");
+    }
+    case "monthlyDay":
+      return `FREQ=MONTHLY;INTERVAL=${interval};BYMONTHDAY=${rule.day}`;
+    case "monthlyNth":
+      return `FREQ=MONTHLY;INTERVAL=${interval};BYDAY=${rule.nth}${DAY_CODES[rule.weekday]}`;
+  }
+}
+
+function ordinal(n: number): string {
+  if (n === -1) return "last";
+  return n === 1 ? "1st" : n === 2 ? "2nd" : n === 3 ? "3rd" : `${n}th`;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const n = rule.interval;
+  switch (rule.freq) {
+    case "daily":
+      return n === 1 ? "Every day" : `Every ${n} days`;
+    case "afterCompletion":
+      return n === 1 ? "1 day after completion" : `${n} days after completion`;
+    case "weekly": {
+      const base = n === 1 ? "Every week" : `Every ${n} weeks`;
+      return rule.weekdays.length ? `${base} on ${rule.weekdays.map((d) => WEEKDAY_SHORT[d]).join(", ")}` : base;
+    }
+    case "monthlyDay":
+      return `${n === 1 ? "Every month" : `Every ${n} months`} on day ${rule.day}`;
+    case "monthlyNth":
+      return `${n === 1 ? "Every month" : `Every ${n} months`} on the ${ordinal(rule.nth)} ${WEEKDAY_SHORT[rule.weekday]}`;
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function nthWeekdayOfMonth(year: number, month: number, nth: number, weekday: number): Date {
+  if (nth === -1) {
+    const last = new Date(year, month, daysInMonth(year, month), 12);
+    last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(year, month, 1, 12);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (nth - 1) * 7, 12);
+}
+
+function monthlyCandidate(rule: RecurrenceRule, year: number, month: number): Date {
+  // Normalise month overflow (e.g. month 13 -> next year).
+  const norm = new Date(year, month, 1, 12);
+  const y = norm.getFullYear();
+  const m = norm.getMonth();
+  if (rule.freq === "monthlyNth") return nthWeekdayOfMonth(y, m, rule.nth, rule.weekday);
+  const day = rule.freq === "monthlyDay" ? rule.day : 1;
+  return new Date(y, m, Math.min(day, daysInMonth(y, m)), 12);
+}
+
+// One step of the schedule strictly after `fromIso`.
+function stepAfter(rule: RecurrenceRule, fromIso: string): string {
+  const from = parseIsoDate(fromIso);
+  switch (rule.freq) {
+    case "daily":
+    case "afterCompletion":
+      return shiftIsoDate(fromIso, rule.interval);
+    case "weekly": {
+      const weekdays = rule.weekdays.length ? rule.weekdays : [from.getDay()];
+      const weekStart = shiftIsoDate(fromIso, -from.getDay());
+      for (let i = 1; i <= 7 * rule.interval + 7; i++) {
+        const candidate = shiftIsoDate(fromIso, i);
+        const d = parseIsoDate(candidate);
+        const week = Math.floor(Math.round((d.getTime() - parseIsoDate(weekStart).getTime()) / 86_400_000) / 7);
+        if (week % rule.interval === 0 && weekdays.includes(d.getDay())) return candidate;
+      }
+      return shiftIsoDate(fromIso, 7 * rule.interval);
+    }
+    case "monthlyDay":
+    case "monthlyNth": {
+      // The same month still counts if its occurrence lies after the anchor.
+      const sameMonth = monthlyCandidate(rule, from.getFullYear(), from.getMonth());
+      if (sameMonth.getTime() > from.getTime()) return isoDateFromDate(sameMonth);
+      return isoDateFromDate(monthlyCandidate(rule, from.getFullYear(), from.getMonth() + rule.interval));
+    }
+  }
+}
+
+/**
+ * Next due date for a recurring task that was completed on `completedOn`.
+ * Fixed schedules advance from the current due date and skip past occurrences,
+ * so an overdue task rolls to the first slot after the completion day.
+ */
+export function nextOccurrence(rule: RecurrenceRule, dueAt: string | null, completedOn: string): string {
+  if (rule.freq === "afterCompletion") return stepAfter(rule, completedOn);
+
+  let next = stepAfter(rule, dueAt ?? completedOn);
+  for (let guard = 0; next <= completedOn && guard < 1000; guard++) {
+    next = stepAfter(rule, next);
+  }
+  return next;
+}
@@ -0,0 +1,40 @@
+import type { Reminder, Task } from "../types";
+import { shiftLocalDateTime } from "./date";
+
+// Reminder fire times are local wall-clock "YYYY-MM-DDTHH:MM" strings, like due
+// dates they float with the machine's timezone, and compare as plain strings.
+
+// All-day tasks have no time to count back from; relative reminders use this.
+export const ALL_DAY_REMINDER_TIME = "09:00";
+
+export const RELATIVE_PRESETS: Array<{ minutes: number; label: string }> = [
+  { minutes: 0, label: "At due time" },
+  { minutes: 10, label: "10 min before" },
+  { minutes: 30, label: "30 min before" },
+  { minutes: 60, label: "1 hour before" },
+  { minutes: 24 * 60, label: "1 day before" },
+];
+
+/** When the reminder should go off next, or null if it can't (relative with no due date). */
+export function reminderFireAt(r: Reminder, task: Pick<Task, "dueAt" | "dueTime">): string | null {
+  if (r.snoozedUntil) return r.snoozedUntil;
+  if (r.at) return r.at;
+  if (r.offsetMinutes === null || !task.dueAt) return null;
+  return shiftLocalDateTime(`${task.dueAt}T${task.dueTime ?? ALL_DAY_REMINDER_TIME}`, -r.offsetMinutes);
+}
+
+/** Due now: its fire time has arrived and it has not been notified for that time yet. */
+export function isReminderDue(r: Reminder, task: Pick<Task, "dueAt" | "dueTime">, now: string): boolean {
+  const fireAt = reminderFireAt(r, task);
+  return fireAt !== null && fireAt <= now && r.firedFor !== fireAt;
+}
+
+export function describeReminder(r: Reminder): string {
+  if (r.at) return `At ${r.at.replace("T", " ")}`;
+  const m = r.offsetMinutes ?? 0;
+  const preset = RELATIVE_PRESETS.find((p) => p.minutes === m);
+  if (preset) return preset.label;
+  if (m % (24 * 60) === 0) return `${m / (24 * 60)} days before`;
+  if (m % 60 === 0) return `${m / 60} hours before`;
+  return `${m} min before`;
+}
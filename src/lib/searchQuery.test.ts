@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { parseSearchQuery } from "./searchQuery";
+
+const today = "2026-10-19";
+
+describe("parseSearchQuery", () => {
+  it("pulls known filters out of the text", () => {
+    const q = parseSearchQuery('report tag:work -tag:later project:"Side Quest" p:2 due<=+1w is:open', today);
+    expect(q.text).toBe("report");
+    expect(q.errors).toEqual([]);
+    expect(q.filters).toEqual([
+      { kind: "tag", name: "work", negate: false },
+      { kind: "tag", name: "later", negate: true },
+      { kind: "project", name: "Side Quest", negate: false },
+      { kind: "priority", op: "=", value: 2, negate: false },
+      { kind: "due", op: "<=", value: "2026-10-26", negate: false },
+      { kind: "is", value: "open", negate: false },
+    ]);
+  });
+
+  it("leaves other words with a colon as free text", () => {
+    const q = parseSearchQuery("Note: re:meeting https://example.com/a?b=1 -re:spam", today);
+    expect(q.filters).toEqual([]);
+    expect(q.errors).toEqual([]);
+    expect(q.text).toBe("Note: re:meeting https://example.com/a?b=1 -re:spam");
+  });
+
+  it("reports bad values for known filters", () => {
+    expect(parseSearchQuery("due:", today).errors[0].message).toBe('"due:" needs a value');
+    expect(parseSearchQuery("priority:7", today).errors).toHaveLength(1);
+    expect(parseSearchQuery("is:someday", today).errors).toHaveLength(1);
+  });
+});
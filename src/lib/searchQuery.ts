@@ -0,0 +1,157 @@
+import type { SavedView } from "../types";
+import { isValidIsoDate, shiftIsoDate, todayIsoDate } from "./date";
+
+// Search box query language. Field filters are pulled out and turned into SQL by
+// listTasks; whatever is left is free text for the FTS index (lib/ftsQuery.ts).
+//
+//   tag:work            has tag (repeat for AND)         -tag:work   lacks tag
+//   project:"Side Quest"  in project (name, case-insensitive)
+//   priority>=2  p:3    priority compare (= : > >= < <=), values 0-3 or p0-p3
+//   due<2026-11-01      due date compare; values: YYYY-MM-DD, today, tomorrow,
+//   due:today           yesterday, +3d / -2d / +1w; due:none = no due date
+//   start<=today        start/scheduled date, same values as due
+//   is:open  is:done  is:overdue  is:recurring  is:blocked (has an open blocker)
+//   has:notes  has:due  has:start  has:time  has:tags  has:subtasks
+//
+// Any filter can be negated with a leading "-". Only these field names are
+// filters: "re:meeting", "Note:" or a pasted URL stay free text.
+
+export type CompareOp = "=" | ">" | ">=" | "<" | "<=";
+
+export type SearchFilter =
+  | { kind: "tag"; name: string; negate: boolean }
+  | { kind: "project"; name: string; negate: boolean }
+  | { kind: "priority"; op: CompareOp; value: number; negate: boolean }
+  | { kind: "due" | "start"; op: CompareOp; value: string | null; negate: boolean } // null = no date
+  | { kind: "is"; value: "open" | "done" | "overdue" | "recurring" | "blocked"; negate: boolean }
+  | { kind: "has"; value: "notes" | "due" | "start" | "time" | "tags" | "subtasks"; negate: boolean };
+
+export type SearchQueryError = { token: string; message: string };
+
+export type ParsedSearch = {
+  text: string;
+  filters: SearchFilter[];
+  errors: SearchQueryError[];
+};
+
+const FIELD_RE = /^(-?)([a-z]+)(>=|<=|:|=|>|<)(.*)$/i;
+
+const FIELDS = new Set(["tag", "project", "priority", "p", "due", "start", "is", "has"]);
+
+const IS_VALUES = ["open", "done", "overdue", "recurring", "blocked"] as const;
+const HAS_VALUES = ["notes", "due", "start", "time", "tags", "subtasks"] as const;
+
+function splitTokens(input: string): string[] {
+  // Whitespace-separated, but quoted runs (including field:"a b") stay together.
+  return input.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? [];
+}
+
+function unquote(v: string): string {
+  return v.replace(/^"/, "").replace(/"$/, "");
+}
+
+function resolveDate(raw: string, today: string): string | null {
+  const v = raw.toLowerCase();
+  if (v === "today") return today;
+  if (v === "tomorrow") return shiftIsoDate(today, 1);
+  if (v === "yesterday") return shiftIsoDate(today, -1);
+  const rel = /^([+-]\d{1,3})([dw])$/.exec(v);
+  if (rel) return shiftIsoDate(today, Number(rel[1]) * (rel[2] === "w" ? 7 : 1));
+  if (isValidIsoDate(v)) return v;
+  return null;
+}
+
+function normOp(op: string): CompareOp {
+  return op === ":" ? "=" : (op as CompareOp);
+}
+
+export function parseSearchQuery(input: string, today: string = todayIsoDate()): ParsedSearch {
+  const text: string[] = [];
+  const filters: SearchFilter[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const token of splitTokens(input)) {
+    const m = FIELD_RE.exec(token);
+    if (!m || token.startsWith('"') || !FIELDS.has(m[2].toLowerCase())) {
+      text.push(token);
+      continue;
+    }
+
+    const negate = m[1] === "-";
+    const field = m[2].toLowerCase();
+    const op = m[3];
+    const value = unquote(m[4]).trim();
+    const fail = (message: string) => errors.push({ token, message });
+
+    if (!value) {
+      fail(`"${field}${op}" needs a value`);
+      continue;
+    }
+
+    switch (field) {
+      case "tag":
+      case "project": {
+        if (op !== ":" && op !== "=") {
+          fail(`${field} only supports ":"`);
+          break;
+        }
+        filters.push({ kind: field, name: value, negate });
+        break;
+      }
+      case "priority":
+      case "p": {
+        const n = Number(value.replace(/^p/i, ""));
+        if (!Number.isInteger(n) || n < 0 || n > 3) {
+          fail(`priority must be 0-3 (or p0-p3), got "${value}"`);
+          break;
+        }
+        filters.push({ kind: "priority", op: normOp(op), value: n, negate });
+        break;
+      }
+      case "due":
+      case "start": {
+        if (value.toLowerCase() === "none") {
+          if (op !== ":" && op !== "=") {
+            fail(`${field}:none can't be compared with "${op}"`);
+            break;
+          }
+          filters.push({ kind: field, op: "=", value: null, negate });
+          break;
+        }
+        const date = resolveDate(value, today);
+        if (!date) {
+          fail(`"${value}" is not a date (YYYY-MM-DD, today, tomorrow, +3d...)`);
+          break;
+        }
+        filters.push({ kind: field, op: normOp(op), value: date, negate });
+        break;
+      }
+      case "is":
+      case "has": {
+        const allowed: readonly string[] = field === "is" ? IS_VALUES : HAS_VALUES;
+        const v = value.toLowerCase() === "completed" ? "done" : value.toLowerCase();
+        if (op !== ":" || !allowed.includes(v)) {
+          fail(`${field}: expects one of ${allowed.join(", ")}`);
+          break;
+        }
+        filters.push({ kind: field, value: v, negate } as SearchFilter);
+        break;
+      }
+    }
+  }
+
+  return { text: text.join(" "), filters, errors };
+}
+
+/** The fixed part of a saved view, as free text plus filters for listTasks. */
+export function savedViewQuery(view: SavedView, today: string = todayIsoDate()): ParsedSearch {
+  const parsed = parseSearchQuery(view.search, today);
+  const filters = [...parsed.filters];
+  if (view.priorityMin !== null && view.priorityMin !== undefined) {
+    filters.push({ kind: "priority", op: ">=", value: view.priorityMin, negate: false });
+  }
+  if (view.dueFrom) filters.push({ kind: "due", op: ">=", value: view.dueFrom, negate: false });
+  if (view.dueTo) filters.push({ kind: "due", op: "<=", value: view.dueTo, negate: false });
+  if (!view.includeCompleted) filters.push({ kind: "is", value: "open", negate: false });
+  return { ...parsed, filters };
+}
@@ -0,0 +1,122 @@
+import type { Task } from "../types";
+import { daysBetween, isoDateFromDate, shiftIsoDate, startOfWeek } from "./date";
+
+// Dashboard numbers, computed from plain task rows. Everything is bucketed by
+// local calendar day, like due dates: a completion at 23:30 counts for that day
+// wherever the machine is now.
+
+export type StatsTask = Pick<Task, "id" | "projectId" | "completed" | "completedAt" | "createdAt" | "dueAt" | "priority">;
+
+export type Stats = {
+  daily: Array<{ date: string; count: number }>; // oldest first
+  weekly: Array<{ weekStart: string; count: number }>; // Monday-based, oldest first
+  // Completions in the weekly window that had a due date: on or before it, or after.
+  onTime: number;
+  late: number;
+  projectLoad: Array<{ projectId: string | null; open: number; overdue: number }>; // busiest first
+  openByPriority: number[]; // index = priority 0-3
+  aging: Array<{ label: string; count: number }>;
+  streak: { current: number; longest: number };
+  openCount: number;
+  completedCount: number;
+};
+
+export const DAILY_DAYS = 30;
+export const WEEKLY_WEEKS = 12;
+
+const AGE_BUCKETS: Array<{ label: string; maxDays: number }> = [
+  { label: "< 1 week", maxDays: 6 },
+  { label: "1–4 weeks", maxDays: 27 },
+  { label: "1–3 months", maxDays: 89 },
+  { label: "3+ months", maxDays: Infinity },
+];
+
+/** Local calendar day of an ISO timestamp. */
+function localDay(iso: string): string {
+  return isoDateFromDate(new Date(iso));
+}
+
+function streaks(days: Set<string>, today: string): { current: number; longest: number } {
+  // The current streak survives until the end of today, so it may end yesterday.
+  let current = 0;
+  let cursor = days.has(today) ? today : shiftIsoDate(today, -1);
+  while (days.has(cursor)) {
+    current++;
+    cursor = shiftIsoDate(cursor, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let prev: string | null = null;
+  for (const day of [...days].sort()) {
+    run = prev !== null && daysBetween(prev, day) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = day;
+  }
+  return { current, longest };
+}
+
+export function computeStats(tasks: StatsTask[], today: string): Stats {
+  const daily = Array.from({ length: DAILY_DAYS }, (_, i) => ({ date: shiftIsoDate(today, i - DAILY_DAYS + 1), count: 0 }));
+  const thisWeek = startOfWeek(today);
+  const weekly = Array.from({ length: WEEKLY_WEEKS }, (_, i) => ({
+    weekStart: shiftIsoDate(thisWeek, (i - WEEKLY_WEEKS + 1) * 7),
+    count: 0,
+  }));
+  const dailyIndex = new Map(daily.map((d, i) => [d.date, i] as const));
+  const weeklyIndex = new Map(weekly.map((w, i) => [w.weekStart, i] as const));
+
+  const completionDays = new Set<string>();
+  const load = new Map<string | null, { open: number; overdue: number }>();
+  const openByPriority = [0, 0, 0, 0];
+  const aging = AGE_BUCKETS.map((b) => ({ label: b.label, count: 0 }));
+  let onTime = 0;
+  let late = 0;
+  let openCount = 0;
+  let completedCount = 0;
+
+  for (const t of tasks) {
+    if (t.completed) {
+      completedCount++;
+      if (!t.completedAt) continue;
+      const day = localDay(t.completedAt);
+      completionDays.add(day);
+      const di = dailyIndex.get(day);
+      if (di !== undefined) daily[di].count++;
+      const wi = weeklyIndex.get(startOfWeek(day));
+      if (wi !== undefined) {
+        weekly[wi].count++;
+        if (t.dueAt) {
+          if (day <= t.dueAt) onTime++;
+          else late++;
+        }
+      }
+      continue;
+    }
+
+    openCount++;
+    const key = t.projectId ?? null;
+    const entry = load.get(key) ?? { open: 0, overdue: 0 };
+    entry.open++;
+    if (t.dueAt && t.dueAt < today) entry.overdue++;
+    load.set(key, entry);
+    openByPriority[Math.max(0, Math.min(3, t.priority))]++;
+    const age = daysBetween(localDay(t.createdAt), today);
+    aging[AGE_BUCKETS.findIndex((b) => age <= b.maxDays)].count++;
+  }
+
+  return {
+    daily,
+    weekly,
+    onTime,
+    late,
+    projectLoad: [...load.entries()]
+      .map(([projectId, v]) => ({ projectId, ...v }))
+      .sort((a, b) => b.open - a.open || b.overdue - a.overdue),
+    openByPriority,
+    aging,
+    streak: streaks(completionDays, today),
+    openCount,
+    completedCount,
+  };
+}
@@ -0,0 +1,58 @@
+import type { TaskEvent } from "../types";
+import { describeRecurrence, parseRecurrence } from "./recurrence";
+
+// Display text for task history entries. Values arrive as the raw column text
+// written by the triggers; this turns them into something readable.
+
+export type TaskEventLine = {
+  label: string;
+  // Both null for events that are fully described by the label (completed, tagged...).
+  from: string | null;
+  to: string | null;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  notes: "Notes",
+  priority: "Priority",
+  due_at: "Due date",
+  due_time: "Due time",
+  start_at: "Start date",
+  project: "Project",
+  recurrence: "Repeat",
+  status: "Status",
+  blocked_by: "Blocked by",
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+function formatValue(field: string, value: string | null): string {
+  if (value === null || value === "") return "none";
+  if (field === "priority") return `P${value}`;
+  if (field === "recurrence") {
+    const rule = parseRecurrence(value);
+    return rule ? describeRecurrence(rule) : value;
+  }
+  const flat = value.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_VALUE_LENGTH ? `${flat.slice(0, MAX_VALUE_LENGTH - 1)}…` : flat;
+}
+
+export function describeTaskEvent(ev: TaskEvent): TaskEventLine {
+  switch (ev.kind) {
+    case "created":
+      return { label: "Created", from: null, to: null };
+    case "tagged":
+      return { label: `Tagged #${ev.newValue ?? "?"}`, from: null, to: null };
+    case "untagged":
+      return { label: `Removed #${ev.oldValue ?? "?"}`, from: null, to: null };
+  }
+
+  const field = ev.field ?? "";
+  if (field === "completed") return { label: ev.newValue === "1" ? "Completed" : "Reopened", from: null, to: null };
+  if (field === "deleted_at") return { label: ev.newValue ? "Moved to Trash" : "Restored from Trash", from: null, to: null };
+  return {
+    label: FIELD_LABELS[field] ?? field,
+    from: formatValue(field, ev.oldValue),
+    to: formatValue(field, ev.newValue),
+  };
+}
@@ -0,0 +1,123 @@
+import type { Attachment, Project, Subtask, Task } from "../types";
+import { formatDue } from "./date";
+import { buildProjectTree, flattenProjectTree } from "./projectTree";
+import { describeRecurrence, parseRecurrence } from "./recurrence";
+
+// Human-readable task exports for sharing and reporting (the JSON backup is the
+// one to restore from). Markdown is a checklist grouped by project in sidebar
+// order; CSV is one row per task with tags flattened into a single cell.
+
+export type ExportTask = Task & {
+  tags: string[];
+  subtasks: Subtask[];
+  attachments: Attachment[];
+};
+
+const NO_PROJECT = "No project";
+
+/** "Parent / Child" labels, so nested projects stay recognisable outside the sidebar. */
+export function projectPaths(projects: Project[]): Map<string, string> {
+  const paths = new Map<string, string>();
+  const walk = (nodes: ReturnType<typeof buildProjectTree>, prefix: string) => {
+    for (const n of nodes) {
+      const path = prefix + n.project.name;
+      paths.set(n.project.id, path);
+      walk(n.children, `${path} / `);
+    }
+  };
+  walk(buildProjectTree(projects), "");
+  return paths;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, "\\$&").replace(/\s*\n\s*/g, " ");
+}
+
+function taskLine(t: ExportTask): string {
+  const parts = [escapeMarkdown(t.title)];
+  if (t.dueAt) parts.push(`due ${formatDue(t.dueAt, t.dueTime ?? null)}`);
+  if (t.startAt) parts.push(`starts ${t.startAt}`);
+  const rule = parseRecurrence(t.recurrence);
+  if (rule) parts.push(describeRecurrence(rule));
+  if (t.priority > 0) parts.push(`P${t.priority}`);
+  if (t.tags.length > 0) parts.push(t.tags.map((name) => `#${name}`).join(" "));
+  return `- [${t.completed ? "x" : " "}] ${parts.join(" · ")}`;
+}
+
+export function tasksToMarkdown(title: string, tasks: ExportTask[], projects: Project[], exportedAt: string): string {
+  const order = flattenProjectTree(buildProjectTree(projects), new Set()).map((n) => n.project.id);
+  const paths = projectPaths(projects);
+  const groups = new Map<string | null, ExportTask[]>();
+  for (const t of tasks) {
+    const key = t.projectId && paths.has(t.projectId) ? t.projectId : null;
+    const list = groups.get(key);
+    if (list) list.push(t);
+    else groups.set(key, [t]);
+  }
+
+  const open = tasks.filter((t) => !t.completed).length;
+  const lines = [`# ${escapeMarkdown(title)}`, "", `_${tasks.length} tasks, ${open} open · exported ${exportedAt}_`];
+  for (const key of [...order.filter((id) => groups.has(id)), ...(groups.has(null) ? [null] : [])]) {
+    lines.push("", `## ${escapeMarkdown(key ? paths.get(key)! : NO_PROJECT)}`, "");
+    // Open tasks first; each half keeps the order it came in.
+    const list = groups.get(key)!;
+    for (const t of [...list.filter((x) => !x.completed), ...list.filter((x) => x.completed)]) {
+      lines.push(taskLine(t));
+      for (const s of t.subtasks) lines.push(`  - [${s.completed ? "x" : " "}] ${escapeMarkdown(s.title)}`);
+      for (const a of t.attachments) {
+        lines.push(a.kind === "url" ? `  - 🔗 [${escapeMarkdown(a.name)}](<${a.target}>)` : `  - 📄 ${escapeMarkdown(a.name)}`);
+      }
+    }
+  }
+  if (tasks.length === 0) lines.push("", "_Nothing to export._");
+  return lines.join("\n") + "\n";
+}
+
+const CSV_COLUMNS = [
+  "Project",
+  "Title",
+  "Status",
+  "Priority",
+  "Due date",
+  "Due time",
+  "Start date",
+  "Repeat",
+  "Tags",
+  "Checklist",
+  "Attachments",
+  "Notes",
+  "Created",
+  "Completed",
+];
+
+function csvCell(value: string): string {
+  // A leading = + - @ would make spreadsheets evaluate the cell as a formula.
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** RFC 4180 CSV with a byte-order mark, so spreadsheet apps read it as UTF-8. */
+export function tasksToCsv(tasks: ExportTask[], projects: Project[]): string {
+  const paths = projectPaths(projects);
+  const rows = tasks.map((t) => {
+    const rule = parseRecurrence(t.recurrence);
+    const steps = t.subtasks.length ? `${t.subtasks.filter((s) => s.completed).length}/${t.subtasks.length}` : "";
+    return [
+      t.projectId ? paths.get(t.projectId) ?? "" : "",
+      t.title,
+      t.completed ? "done" : "open",
+      `P${t.priority}`,
+      t.dueAt ?? "",
+      t.dueTime ?? "",
+      t.startAt ?? "",
+      rule ? describeRecurrence(rule) : "",
+      t.tags.join(", "),
+      steps,
+      t.attachments.map((a) => (a.kind === "url" ? a.target : a.name)).join(", "),
+      t.notes,
+      t.createdAt,
+      t.completedAt ?? "",
+    ];
+  });
+  return "\uFEFF" + [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
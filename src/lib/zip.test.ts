@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+const entries: ZipEntry[] = [
+  { name: "backup.json", data: text('{"format":"backup","version":2}') },
+  { name: "attachments/Résumé – 2026 📎.pdf", data: Uint8Array.from({ length: 300 }, (_, i) => i % 256) },
+  { name: "empty.txt", data: new Uint8Array(0) },
+];
+
+describe("createZip and readZip", () => {
+  it("round-trip names, contents and empty files", () => {
+    expect(readZip(createZip(entries))).toEqual(entries);
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+
+  it("reads an archive that sits inside a larger buffer", () => {
+    const zip = createZip(entries);
+    const buffer = new Uint8Array(zip.length + 16);
+    buffer.set(zip, 8);
+    expect(readZip(buffer.subarray(8, 8 + zip.length))).toEqual(entries);
+  });
+
+  it("skips the archive comment and directory entries", () => {
+    const zip = createZip(entries);
+    const withComment = new Uint8Array(zip.length + 5);
+    withComment.set(zip);
+    withComment.set(text("hello"), zip.length);
+    new DataView(withComment.buffer).setUint16(zip.length - 2, 5, true);
+    expect(readZip(withComment)).toEqual(entries);
+    expect(readZip(createZip([{ name: "attachments/", data: new Uint8Array(0) }]))).toEqual([]);
+  });
+});
+
+describe("readZip", () => {
+  it("rejects something that isn't a zip", () => {
+    expect(() => readZip(new Uint8Array(0))).toThrow("Not a zip archive");
+    expect(() => readZip(text("just some text, no end record here at all"))).toThrow("Not a zip archive");
+  });
+
+  it("rejects a truncated archive", () => {
+    const zip = createZip(entries);
+    expect(() => readZip(zip.subarray(0, zip.length - 10))).toThrow("Not a zip archive");
+    // The end record survives but the entries it points at have moved.
+    expect(() => readZip(zip.subarray(40))).toThrow("Zip archive is damaged");
+  });
+
+  it("rejects entries whose data doesn't match the checksum", () => {
+    const zip = createZip(entries);
+    zip[30 + "backup.json".length] ^= 0xff; // first byte of the first entry's data
+    expect(() => readZip(zip)).toThrow('"backup.json" is damaged (checksum mismatch)');
+  });
+
+  it("rejects compressed entries", () => {
+    const zip = createZip([entries[0]]);
+    const view = new DataView(zip.buffer);
+    const centralStart = view.getUint32(zip.length - 6, true);
+    view.setUint16(centralStart + 10, 8, true); // deflate
+    expect(() => readZip(zip)).toThrow('"backup.json" is compressed');
+  });
+});
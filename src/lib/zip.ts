@@ -0,0 +1,151 @@
+// Minimal ZIP archives for backup bundles: entries are stored uncompressed
+// (attachments are mostly PDFs and images that don't shrink anyway), names are
+// UTF-8, and there is no ZIP64, so an archive stays under 4 GiB. readZip only
+// has to understand what createZip writes, plus stored entries from other tools.
+
+export type ZipEntry = { name: string; data: Uint8Array };
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date and time words, local time (2-second resolution). */
+function dosDateTime(d: Date): { time: number; date: number } {
+  const year = Math.max(1980, d.getFullYear());
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map((e) => ({ name: encoder.encode(e.name), data: e.data, crc: crc32(e.data) }));
+
+  const localSize = files.reduce((n, f) => n + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((n, f) => n + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+  const u16 = (v: number) => {
+    view.setUint16(pos, v, true);
+    pos += 2;
+  };
+  const u32 = (v: number) => {
+    view.setUint32(pos, v, true);
+    pos += 4;
+  };
+  const bytes = (b: Uint8Array) => {
+    out.set(b, pos);
+    pos += b.length;
+  };
+
+  const offsets: number[] = [];
+  for (const f of files) {
+    offsets.push(pos);
+    u32(LOCAL_HEADER);
+    u16(20); // version needed
+    u16(UTF8_FLAG);
+    u16(0); // stored
+    u16(time);
+    u16(date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0); // extra length
+    bytes(f.name);
+    bytes(f.data);
+  }
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    u32(CENTRAL_HEADER);
+    u16(20); // version made by
+    u16(20); // version needed
+    u16(UTF8_FLAG);
+    u16(0); // stored
+    u16(time);
+    u16(date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0); // extra length
+    u16(0); // comment length
+    u16(0); // disk number
+    u16(0); // internal attributes
+    u32(0); // external attributes
+    u32(offsets[i]);
+    bytes(f.name);
+  });
+
+  u32(END_OF_CENTRAL_DIR);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(centralSize);
+  u32(centralStart);
+  u16(0); // comment length
+  return out;
+}
+
+export function readZip(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record is the last 22 bytes unless the archive has a comment.
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive");
+
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > archive.length || view.getUint32(pos, true) !== CENTRAL_HEADER) throw new Error("Zip archive is damaged");
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(archive.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue; // directory entry
+    if (method !== 0) throw new Error(`"${name}" is compressed; only uncompressed (stored) zip entries can be read`);
+    if (view.getUint32(offset, true) !== LOCAL_HEADER) throw new Error("Zip archive is damaged");
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    if (start + size > archive.length) throw new Error("Zip archive is damaged");
+    const data = archive.subarray(start, start + size);
+    if (crc32(data) !== crc) throw new Error(`"${name}" is damaged (checksum mismatch)`);
+    entries.push({ name, data });
+  }
+  return entries;
+}
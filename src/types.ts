@@ -5,11 +5,26 @@ export type Project = {
   icon?: string | null;
   sortOrder: number;
   createdAt: string;
+  parentId?: string | null; // see lib/projectTree.ts
+  isArea?: boolean; // top-level grouping shown as a section header
+  archivedAt?: string | null; // hidden from the sidebar and smart views
+  deletedAt?: string | null; // set while in Trash
+};
+
+// A kanban column of one project's board.
+export type BoardColumn = {
+  id: string;
+  projectId: string;
+  name: string;
+  sortOrder: number;
+  isDone: boolean; // holds the project's completed tasks
+  createdAt: string;
 };
 
 export type Tag = {
   id: string;
   name: string;
+  color?: string | null; // #rrggbb
 };
 
 export type Task = {
@@ -20,9 +35,95 @@ export type Task = {
   completed: boolean;
   priority: number;
   dueAt?: string | null; // YYYY-MM-DD
+  dueTime?: string | null; // HH:MM local wall-clock; null = all day
+  startAt?: string | null; // YYYY-MM-DD, when work is scheduled to begin
+  recurrence?: string | null; // RRULE-style, see lib/recurrence.ts
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
+  completedAt?: string | null; // ISO timestamp; null while open
+  columnId?: string | null; // board status; see lib/board.ts
+  deletedAt?: string | null; // set while in Trash
+  subtaskCount?: number;
+  subtaskDone?: number;
+  openBlockers?: number; // blockers not yet completed; see task_dependencies
+  attachmentCount?: number;
+  match?: SearchMatch | null; // set by listTasks when searching
+};
+
+// The other end of a blocked-by link, as listed in the Inspector.
+export type TaskLink = Pick<Task, "id" | "title" | "completed" | "projectId">;
+
+// highlight()/snippet() output with HL_START/HL_END markers (lib/ftsQuery.ts).
+export type SearchMatch = {
+  title: string;
+  notes: string | null;
+};
+
+export type Subtask = {
+  id: string;
+  taskId: string;
+  title: string;
+  completed: boolean;
+  sortOrder: number;
+  createdAt: string;
+};
+
+// Exactly one of `at` / `offsetMinutes` is set; see lib/reminders.ts.
+export type Reminder = {
+  id: string;
+  taskId: string;
+  at: string | null; // absolute, local "YYYY-MM-DDTHH:MM"
+  offsetMinutes: number | null; // relative: minutes before the due date/time
+  snoozedUntil: string | null;
+  firedFor: string | null;
+  createdAt: string;
+};
+
+// A file copied into the app data directory, or a link (migration 016).
+export type Attachment = {
+  id: string;
+  taskId: string;
+  kind: "file" | "url";
+  name: string;
+  target: string; // url, or file path relative to the app data directory
+  size: number | null; // bytes, files only
+  createdAt: string;
+};
+
+// One entry of a task's activity history, written by database triggers
+// (migration 010). `field` is set for "changed"; see lib/taskEvents.ts.
+export type TaskEvent = {
+  id: string;
+  taskId: string;
+  kind: "created" | "changed" | "tagged" | "untagged";
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: string;
+};
+
+// Weekdays follow Date#getDay(): 0 = Sunday ... 6 = Saturday.
+export type RecurrenceRule =
+  | { freq: "daily"; interval: number }
+  | { freq: "weekly"; interval: number; weekdays: number[] }
+  | { freq: "monthlyDay"; interval: number; day: number }
+  | { freq: "monthlyNth"; interval: number; nth: number; weekday: number } // nth: 1-4, or -1 for last
+  | { freq: "afterCompletion"; interval: number };
+
+// A named, user-defined filter set shown in the sidebar next to the built-in views.
+export type SavedView = {
+  id: string;
+  name: string;
+  search: string; // may include query filters (lib/searchQuery.ts)
+  tagIds: string[];
+  projectId?: string | null;
+  priorityMin?: number | null;
+  dueFrom?: string | null; // YYYY-MM-DD, inclusive
+  dueTo?: string | null; // YYYY-MM-DD, inclusive
+  includeCompleted: boolean;
+  sortOrder: number;
+  createdAt: string;
 };
 
-export type SmartView = "today" | "upcoming" | "all" | "completed";
+export type SmartView = "today" | "overdue" | "upcoming" | "all" | "completed" | "trash";